@@ -1,4 +1,8 @@
 # prompts_config.py
+#
+# Used only by this legacy backend. The web app's built-in templates live in
+# frontend/src/lib/prompts.ts, which is the source of truth; this copy is not
+# kept in sync with it.
 
 # ==========================================
 # STEP 1: THE ARCHITECT (DO NOT MODIFY)
@@ -0,0 +1,7 @@
+import { NextResponse } from 'next/server';
+import { loadCredentialProfiles, summarizeCredentialProfile } from '@/lib/server/credentials';
+
+// Lists the server-side credential profiles; keys never leave the server
+export async function GET() {
+    return NextResponse.json({ profiles: loadCredentialProfiles().map(summarizeCredentialProfile) });
+}
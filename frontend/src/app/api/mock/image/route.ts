@@ -0,0 +1,22 @@
+import { delay, mockFailure, mockImagePng, mockUsage, readMockOptions, readMockRequest } from '@/lib/server/mock';
+
+// Valid base64 that decodes to something other than an image
+const MALFORMED_IMAGE_URL = `data:image/png;base64,${Buffer.from('not a png').toString('base64')}`;
+
+export async function POST(req: Request) {
+    const { latencyMs, error } = readMockOptions(new URL(req.url).searchParams);
+    const request = await readMockRequest(req);
+    if (request instanceof Response) return request;
+    const { prompt, image } = request;
+
+    await delay(latencyMs, req.signal);
+    if (error === '429' || error === '500') return mockFailure(error);
+
+    const usage = mockUsage(prompt, '');
+    if (error === 'malformed') {
+        return Response.json({ imageUrl: MALFORMED_IMAGE_URL, usage });
+    }
+    // Edits send the image with the region to change marked; handing that back makes the edit visible
+    const imageUrl = image ?? `data:image/png;base64,${mockImagePng(prompt).toString('base64')}`;
+    return Response.json({ imageUrl, text: 'Placeholder image from the mock provider', usage });
+}
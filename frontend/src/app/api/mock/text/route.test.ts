@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { POST } from './route';
+
+function mockRequest(body: string, query = '', signal?: AbortSignal): Request {
+    return new Request(`http://localhost/api/mock/text${query}`, { method: 'POST', body, signal });
+}
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('POST /api/mock/text', () => {
+    it('answers with a schema and token usage', async () => {
+        const response = await POST(mockRequest(JSON.stringify({ prompt: 'Paper Content:\nGraph neural networks' })));
+        const data = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(data.text).toContain('---BEGIN PROMPT---');
+        expect(data.usage.completionTokens).toBeGreaterThan(0);
+    });
+
+    it('streams the reply line by line, then usage', async () => {
+        const prompt = 'Paper Content:\nGraph neural networks';
+        const response = await POST(mockRequest(JSON.stringify({ prompt, stream: true })));
+        const events = (await response.text()).split('\n\n').filter(Boolean).map((event) => event.slice('data: '.length));
+
+        expect(response.headers.get('content-type')).toBe('text/event-stream');
+        expect(events.at(-1)).toBe('[DONE]');
+        expect(JSON.parse(events.at(-2)!)).toHaveProperty('usage');
+        const text = events.slice(0, -2).map((event) => JSON.parse(event).text).join('');
+        const whole = await (await POST(mockRequest(JSON.stringify({ prompt })))).json();
+        expect(text).toBe(whole.text);
+    });
+
+    it('stops writing once the client goes away', async () => {
+        const enqueue = vi.spyOn(ReadableStreamDefaultController.prototype, 'enqueue');
+        const close = vi.spyOn(ReadableStreamDefaultController.prototype, 'close');
+        const controller = new AbortController();
+        const response = await POST(mockRequest(JSON.stringify({ prompt: 'Paper Content:\nGraph neural networks', stream: true }), '', controller.signal));
+        const reader = response.body!.getReader();
+        await reader.read();
+        const writes = enqueue.mock.calls.length;
+        controller.abort();
+        await reader.cancel();
+
+        // Writing to the cancelled stream would throw
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        expect(enqueue).toHaveBeenCalledTimes(writes);
+        expect(close).not.toHaveBeenCalled();
+    });
+
+    it('injects rate limits, server errors and malformed output', async () => {
+        const body = JSON.stringify({ prompt: 'Paper Content:\nGraph neural networks' });
+
+        const limited = await POST(mockRequest(body, '?error=429'));
+        expect(limited.status).toBe(429);
+        expect(limited.headers.get('retry-after')).toBe('1');
+        expect((await POST(mockRequest(body, '?error=500'))).status).toBe(500);
+
+        const malformed = await POST(mockRequest(body, '?error=malformed'));
+        expect(malformed.status).toBe(200);
+        expect((await malformed.json()).text).not.toContain('---END PROMPT---');
+    });
+
+    it('answers a body that is not JSON with a 400', async () => {
+        const response = await POST(mockRequest('{'));
+
+        expect(response.status).toBe(400);
+        expect(await response.json()).toMatchObject({ code: 'invalid_request' });
+        expect((await POST(mockRequest(JSON.stringify({ prompt: 42 })))).status).toBe(400);
+    });
+});
@@ -0,0 +1,51 @@
+import {
+    delay,
+    malformedTextReply,
+    mockFailure,
+    mockTextReply,
+    mockUsage,
+    readMockOptions,
+    readMockRequest,
+} from '@/lib/server/mock';
+
+// Lines are streamed this far apart, so streaming UI has something to show
+const STREAM_LINE_DELAY_MS = 20;
+
+export async function POST(req: Request) {
+    const { latencyMs, error } = readMockOptions(new URL(req.url).searchParams);
+    const request = await readMockRequest(req);
+    if (request instanceof Response) return request;
+    const { prompt, stream } = request;
+
+    await delay(latencyMs, req.signal);
+    if (error === '429' || error === '500') return mockFailure(error);
+
+    const text = error === 'malformed' ? malformedTextReply(prompt) : mockTextReply(prompt);
+    const usage = mockUsage(prompt, text);
+    if (!stream) {
+        return Response.json({ text, usage });
+    }
+
+    const encoder = new TextEncoder();
+    // Once the client is gone the stream is closed, and writing to it throws
+    let cancelled = false;
+    const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const send = (data: unknown) => controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+            const lines = text.split('\n');
+            for (const [i, line] of lines.entries()) {
+                if (cancelled || req.signal.aborted) return;
+                send({ text: i < lines.length - 1 ? `${line}\n` : line });
+                await delay(STREAM_LINE_DELAY_MS, req.signal);
+            }
+            if (cancelled || req.signal.aborted) return;
+            send({ usage });
+            controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+            controller.close();
+        },
+        cancel() {
+            cancelled = true;
+        },
+    });
+    return new Response(body, { headers: { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' } });
+}
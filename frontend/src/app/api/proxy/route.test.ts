@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { POST } from './route';
+
+const upstream = vi.fn();
+
+function proxyRequest(envelope: Record<string, unknown>): Request {
+    return new Request('http://localhost/api/proxy', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(envelope),
+    });
+}
+
+beforeEach(() => {
+    vi.stubEnv('PROXY_ALLOWED_HOSTS', 'api.openai.com,host');
+    upstream.mockReset().mockResolvedValue(Response.json({ ok: true }));
+    vi.stubGlobal('fetch', upstream);
+});
+
+afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+});
+
+describe('POST /api/proxy', () => {
+    it('forwards to the endpoint with query parameters', async () => {
+        const response = await POST(proxyRequest({
+            baseUrl: 'https://api.openai.com/v1',
+            path: '/chat/completions',
+            query: { 'api-version': '2024-10-21' },
+            body: {},
+        }));
+
+        expect(response.status).toBe(200);
+        expect(String(upstream.mock.calls[0][0])).toBe('https://api.openai.com/v1/chat/completions?api-version=2024-10-21');
+    });
+
+    it('refuses a base URL fragment that would fetch another endpoint', async () => {
+        const response = await POST(proxyRequest({
+            baseUrl: 'https://api.openai.com/v1/files#',
+            path: '/chat/completions',
+            body: {},
+        }));
+
+        expect(response.status).toBe(400);
+        expect(await response.json()).toMatchObject({ code: 'invalid_url' });
+        expect(upstream).not.toHaveBeenCalled();
+    });
+
+    it('refuses a base URL query that would swallow the endpoint path', async () => {
+        const response = await POST(proxyRequest({
+            baseUrl: 'http://host/admin?x=',
+            path: '/chat/completions',
+            body: {},
+        }));
+
+        expect(response.status).toBe(400);
+        expect(await response.json()).toMatchObject({ code: 'invalid_url' });
+        expect(upstream).not.toHaveBeenCalled();
+    });
+
+    it('refuses a base URL that leads to an endpoint outside the allowlist', async () => {
+        const response = await POST(proxyRequest({
+            baseUrl: 'https://api.openai.com/v1/files/..',
+            path: '/../../admin',
+            body: {},
+        }));
+
+        expect(response.status).toBe(403);
+        expect(await response.json()).toMatchObject({ code: 'path_not_allowed' });
+        expect(upstream).not.toHaveBeenCalled();
+    });
+
+    it('answers malformed JSON with a 400', async () => {
+        const response = await POST(new Request('http://localhost/api/proxy', { method: 'POST', body: '{' }));
+
+        expect(response.status).toBe(400);
+        expect(await response.json()).toMatchObject({ code: 'invalid_request' });
+    });
+});
@@ -1,45 +1,190 @@
-
 import { NextResponse } from 'next/server';
+import {
+    authHeaders,
+    checkProfileTarget,
+    findCredentialProfile,
+    isAuthScheme,
+    profileAuthHeaders,
+} from '@/lib/server/credentials';
+import {
+    checkMethod,
+    checkPath,
+    checkTarget,
+    forwardedResponseHeaders,
+    limitStream,
+    loadProxyPolicy,
+    parseTargetUrl,
+    ProxyPolicy,
+    ProxyRejection,
+    readLimited,
+} from '@/lib/server/proxyPolicy';
+
+// Set by fetch itself, or refused by it
+const RESERVED_REQUEST_HEADERS = new Set([
+    'host', 'content-length', 'connection', 'keep-alive', 'transfer-encoding', 'upgrade', 'expect', 'te', 'trailer',
+]);
+
+function parseEnvelope(text: string) {
+    try {
+        return JSON.parse(text);
+    } catch {
+        throw new ProxyRejection(400, 'invalid_request', 'Proxy request is not valid JSON');
+    }
+}
+
+/**
+ * Read the browser's request, refusing oversized bodies before reading them.
+ * It is either a JSON envelope, or for uploads multipart/form-data with the
+ * envelope in a `proxy` field and the upstream form fields alongside, so
+ * files travel as binary.
+ */
+async function readProxyRequest(req: Request, policy: ProxyPolicy) {
+    const tooLarge = () => new ProxyRejection(
+        413,
+        'request_too_large',
+        `Request body exceeds ${policy.maxRequestBytes} bytes`
+    );
+    if (Number(req.headers.get('content-length')) > policy.maxRequestBytes) throw tooLarge();
+    const bytes = await readLimited(req.body, policy.maxRequestBytes, tooLarge);
+
+    const contentType = req.headers.get('content-type') || '';
+    if (!contentType.startsWith('multipart/form-data')) {
+        return { ...parseEnvelope(bytes.toString('utf8')), form: null };
+    }
+
+    let received: FormData;
+    try {
+        received = await new Response(new Uint8Array(bytes), { headers: { 'Content-Type': contentType } }).formData();
+    } catch {
+        throw new ProxyRejection(400, 'invalid_request', 'Malformed multipart body');
+    }
+    const envelope = received.get('proxy');
+    if (typeof envelope !== 'string') {
+        throw new ProxyRejection(400, 'invalid_request', 'Multipart requests need a proxy field');
+    }
+    const form = new FormData();
+    received.forEach((value, name) => {
+        if (name !== 'proxy') form.append(name, value);
+    });
+    return { ...parseEnvelope(envelope), form };
+}
+
+// application/json and +json types, but not NDJSON streams
+const JSON_CONTENT_TYPE = /^application\/([\w.-]+\+)?json\s*(;|$)/i;
+
+function rejectionResponse(rejection: ProxyRejection) {
+    return NextResponse.json(
+        { error: rejection.message, code: rejection.code },
+        { status: rejection.status }
+    );
+}
 
 export async function POST(req: Request) {
+    const policy = loadProxyPolicy();
     try {
-        const { apiKey, baseUrl, body, path } = await req.json();
+        const {
+            apiKey,
+            authScheme,
+            credentialProfile,
+            baseUrl,
+            body,
+            form,
+            path = '',
+            headers,
+            query,
+            method = 'POST',
+        } = await readProxyRequest(req, policy);
 
         if (!baseUrl) {
-            return NextResponse.json(
-                { error: 'Base URL is required' },
-                { status: 400 }
-            );
+            throw new ProxyRejection(400, 'invalid_request', 'Base URL is required');
         }
 
-        // Ensure baseUrl doesn't end with slash if we are appending path
-        const normalizedBaseUrl = baseUrl.endsWith('/') ? baseUrl.slice(0, -1) : baseUrl;
-        // Normalized path (e.g. /chat/completions)
-        const normalizedPath = path.startsWith('/') ? path : `/${path}`;
+        if (authScheme !== undefined && !isAuthScheme(authScheme)) {
+            throw new ProxyRejection(400, 'invalid_request', `Unknown auth scheme: ${authScheme}`);
+        }
 
-        const url = `${normalizedBaseUrl}${normalizedPath}`;
+        const url = parseTargetUrl(baseUrl, path);
+        for (const [name, value] of Object.entries(query || {})) {
+            url.searchParams.set(name, String(value));
+        }
+        checkMethod(method, policy);
+        checkPath(url, policy);
+        const profile = credentialProfile ? findCredentialProfile(credentialProfile) : null;
+        if (profile) {
+            // The operator configured this origin, so it skips the host checks
+            checkProfileTarget(url, profile);
+        } else {
+            await checkTarget(url, policy);
+        }
+
+        // fetch sets the multipart boundary itself
+        const upstreamHeaders = new Headers(form ? {} : { 'Content-Type': 'application/json' });
+        for (const [name, value] of Object.entries(headers || {})) {
+            if (!RESERVED_REQUEST_HEADERS.has(name.toLowerCase())) upstreamHeaders.set(name, String(value));
+        }
+        // The key goes last, so a server-side profile overrides whatever the browser sent
+        const auth = profile
+            ? profileAuthHeaders(profile, authScheme)
+            : apiKey ? authHeaders(authScheme ?? 'bearer', apiKey) : {};
+        for (const [name, value] of Object.entries(auth)) upstreamHeaders.set(name, value);
 
         const response = await fetch(url, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${apiKey}`,
-            },
-            body: JSON.stringify(body),
+            method,
+            headers: upstreamHeaders,
+            body: method === 'GET' ? undefined : form ?? JSON.stringify(body),
+            // Abort the upstream call when the browser cancels or the call runs too long
+            signal: AbortSignal.any([req.signal, AbortSignal.timeout(policy.timeoutMs)]),
+            // A redirect could lead anywhere, past the host checks above
+            redirect: 'manual',
         });
 
+        if (response.status >= 300 && response.status < 400) {
+            throw new ProxyRejection(502, 'upstream_redirect', `Upstream redirected (${response.status})`);
+        }
+
+        const responseTooLarge = () => new ProxyRejection(
+            502,
+            'response_too_large',
+            `Upstream response exceeds ${policy.maxResponseBytes} bytes`
+        );
+
+        // Content type and rate-limit state go back to the browser with every response
+        const responseHeaders = forwardedResponseHeaders(response.headers);
+
         if (!response.ok) {
-            const errorText = await response.text();
+            const errorText = (await readLimited(response.body, policy.maxResponseBytes, responseTooLarge)).toString('utf8');
+            responseHeaders.delete('content-type');
             return NextResponse.json(
                 { error: `API Error: ${response.statusText}`, details: errorText },
-                { status: response.status }
+                { status: response.status, headers: responseHeaders }
             );
         }
 
-        const data = await response.json();
-        return NextResponse.json(data);
+        // Plain JSON is read whole, so an oversized body fails cleanly with a 502
+        const contentType = response.headers.get('content-type') || '';
+        if (JSON_CONTENT_TYPE.test(contentType)) {
+            const data = await readLimited(response.body, policy.maxResponseBytes, responseTooLarge);
+            return NextResponse.json(JSON.parse(data.toString('utf8')), { status: response.status, headers: responseHeaders });
+        }
+
+        // Everything else (SSE, NDJSON, image bytes) streams through untouched
+        responseHeaders.set('Cache-Control', 'no-cache');
+        return new Response(response.body && limitStream(response.body, policy.maxResponseBytes), {
+            status: response.status,
+            headers: responseHeaders,
+        });
 
     } catch (error: any) {
+        if (error instanceof ProxyRejection) {
+            return rejectionResponse(error);
+        }
+        if (error?.name === 'TimeoutError') {
+            return rejectionResponse(new ProxyRejection(
+                504,
+                'upstream_timeout',
+                `Upstream did not answer within ${policy.timeoutMs / 1000}s`
+            ));
+        }
         console.error('Proxy Error:', error);
         return NextResponse.json(
             { error: 'Internal Server Error', details: error.message },
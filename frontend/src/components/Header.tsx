@@ -5,6 +5,7 @@ import { Button } from '@/components/ui/button';
 import { useWorkflowStore } from '@/store/workflowStore';
 import { useTranslation } from '@/lib/i18n';
 import { motion } from 'framer-motion';
+import { ProjectSwitcher } from '@/components/ProjectSwitcher';
 
 interface HeaderProps {
     onOpenSettings: () => void;
@@ -30,6 +31,11 @@ export function Header({ onOpenSettings }: HeaderProps) {
                         <h1 className="text-xl font-bold tracking-tight bg-clip-text text-transparent bg-gradient-to-r from-slate-100 to-slate-400">
                             {t('appTitle')}
                         </h1>
+
+                        {/* Project Switcher */}
+                        <div className="ml-2 pl-3 border-l border-white/10">
+                            <ProjectSwitcher />
+                        </div>
                     </div>
 
                     {/* Actions */}
@@ -0,0 +1,277 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Eraser, Loader2, Wand2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useWorkflowStore } from '@/store/workflowStore';
+import { useTranslation } from '@/lib/i18n';
+import { editImage, EditImageRequest } from '@/lib/api';
+import { needsApiKey } from '@/lib/providers';
+import { storeImage, useImageUrl } from '@/lib/images';
+import { showRetryToast } from '@/components/retryToast';
+
+const BRUSH_COLOR = 'rgb(239, 68, 68)';
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.crossOrigin = 'anonymous';
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error('Could not load image'));
+        img.src = url;
+    });
+}
+
+function createCanvas(width: number, height: number) {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return { canvas, ctx: canvas.getContext('2d')! };
+}
+
+/**
+ * Compose the edit request from the source image and the painted strokes,
+ * all at the image's natural resolution.
+ */
+async function buildEditRequest(imageUrl: string, strokes: HTMLCanvasElement, instruction: string): Promise<EditImageRequest> {
+    const img = await loadImage(imageUrl);
+    const { naturalWidth: width, naturalHeight: height } = img;
+
+    const source = createCanvas(width, height);
+    source.ctx.drawImage(img, 0, 0);
+
+    // Opaque everywhere except the painted region
+    const mask = createCanvas(width, height);
+    mask.ctx.fillStyle = '#000';
+    mask.ctx.fillRect(0, 0, width, height);
+    mask.ctx.globalCompositeOperation = 'destination-out';
+    mask.ctx.drawImage(strokes, 0, 0);
+
+    const marked = createCanvas(width, height);
+    marked.ctx.drawImage(img, 0, 0);
+    marked.ctx.globalAlpha = 0.5;
+    marked.ctx.drawImage(strokes, 0, 0);
+
+    return {
+        image: source.canvas.toDataURL('image/png'),
+        mask: mask.canvas.toDataURL('image/png'),
+        markedImage: marked.canvas.toDataURL('image/png'),
+        instruction,
+    };
+}
+
+interface ImageEditDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+export function ImageEditDialog({ open, onOpenChange }: ImageEditDialogProps) {
+    const {
+        language,
+        generatedImage,
+        generatedSchema,
+        history,
+        visionConfig,
+        setGeneratedImage,
+        addToHistory,
+        getRetryOptions,
+        beginModelCall,
+        endModelCall,
+    } = useWorkflowStore();
+    const t = useTranslation(language);
+    const imageUrl = useImageUrl(generatedImage);
+
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const lastPoint = useRef<{ x: number; y: number } | null>(null);
+    const [brushSize, setBrushSize] = useState(40);
+    const [hasMask, setHasMask] = useState(false);
+    const [instruction, setInstruction] = useState('');
+    const [isEditing, setIsEditing] = useState(false);
+
+    // Size the drawing canvas to the image's natural resolution once it loads
+    const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        canvas.width = e.currentTarget.naturalWidth;
+        canvas.height = e.currentTarget.naturalHeight;
+        setHasMask(false);
+    };
+
+    const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const canvas = e.currentTarget;
+        const rect = canvas.getBoundingClientRect();
+        return {
+            x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+            y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+        };
+    };
+
+    const drawTo = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const canvas = e.currentTarget;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return;
+        const point = toCanvasPoint(e);
+        const from = lastPoint.current ?? point;
+        // Brush size is in screen pixels, independent of the image resolution
+        const scale = canvas.width / canvas.getBoundingClientRect().width;
+
+        ctx.strokeStyle = BRUSH_COLOR;
+        ctx.lineWidth = brushSize * scale;
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+        ctx.beginPath();
+        ctx.moveTo(from.x, from.y);
+        ctx.lineTo(point.x, point.y);
+        ctx.stroke();
+
+        lastPoint.current = point;
+        setHasMask(true);
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        lastPoint.current = null;
+        drawTo(e);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (e.buttons !== 1) return;
+        drawTo(e);
+    };
+
+    const clearMask = () => {
+        const canvas = canvasRef.current;
+        canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+        setHasMask(false);
+    };
+
+    const handleApply = async () => {
+        if (!imageUrl || !canvasRef.current || !hasMask || !instruction.trim()) return;
+        if (needsApiKey(visionConfig)) {
+            toast.error(t('missingApiKey'));
+            return;
+        }
+
+        setIsEditing(true);
+        beginModelCall();
+        try {
+            const request = await buildEditRequest(imageUrl, canvasRef.current, instruction.trim());
+            const response = await editImage(visionConfig, request, {
+                ...getRetryOptions('vision'),
+                onRetry: (event) => showRetryToast(event, t),
+            });
+            if (!response.imageUrl) {
+                toast.error(response.text || t('generationFailed'));
+                return;
+            }
+
+            const imageRef = await storeImage(response.imageUrl);
+            const parent = history.find((h) => h.imageRef === generatedImage);
+            addToHistory({
+                schema: parent?.schema ?? generatedSchema,
+                imageRef,
+                parentId: parent?.id,
+                instruction: instruction.trim(),
+            });
+            setGeneratedImage(imageRef);
+            setInstruction('');
+            onOpenChange(false);
+            toast.success(t('editApplied'));
+        } catch (error) {
+            console.error(error);
+            toast.error(`${t('generationFailed')} ${error instanceof Error ? error.message : ''}`);
+        } finally {
+            setIsEditing(false);
+            endModelCall();
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[1000px] bg-white border-slate-200">
+                <DialogHeader>
+                    <DialogTitle className="text-xl font-semibold text-slate-900">
+                        {t('editRegion')}
+                    </DialogTitle>
+                </DialogHeader>
+
+                <p className="text-sm text-slate-500">{t('editRegionHint')}</p>
+
+                {/* Image with the mask canvas stacked on top */}
+                <div className="relative max-h-[520px] overflow-auto rounded-lg border border-slate-200 bg-slate-50">
+                    {imageUrl && (
+                        <div className="relative">
+                            <img
+                                src={imageUrl}
+                                alt="Diagram to edit"
+                                onLoad={handleImageLoad}
+                                className="w-full h-auto select-none"
+                                draggable={false}
+                            />
+                            <canvas
+                                ref={canvasRef}
+                                onPointerDown={handlePointerDown}
+                                onPointerMove={handlePointerMove}
+                                onPointerUp={() => { lastPoint.current = null; }}
+                                className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+                            />
+                        </div>
+                    )}
+                </div>
+
+                <div className="flex items-center gap-3">
+                    <Label htmlFor="brushSize" className="text-slate-700 text-xs">
+                        {t('brushSize')}
+                    </Label>
+                    <input
+                        id="brushSize"
+                        type="range"
+                        min={5}
+                        max={120}
+                        value={brushSize}
+                        onChange={(e) => setBrushSize(Number(e.target.value))}
+                        className="w-40 accent-indigo-600"
+                    />
+                    <Button variant="outline" size="sm" onClick={clearMask} disabled={!hasMask} className="border-slate-200">
+                        <Eraser className="w-4 h-4 mr-1.5" />
+                        {t('clearMask')}
+                    </Button>
+                </div>
+
+                <Textarea
+                    value={instruction}
+                    onChange={(e) => setInstruction(e.target.value)}
+                    placeholder={t('editInstructionPlaceholder')}
+                    className="h-20 resize-none border-slate-200"
+                />
+
+                <div className="flex justify-end gap-3">
+                    <Button variant="outline" onClick={() => onOpenChange(false)} className="border-slate-200">
+                        {t('cancel')}
+                    </Button>
+                    <Button
+                        onClick={handleApply}
+                        disabled={isEditing || !hasMask || !instruction.trim()}
+                        className="bg-indigo-600 hover:bg-indigo-700 text-white"
+                    >
+                        {isEditing ? (
+                            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        ) : (
+                            <Wand2 className="w-4 h-4 mr-2" />
+                        )}
+                        {isEditing ? t('applyingEdit') : t('applyEdit')}
+                    </Button>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
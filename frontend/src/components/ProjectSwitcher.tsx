@@ -0,0 +1,134 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, FolderOpen, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useWorkflowStore } from '@/store/workflowStore';
+import { useTranslation } from '@/lib/i18n';
+import { motion, AnimatePresence } from 'framer-motion';
+import { toast } from 'sonner';
+
+export function ProjectSwitcher() {
+    const {
+        language,
+        projects,
+        activeProjectId,
+        createProject,
+        switchProject,
+        renameProject,
+        deleteProject,
+        pendingModelCalls,
+    } = useWorkflowStore();
+    const t = useTranslation(language);
+    const [open, setOpen] = useState(false);
+
+    const activeProject = projects.find((p) => p.id === activeProjectId);
+    // A running call writes its result into the active project, so keep it active
+    const isBusy = pendingModelCalls > 0;
+
+    const handleCreate = () => {
+        const name = prompt(t('projectNamePrompt'), t('untitledProject'));
+        if (!name?.trim()) return;
+        createProject(name.trim());
+        setOpen(false);
+        toast.success(`${t('projectCreated')}: ${name.trim()}`);
+    };
+
+    const handleSwitch = (id: string) => {
+        if (isBusy && id !== activeProjectId) return;
+        switchProject(id);
+        setOpen(false);
+    };
+
+    const handleRename = (id: string, currentName: string, e: React.MouseEvent) => {
+        e.stopPropagation();
+        const name = prompt(t('projectNamePrompt'), currentName);
+        if (name?.trim()) renameProject(id, name.trim());
+    };
+
+    const handleDelete = (id: string, name: string, e: React.MouseEvent) => {
+        e.stopPropagation();
+        if (confirm(`${t('deleteProjectConfirm')} (${name})`)) {
+            deleteProject(id);
+        }
+    };
+
+    return (
+        <div className="relative">
+            <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setOpen(!open)}
+                className="text-slate-300 hover:text-white hover:bg-white/5 max-w-[220px]"
+            >
+                <FolderOpen className="w-4 h-4 mr-1.5 text-amber-500 flex-shrink-0" />
+                <span className="truncate">{activeProject?.name}</span>
+                <ChevronDown className="w-3.5 h-3.5 ml-1 flex-shrink-0" />
+            </Button>
+
+            <AnimatePresence>
+                {open && (
+                    <>
+                        {/* Click-away backdrop */}
+                        <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+                        <motion.div
+                            initial={{ opacity: 0, y: -8 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            exit={{ opacity: 0, y: -8 }}
+                            className="absolute left-0 top-full mt-2 w-72 z-50 rounded-xl border border-white/10 bg-slate-900/95 backdrop-blur-xl shadow-xl p-2"
+                        >
+                            <p className="px-2 py-1 text-xs text-slate-500">{t('projects')}</p>
+                            {isBusy && (
+                                <p className="px-2 pb-1 text-xs text-amber-400/80">{t('projectsLockedWhileRunning')}</p>
+                            )}
+                            <div className="max-h-[320px] overflow-auto">
+                                {projects.map((project) => (
+                                    <div
+                                        key={project.id}
+                                        onClick={() => handleSwitch(project.id)}
+                                        className={`group flex items-center gap-2 px-2 py-2 rounded-lg cursor-pointer transition-colors ${project.id === activeProjectId
+                                            ? 'bg-amber-500/10 text-amber-200'
+                                            : isBusy
+                                                ? 'text-slate-500 cursor-not-allowed'
+                                                : 'text-slate-300 hover:bg-white/5'}`}
+                                    >
+                                        <div className="flex-1 min-w-0">
+                                            <p className="text-sm truncate">{project.name}</p>
+                                            <p className="text-[10px] text-slate-500">
+                                                {new Date(project.updatedAt).toLocaleString()}
+                                            </p>
+                                        </div>
+                                        <button
+                                            onClick={(e) => handleRename(project.id, project.name, e)}
+                                            className="p-1 text-slate-500 hover:text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                                            title={t('renameProject')}
+                                        >
+                                            <Pencil className="w-3.5 h-3.5" />
+                                        </button>
+                                        {projects.length > 1 && !isBusy && (
+                                            <button
+                                                onClick={(e) => handleDelete(project.id, project.name, e)}
+                                                className="p-1 text-slate-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                                                title={t('deleteProject')}
+                                            >
+                                                <Trash2 className="w-3.5 h-3.5" />
+                                            </button>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                            <button
+                                onClick={handleCreate}
+                                disabled={isBusy}
+                                className="mt-1 w-full flex items-center gap-2 px-2 py-2 text-sm text-slate-300 hover:text-white hover:bg-white/5 rounded-lg border-t border-white/5 disabled:opacity-50 disabled:pointer-events-none"
+                            >
+                                <Plus className="w-4 h-4 text-amber-500" />
+                                {t('newProject')}
+                            </button>
+                        </motion.div>
+                    </>
+                )}
+            </AnimatePresence>
+        </div>
+    );
+}
@@ -0,0 +1,317 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Check, Copy, Download, History as HistoryIcon, Plus, RotateCcw, Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useWorkflowStore } from '@/store/workflowStore';
+import { TranslationKey, useTranslation } from '@/lib/i18n';
+import {
+    exportPromptTemplates,
+    findMissingPlaceholders,
+    findUnknownPlaceholders,
+    getCurrentContent,
+    parsePromptTemplateExport,
+    PROMPT_PLACEHOLDERS,
+    PROMPT_STAGES,
+    PromptStage,
+} from '@/lib/prompts';
+
+const STAGE_LABELS: Record<PromptStage, TranslationKey> = {
+    architect: 'promptStageArchitect',
+    renderer: 'promptStageRenderer',
+    rendererWithReferences: 'promptStageRendererWithReferences',
+};
+
+interface PromptLibraryProps {
+    t: ReturnType<typeof useTranslation>;
+}
+
+export function PromptLibrary({ t }: PromptLibraryProps) {
+    const {
+        promptTemplates,
+        activePromptTemplateIds,
+        addPromptTemplate,
+        savePromptTemplateVersion,
+        renamePromptTemplate,
+        restorePromptTemplateVersion,
+        deletePromptTemplate,
+        setActivePromptTemplate,
+        importPromptTemplates,
+    } = useWorkflowStore();
+
+    const [stage, setStage] = useState<PromptStage>('architect');
+    const [selectedIds, setSelectedIds] = useState<Partial<Record<PromptStage, string>>>({});
+    // Unsaved edits, keyed by template id
+    const [drafts, setDrafts] = useState<Record<string, string>>({});
+    const [note, setNote] = useState('');
+    const [showHistory, setShowHistory] = useState(false);
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    const stageTemplates = promptTemplates.filter((tpl) => tpl.stage === stage);
+    const selected = stageTemplates.find((tpl) => tpl.id === (selectedIds[stage] ?? activePromptTemplateIds[stage]))
+        ?? stageTemplates[0];
+    const savedContent = selected ? getCurrentContent(selected) : '';
+    const draft = selected ? drafts[selected.id] ?? savedContent : '';
+    const isDirty = draft !== savedContent;
+    const missing = findMissingPlaceholders(stage, draft);
+    const unknown = findUnknownPlaceholders(stage, draft);
+
+    const selectTemplate = (id: string) => {
+        setSelectedIds((prev) => ({ ...prev, [stage]: id }));
+        setShowHistory(false);
+    };
+
+    const discardDraft = (id: string) => {
+        setDrafts((prev) => {
+            const next = { ...prev };
+            delete next[id];
+            return next;
+        });
+    };
+
+    const handleSaveVersion = () => {
+        if (!selected || missing.length > 0) return;
+        savePromptTemplateVersion(selected.id, draft, note.trim() || undefined);
+        discardDraft(selected.id);
+        setNote('');
+        toast.success(t('versionSaved'));
+    };
+
+    const handleNew = (content: string, name: string) => {
+        const id = addPromptTemplate(stage, name, content);
+        selectTemplate(id);
+    };
+
+    const handleDelete = () => {
+        if (!selected || selected.builtIn) return;
+        if (confirm(`${t('deleteTemplate')}: ${selected.name}?`)) {
+            deletePromptTemplate(selected.id);
+            discardDraft(selected.id);
+            setSelectedIds((prev) => ({ ...prev, [stage]: undefined }));
+        }
+    };
+
+    const handleExport = () => {
+        const blob = new Blob([exportPromptTemplates(promptTemplates)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `prompt-templates-${Date.now()}.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const count = importPromptTemplates(parsePromptTemplateExport(await file.text()));
+            toast.success(`${t('templatesImported')}: ${count}`);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            toast.error(`${t('templatesImportFailed')}: ${message}`);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            {/* Stage selector */}
+            <div className="grid grid-cols-3 gap-2">
+                {PROMPT_STAGES.map((s) => (
+                    <button
+                        key={s}
+                        type="button"
+                        onClick={() => { setStage(s); setShowHistory(false); }}
+                        className={`px-3 py-2 text-xs rounded-md border transition-colors ${s === stage
+                            ? 'border-indigo-500 bg-indigo-50 text-indigo-700'
+                            : 'border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+                    >
+                        {t(STAGE_LABELS[s])}
+                    </button>
+                ))}
+            </div>
+
+            {/* Template picker */}
+            <div className="flex items-center gap-2">
+                <select
+                    value={selected?.id ?? ''}
+                    onChange={(e) => selectTemplate(e.target.value)}
+                    className="h-9 flex-1 rounded-md border border-slate-200 bg-transparent px-3 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+                >
+                    {stageTemplates.map((tpl) => (
+                        <option key={tpl.id} value={tpl.id}>
+                            {tpl.name}{tpl.id === activePromptTemplateIds[stage] ? ' ✓' : ''}
+                        </option>
+                    ))}
+                </select>
+                <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleNew(draft, `${selected?.name ?? 'Template'} (copy)`)}
+                    title={t('duplicateTemplate')}
+                    className="border-slate-200"
+                >
+                    <Copy className="w-4 h-4" />
+                </Button>
+                <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleNew(PROMPT_PLACEHOLDERS[stage].join('\n'), t('newTemplate'))}
+                    title={t('newTemplate')}
+                    className="border-slate-200"
+                >
+                    <Plus className="w-4 h-4" />
+                </Button>
+                <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleDelete}
+                    disabled={!selected || selected.builtIn}
+                    title={t('deleteTemplate')}
+                    className="border-slate-200 text-red-500"
+                >
+                    <Trash2 className="w-4 h-4" />
+                </Button>
+            </div>
+
+            {selected && (
+                <>
+                    <div className="flex items-end gap-2">
+                        <div className="flex-1 space-y-1">
+                            <Label htmlFor="templateName" className="text-slate-700 text-xs">
+                                {t('templateName')}
+                            </Label>
+                            <Input
+                                id="templateName"
+                                value={selected.name}
+                                disabled={selected.builtIn}
+                                onChange={(e) => renamePromptTemplate(selected.id, e.target.value)}
+                                className="h-9 border-slate-200"
+                            />
+                        </div>
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setActivePromptTemplate(stage, selected.id)}
+                            disabled={selected.id === activePromptTemplateIds[stage]}
+                            className="h-9 border-slate-200"
+                        >
+                            <Check className="w-4 h-4 mr-1.5" />
+                            {selected.id === activePromptTemplateIds[stage] ? t('templateActive') : t('useTemplate')}
+                        </Button>
+                    </div>
+
+                    <Textarea
+                        value={draft}
+                        onChange={(e) => setDrafts((prev) => ({ ...prev, [selected.id]: e.target.value }))}
+                        className="h-[220px] resize-none font-mono text-xs border-slate-200 [field-sizing:fixed]"
+                    />
+
+                    {/* Placeholder validation */}
+                    <div className="text-xs space-y-1">
+                        <p className="text-slate-500">
+                            {t('requiredPlaceholders')}: <code>{PROMPT_PLACEHOLDERS[stage].join(', ')}</code>
+                        </p>
+                        {missing.length > 0 && (
+                            <p className="text-red-600">{t('missingPlaceholders')}: {missing.join(', ')}</p>
+                        )}
+                        {unknown.length > 0 && (
+                            <p className="text-amber-600">{t('unknownPlaceholders')}: {unknown.join(', ')}</p>
+                        )}
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                        <Input
+                            value={note}
+                            onChange={(e) => setNote(e.target.value)}
+                            placeholder={t('versionNote')}
+                            className="h-9 flex-1 border-slate-200"
+                        />
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => discardDraft(selected.id)}
+                            disabled={!isDirty}
+                            className="h-9 border-slate-200"
+                        >
+                            {t('cancel')}
+                        </Button>
+                        <Button
+                            size="sm"
+                            onClick={handleSaveVersion}
+                            disabled={!isDirty || missing.length > 0}
+                            className="h-9 bg-indigo-600 hover:bg-indigo-700 text-white"
+                        >
+                            {t('saveVersion')}
+                        </Button>
+                    </div>
+
+                    {/* Version history */}
+                    <div>
+                        <button
+                            type="button"
+                            onClick={() => setShowHistory(!showHistory)}
+                            className="text-xs text-slate-500 hover:text-slate-700 flex items-center gap-1.5"
+                        >
+                            <HistoryIcon className="w-3.5 h-3.5" />
+                            {t('versionHistory')} ({selected.versions.length})
+                        </button>
+                        {showHistory && (
+                            <div className="mt-2 max-h-[160px] overflow-auto space-y-1">
+                                {[...selected.versions].reverse().map((version, i) => (
+                                    <div
+                                        key={version.id}
+                                        className="flex items-center justify-between gap-2 p-2 rounded-md border border-slate-100 text-xs"
+                                    >
+                                        <div className="min-w-0">
+                                            <p className="text-slate-700">
+                                                v{selected.versions.length - i}
+                                                {' · '}
+                                                {version.createdAt ? new Date(version.createdAt).toLocaleString() : t('builtInTemplate')}
+                                            </p>
+                                            {version.note && <p className="text-slate-400 truncate">{version.note}</p>}
+                                        </div>
+                                        {i > 0 && (
+                                            <button
+                                                type="button"
+                                                onClick={() => restorePromptTemplateVersion(selected.id, version.id)}
+                                                className="flex items-center gap-1 text-indigo-600 hover:text-indigo-800 flex-shrink-0"
+                                            >
+                                                <RotateCcw className="w-3 h-3" />
+                                                {t('restoreVersion')}
+                                            </button>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </>
+            )}
+
+            {/* Import / Export */}
+            <div className="flex justify-end gap-2 pt-2 border-t border-slate-100">
+                <Button variant="outline" size="sm" onClick={() => importInputRef.current?.click()} className="border-slate-200">
+                    <Upload className="w-4 h-4 mr-1.5" />
+                    {t('importTemplates')}
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleExport} className="border-slate-200">
+                    <Download className="w-4 h-4 mr-1.5" />
+                    {t('exportTemplates')}
+                </Button>
+                <input
+                    ref={importInputRef}
+                    type="file"
+                    accept="application/json,.json"
+                    className="hidden"
+                    onChange={handleImport}
+                />
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,181 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, MessageSquare, Send } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useWorkflowStore } from '@/store/workflowStore';
+import { useTranslation } from '@/lib/i18n';
+import { refineSchema, renderImage } from '@/lib/api';
+import { needsApiKey } from '@/lib/providers';
+import { loadImageDataUrls, storeImage } from '@/lib/images';
+import { StoredImage } from '@/components/StoredImage';
+import { showRetryToast } from '@/components/retryToast';
+
+type RefinementStage = 'idle' | 'patching' | 'rendering';
+
+/**
+ * Chat panel for the Renderer step. Each instruction has the logic model
+ * patch the Visual Schema, then re-renders with the previous image as a
+ * reference. The conversation is kept per project.
+ */
+export function RefinementChat() {
+    const {
+        language,
+        generatedSchema,
+        generatedImage,
+        referenceImages,
+        history,
+        logicConfig,
+        visionConfig,
+        refinementMessages,
+        addRefinementMessage,
+        clearRefinementMessages,
+        setGeneratedSchema,
+        commitSchemaRevision,
+        setGeneratedImage,
+        addToHistory,
+        getActivePromptTemplates,
+        getRetryOptions,
+        beginModelCall,
+        endModelCall,
+    } = useWorkflowStore();
+    const t = useTranslation(language);
+    const [input, setInput] = useState('');
+    const [stage, setStage] = useState<RefinementStage>('idle');
+
+    const handleSend = async () => {
+        const instruction = input.trim();
+        if (!instruction || stage !== 'idle') return;
+        if (needsApiKey(logicConfig) || needsApiKey(visionConfig)) {
+            toast.error(t('missingApiKey'));
+            return;
+        }
+
+        // Failed turns are shown in the panel but not sent back to the model
+        const turns = refinementMessages
+            .filter((m) => !m.error)
+            .map(({ role, content }) => ({ role, content }));
+        addRefinementMessage({ role: 'user', content: instruction });
+        setInput('');
+
+        beginModelCall();
+        try {
+            setStage('patching');
+            const { schema, summary } = await refineSchema(generatedSchema, instruction, turns, logicConfig, {
+                ...getRetryOptions('logic'),
+                onRetry: (event) => showRetryToast(event, t),
+            });
+            setGeneratedSchema(schema);
+            commitSchemaRevision('model');
+
+            setStage('rendering');
+            const previous = generatedImage ? [generatedImage] : [];
+            const references = await loadImageDataUrls([...previous, ...referenceImages]);
+            const response = await renderImage(schema, visionConfig, references, {
+                templates: getActivePromptTemplates(),
+                ...getRetryOptions('vision'),
+                onRetry: (event) => showRetryToast(event, t),
+            });
+            if (!response.imageUrl) {
+                throw new Error(response.text || t('noImage'));
+            }
+
+            const imageRef = await storeImage(response.imageUrl);
+            const parent = history.find((h) => h.imageRef === generatedImage);
+            addToHistory({ schema, imageRef, parentId: parent?.id, instruction });
+            setGeneratedImage(imageRef);
+            addRefinementMessage({ role: 'assistant', content: summary || t('refinementDone'), imageRef });
+        } catch (error) {
+            console.error(error);
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            addRefinementMessage({ role: 'assistant', content: message, error: true });
+            toast.error(t('generationFailed'));
+        } finally {
+            setStage('idle');
+            endModelCall();
+        }
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+            e.preventDefault();
+            handleSend();
+        }
+    };
+
+    return (
+        <div className="bg-white rounded-xl border border-slate-200 p-6 shadow-sm">
+            <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-2">
+                    <MessageSquare className="w-4 h-4 text-slate-500" />
+                    <h3 className="font-semibold text-slate-900">{t('chatRefinement')}</h3>
+                </div>
+                {refinementMessages.length > 0 && (
+                    <button
+                        onClick={clearRefinementMessages}
+                        disabled={stage !== 'idle'}
+                        className="text-xs text-red-500 hover:text-red-700 disabled:opacity-40"
+                    >
+                        {t('clearChat')}
+                    </button>
+                )}
+            </div>
+
+            <div className="space-y-3 max-h-[360px] overflow-auto mb-4">
+                {refinementMessages.length === 0 ? (
+                    <p className="text-sm text-slate-400 text-center py-4">{t('chatEmpty')}</p>
+                ) : (
+                    refinementMessages.map((message) => (
+                        <div
+                            key={message.id}
+                            className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
+                        >
+                            <div
+                                className={`max-w-[80%] rounded-lg px-3 py-2 text-sm ${message.role === 'user'
+                                    ? 'bg-indigo-600 text-white'
+                                    : message.error
+                                        ? 'bg-red-50 text-red-700 border border-red-200'
+                                        : 'bg-slate-100 text-slate-700'}`}
+                            >
+                                <p className="whitespace-pre-wrap">{message.content}</p>
+                                {message.imageRef && (
+                                    <StoredImage
+                                        imageRef={message.imageRef}
+                                        alt="Refined diagram"
+                                        className="mt-2 w-48 h-28 object-cover rounded"
+                                    />
+                                )}
+                            </div>
+                        </div>
+                    ))
+                )}
+                {stage !== 'idle' && (
+                    <div className="flex items-center gap-2 text-sm text-slate-500">
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                        {stage === 'patching' ? t('refiningSchema') : t('rendering')}
+                    </div>
+                )}
+            </div>
+
+            <div className="flex items-end gap-2">
+                <Textarea
+                    value={input}
+                    onChange={(e) => setInput(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    placeholder={t('chatPlaceholder')}
+                    disabled={!generatedSchema.trim()}
+                    className="h-16 resize-none border-slate-200"
+                />
+                <Button
+                    onClick={handleSend}
+                    disabled={stage !== 'idle' || !input.trim() || !generatedSchema.trim()}
+                    className="h-10 bg-indigo-600 hover:bg-indigo-700 text-white"
+                >
+                    <Send className="w-4 h-4" />
+                </Button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,65 @@
+'use client';
+
+import { Coins } from 'lucide-react';
+import { toast } from 'sonner';
+import { useTranslation } from '@/lib/i18n';
+import { exceededBudgetLimits, formatCost, RequestBudget, RequestEstimate as Estimate } from '@/lib/cost';
+import { formatTokenCount } from '@/lib/tokens';
+
+interface RequestEstimateProps {
+    estimate: Estimate;
+    budget: RequestBudget;
+    /** Number of requests the estimate covers, e.g. render variants */
+    requests?: number;
+    /** The single request checked against the budget, when `estimate` covers several */
+    perRequest?: Estimate;
+    t: ReturnType<typeof useTranslation>;
+    className?: string;
+}
+
+function describeEstimate(estimate: Estimate, t: ReturnType<typeof useTranslation>): string {
+    return `~${formatTokenCount(estimate.inputTokens)} ${t('tokens')} · ${formatCost(estimate.cost)}`;
+}
+
+/**
+ * Pre-flight estimate shown next to the Generate / Render buttons. Turns
+ * amber (warn) or red (block) when a request goes over the budget.
+ */
+export function RequestEstimate({ estimate, budget, requests = 1, perRequest = estimate, t, className = '' }: RequestEstimateProps) {
+    const overBudget = exceededBudgetLimits(perRequest, budget).length > 0;
+    const color = !overBudget ? 'text-slate-500' : budget.mode === 'block' ? 'text-red-500' : 'text-amber-500';
+    const details = [
+        `${t('estimateInput')}: ~${estimate.inputTokens} ${t('tokens')}`,
+        estimate.imageTokens > 0 && `${t('estimateImages')}: ~${estimate.imageTokens} ${t('tokens')}`,
+        estimate.outputTokens > 0 && `${t('estimateOutput')}: ~${estimate.outputTokens} ${t('tokens')}`,
+        estimate.cost === null && t('estimateUnknownPrice'),
+        overBudget && t('overBudget'),
+    ].filter(Boolean).join('\n');
+
+    return (
+        <span className={`flex items-center gap-1 text-xs font-mono ${color} ${className}`} title={details}>
+            <Coins className="w-3.5 h-3.5" />
+            {describeEstimate(estimate, t)}
+            {requests > 1 && ` (${requests}×)`}
+        </span>
+    );
+}
+
+/**
+ * Check a request against the budget before sending it: over-budget
+ * requests are refused in block mode and need confirmation in warn mode.
+ */
+export function confirmWithinBudget(estimate: Estimate, budget: RequestBudget, t: ReturnType<typeof useTranslation>): boolean {
+    if (exceededBudgetLimits(estimate, budget).length === 0) return true;
+
+    const limits = [
+        budget.maxTokens > 0 && `${formatTokenCount(budget.maxTokens)} ${t('tokens')}`,
+        budget.maxCost > 0 && formatCost(budget.maxCost),
+    ].filter(Boolean).join(' / ');
+    const message = `${t('overBudget')}: ${describeEstimate(estimate, t)} > ${limits}`;
+    if (budget.mode === 'block') {
+        toast.error(message);
+        return false;
+    }
+    return confirm(`${message}\n${t('sendAnyway')}`);
+}
@@ -0,0 +1,188 @@
+'use client';
+
+import { RefObject, useDeferredValue, useEffect, useMemo, useState } from 'react';
+import dynamic from 'next/dynamic';
+import type { BeforeMount, EditorProps, Monaco, OnMount } from '@monaco-editor/react';
+import { lintSchema, LintRange } from '@/lib/schemaLint';
+import {
+    buildSchemaOutline,
+    registerSchemaLanguage,
+    SCHEMA_LANGUAGE_ID,
+    SCHEMA_THEME_ID,
+} from '@/lib/schemaLanguage';
+
+const MonacoEditor = dynamic(() => import('@monaco-editor/react'), {
+    ssr: false,
+    loading: () => (
+        <div className="h-full bg-slate-100 animate-pulse rounded-lg" />
+    ),
+});
+
+export type SchemaEditorInstance = Parameters<OnMount>[0];
+type SchemaModel = NonNullable<ReturnType<SchemaEditorInstance['getModel']>>;
+
+// The fields of Monaco's IMarkerData the quick-fix lookup relies on
+interface LintMarker {
+    code?: string | { value: string };
+    source?: string;
+    startLineNumber: number;
+    startColumn: number;
+}
+
+const LINT_OWNER = 'schema-lint';
+// Re-lint once typing pauses rather than on every keystroke
+const LINT_DELAY_MS = 300;
+
+let quickFixesRegistered = false;
+
+function toMonacoRange(range: LintRange) {
+    return {
+        startLineNumber: range.startLine,
+        startColumn: range.startColumn,
+        endLineNumber: range.endLine,
+        endColumn: range.endColumn,
+    };
+}
+
+/**
+ * Offer the linter's fixes as quick-fixes. The provider is global to the
+ * language, so it only acts on markers this editor set.
+ */
+function registerQuickFixes(monaco: Monaco) {
+    if (quickFixesRegistered) return;
+    quickFixesRegistered = true;
+
+    monaco.languages.registerCodeActionProvider(SCHEMA_LANGUAGE_ID, {
+        provideCodeActions(model: SchemaModel, _range: unknown, context: { markers: LintMarker[] }) {
+            const markers = context.markers.filter((m) => m.source === LINT_OWNER);
+            if (markers.length === 0) return { actions: [], dispose() {} };
+
+            const diagnostics = lintSchema(model.getValue());
+            const actions = markers.flatMap((marker) => {
+                const diagnostic = diagnostics.find((d) =>
+                    d.code === marker.code &&
+                    d.startLine === marker.startLineNumber &&
+                    d.startColumn === marker.startColumn
+                );
+                return (diagnostic?.fixes ?? []).map((fix, index) => ({
+                    title: fix.title,
+                    kind: 'quickfix',
+                    diagnostics: [marker],
+                    isPreferred: index === 0,
+                    edit: {
+                        edits: fix.edits.map((edit) => ({
+                            resource: model.uri,
+                            textEdit: { range: toMonacoRange(edit.range), text: edit.text },
+                            versionId: model.getVersionId(),
+                        })),
+                    },
+                }));
+            });
+            return { actions, dispose() {} };
+        },
+    });
+}
+
+interface SchemaEditorProps {
+    value: string;
+    onChange: (value: string) => void;
+    height?: string;
+    options?: EditorProps['options'];
+    editorRef?: RefObject<SchemaEditorInstance | null>;
+    showOutline?: boolean;
+}
+
+/**
+ * Monaco editor for the Visual Schema with syntax support, inline lint
+ * diagnostics and quick-fixes, and an optional outline of its sections.
+ */
+export function SchemaEditor({ value, onChange, height = '100%', options, editorRef, showOutline }: SchemaEditorProps) {
+    const [mounted, setMounted] = useState<{ editor: SchemaEditorInstance; monaco: Monaco } | null>(null);
+    const deferredValue = useDeferredValue(value);
+    const outline = useMemo(
+        () => (showOutline ? buildSchemaOutline(deferredValue) : []),
+        [showOutline, deferredValue]
+    );
+
+    const handleBeforeMount: BeforeMount = (monaco) => {
+        registerSchemaLanguage(monaco);
+    };
+
+    const handleMount: OnMount = (editor, monaco) => {
+        registerQuickFixes(monaco);
+        if (editorRef) editorRef.current = editor;
+        setMounted({ editor, monaco });
+    };
+
+    // Inactive tabs unmount their editor; don't leave a disposed instance behind
+    useEffect(() => () => {
+        if (editorRef) editorRef.current = null;
+    }, [editorRef]);
+
+    useEffect(() => {
+        if (!mounted) return;
+        const timer = setTimeout(() => {
+            const model = mounted.editor.getModel();
+            if (!model) return;
+            const { MarkerSeverity } = mounted.monaco;
+            mounted.monaco.editor.setModelMarkers(model, LINT_OWNER, lintSchema(value).map((d) => ({
+                ...toMonacoRange(d),
+                severity: d.severity === 'error' ? MarkerSeverity.Error : MarkerSeverity.Warning,
+                message: d.message,
+                code: d.code,
+                source: LINT_OWNER,
+            })));
+        }, LINT_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [mounted, value]);
+
+    const revealLine = (line: number) => {
+        const editor = mounted?.editor;
+        if (!editor) return;
+        editor.revealLineInCenter(line);
+        editor.setPosition({ lineNumber: line, column: 1 });
+        editor.focus();
+    };
+
+    const editor = (
+        <MonacoEditor
+            height={height}
+            defaultLanguage={SCHEMA_LANGUAGE_ID}
+            value={value}
+            onChange={(v) => onChange(v || '')}
+            beforeMount={handleBeforeMount}
+            onMount={handleMount}
+            theme={SCHEMA_THEME_ID}
+            options={options}
+        />
+    );
+    if (!showOutline) return editor;
+
+    return (
+        <div className="flex h-full">
+            <nav className="w-48 flex-shrink-0 overflow-auto border-r border-slate-200 bg-slate-50 py-2 text-xs">
+                {outline.map((section) => (
+                    <div key={section.line} className="mb-1">
+                        <button
+                            onClick={() => revealLine(section.line)}
+                            className="block w-full truncate px-3 py-0.5 text-left font-semibold text-indigo-600 hover:bg-slate-100"
+                        >
+                            [{section.label}]
+                        </button>
+                        {section.items.map((item) => (
+                            <button
+                                key={item.line}
+                                onClick={() => revealLine(item.line)}
+                                title={item.label}
+                                className="block w-full truncate py-0.5 pl-6 pr-3 text-left text-slate-600 hover:bg-slate-100"
+                            >
+                                {item.label}
+                            </button>
+                        ))}
+                    </div>
+                ))}
+            </nav>
+            <div className="flex-1 min-w-0">{editor}</div>
+        </div>
+    );
+}
@@ -0,0 +1,164 @@
+'use client';
+
+import { useState } from 'react';
+import { Bot, RotateCcw, User } from 'lucide-react';
+import dynamic from 'next/dynamic';
+import { toast } from 'sonner';
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { useWorkflowStore, SchemaRevision } from '@/store/workflowStore';
+import { useTranslation } from '@/lib/i18n';
+
+// Dynamic import for Monaco Diff Editor (SSR disabled)
+const MonacoDiffEditor = dynamic(
+    () => import('@monaco-editor/react').then((mod) => mod.DiffEditor),
+    {
+        ssr: false,
+        loading: () => <div className="h-full bg-slate-100 animate-pulse rounded-lg" />,
+    }
+);
+
+// Pseudo-revision id for the unsaved editor buffer
+const CURRENT = 'current';
+
+interface SchemaHistoryDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+export function SchemaHistoryDialog({ open, onOpenChange }: SchemaHistoryDialogProps) {
+    const { language, generatedSchema, schemaRevisions, restoreSchemaRevision } = useWorkflowStore();
+    const t = useTranslation(language);
+
+    const latest = schemaRevisions[schemaRevisions.length - 1];
+    const [originalId, setOriginalId] = useState<string | null>(null);
+    const [modifiedId, setModifiedId] = useState<string>(CURRENT);
+
+    // Default comparison: latest revision against the editor buffer
+    const effectiveOriginalId = originalId ?? latest?.id ?? CURRENT;
+
+    const schemaFor = (id: string) =>
+        id === CURRENT ? generatedSchema : schemaRevisions.find((r) => r.id === id)?.schema ?? '';
+
+    const labelFor = (revision: SchemaRevision, index: number) =>
+        `#${index + 1} · ${revision.author === 'model' ? t('revisionByModel') : t('revisionByUser')} · ${new Date(revision.timestamp).toLocaleString()}`;
+
+    const handleRestore = (id: string) => {
+        restoreSchemaRevision(id);
+        setModifiedId(CURRENT);
+        toast.success(t('revisionRestored'));
+    };
+
+    const revisionOptions = (
+        <>
+            <option value={CURRENT}>{t('currentSchema')}</option>
+            {schemaRevisions.map((revision, index) => (
+                <option key={revision.id} value={revision.id}>
+                    {labelFor(revision, index)}
+                </option>
+            ))}
+        </>
+    );
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[1100px] bg-white border-slate-200">
+                <DialogHeader>
+                    <DialogTitle className="text-xl font-semibold text-slate-900">
+                        {t('schemaHistory')}
+                    </DialogTitle>
+                </DialogHeader>
+
+                <div className="grid md:grid-cols-4 gap-4 mt-2">
+                    {/* Revision list */}
+                    <div className="md:col-span-1 max-h-[520px] overflow-auto space-y-2">
+                        {schemaRevisions.length === 0 ? (
+                            <p className="text-sm text-slate-400 text-center py-4">{t('noRevisions')}</p>
+                        ) : (
+                            [...schemaRevisions].reverse().map((revision) => {
+                                const index = schemaRevisions.indexOf(revision);
+                                return (
+                                    <div
+                                        key={revision.id}
+                                        onClick={() => setOriginalId(revision.id)}
+                                        className={`p-2 rounded-lg border cursor-pointer transition-colors text-xs ${revision.id === effectiveOriginalId
+                                            ? 'border-indigo-300 bg-indigo-50/50'
+                                            : 'border-slate-200 hover:border-indigo-200'}`}
+                                    >
+                                        <div className="flex items-center gap-1.5 text-slate-700 font-medium">
+                                            {revision.author === 'model'
+                                                ? <Bot className="w-3.5 h-3.5 text-amber-500" />
+                                                : <User className="w-3.5 h-3.5 text-indigo-500" />}
+                                            #{index + 1} {revision.author === 'model' ? t('revisionByModel') : t('revisionByUser')}
+                                        </div>
+                                        <p className="text-slate-400 mt-0.5">{new Date(revision.timestamp).toLocaleString()}</p>
+                                        {revision.restoredFrom && (
+                                            <p className="text-slate-400">
+                                                {t('restoredFrom')} #{schemaRevisions.findIndex((r) => r.id === revision.restoredFrom) + 1 || '?'}
+                                            </p>
+                                        )}
+                                        <button
+                                            onClick={(e) => { e.stopPropagation(); handleRestore(revision.id); }}
+                                            disabled={revision.schema === generatedSchema}
+                                            className="mt-1 flex items-center gap-1 text-indigo-600 hover:text-indigo-800 disabled:text-slate-300"
+                                        >
+                                            <RotateCcw className="w-3 h-3" />
+                                            {t('restoreVersion')}
+                                        </button>
+                                    </div>
+                                );
+                            })
+                        )}
+                    </div>
+
+                    {/* Diff */}
+                    <div className="md:col-span-3 space-y-2">
+                        <div className="grid grid-cols-2 gap-2">
+                            <select
+                                value={effectiveOriginalId}
+                                onChange={(e) => setOriginalId(e.target.value)}
+                                className="h-9 rounded-md border border-slate-200 bg-transparent px-2 text-xs"
+                            >
+                                {revisionOptions}
+                            </select>
+                            <select
+                                value={modifiedId}
+                                onChange={(e) => setModifiedId(e.target.value)}
+                                className="h-9 rounded-md border border-slate-200 bg-transparent px-2 text-xs"
+                            >
+                                {revisionOptions}
+                            </select>
+                        </div>
+                        <div className="h-[470px] rounded-lg overflow-hidden border border-slate-200">
+                            <MonacoDiffEditor
+                                height="100%"
+                                language="markdown"
+                                original={schemaFor(effectiveOriginalId)}
+                                modified={schemaFor(modifiedId)}
+                                theme="vs-light"
+                                options={{
+                                    readOnly: true,
+                                    renderSideBySide: true,
+                                    minimap: { enabled: false },
+                                    fontSize: 12,
+                                    wordWrap: 'on',
+                                }}
+                            />
+                        </div>
+                    </div>
+                </div>
+
+                <div className="flex justify-end mt-2">
+                    <Button variant="outline" onClick={() => onOpenChange(false)} className="border-slate-200">
+                        {t('close')}
+                    </Button>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
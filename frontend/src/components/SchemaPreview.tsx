@@ -0,0 +1,56 @@
+'use client';
+
+import { useDeferredValue, useMemo } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { useTranslation } from '@/lib/i18n';
+import { parseSchema } from '@/lib/schema';
+import { layoutSchema, layoutToSvg } from '@/lib/vector';
+
+interface SchemaPreviewProps {
+    schema: string;
+    className?: string;
+    t: ReturnType<typeof useTranslation>;
+}
+
+/**
+ * Local wireframe of the Visual Schema, redrawn as the text changes.
+ * Uses the same layout as the vector export, so no API call is made.
+ */
+export function SchemaPreview({ schema, className, t }: SchemaPreviewProps) {
+    // Let typing in the editor stay responsive on large schemas
+    const deferredSchema = useDeferredValue(schema);
+    const { layout, svg } = useMemo(() => {
+        const layout = layoutSchema(parseSchema(deferredSchema));
+        return { layout, svg: layoutToSvg(layout) };
+    }, [deferredSchema]);
+
+    const zoneCount = layout.boxes.filter((b) => b.kind === 'zone').length;
+    const elementCount = layout.boxes.length - zoneCount;
+
+    return (
+        <div className={`flex flex-col ${className ?? ''}`}>
+            <div className="flex-1 min-h-0 overflow-auto rounded-lg border border-slate-200 bg-white">
+                {layout.boxes.length === 0 ? (
+                    <p className="text-sm text-slate-400 text-center py-8">{t('previewEmpty')}</p>
+                ) : (
+                    // The SVG is built by layoutToSvg, which escapes all schema text
+                    <div
+                        className="[&>svg]:max-w-full [&>svg]:h-auto"
+                        dangerouslySetInnerHTML={{ __html: svg }}
+                    />
+                )}
+            </div>
+            <div className="mt-2 text-xs text-slate-500 space-y-1">
+                <p>
+                    {zoneCount} {t('previewZones')} · {elementCount} {t('previewElements')} · {layout.edges.length} {t('previewConnections')}
+                </p>
+                {layout.unresolvedConnections.length > 0 && (
+                    <p className="flex items-start gap-1 text-amber-600">
+                        <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+                        <span>{t('previewUnresolved')}: {layout.unresolvedConnections.map((c) => `${c.from} → ${c.to}`).join('; ')}</span>
+                    </p>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,79 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, ListChecks } from 'lucide-react';
+import { useTranslation } from '@/lib/i18n';
+import { PaperSection } from '@/lib/paperSections';
+import { formatTokenCount } from '@/lib/tokens';
+
+interface SectionPickerProps {
+    sections: PaperSection[];
+    selected: boolean[];
+    onToggle: (index: number) => void;
+    onSetAll: (selected: boolean) => void;
+    t: ReturnType<typeof useTranslation>;
+}
+
+/**
+ * Checklist of the sections detected in the paper, with a token estimate
+ * for each. Only checked sections are sent to the logic model.
+ */
+export function SectionPicker({ sections, selected, onToggle, onSetAll, t }: SectionPickerProps) {
+    const [open, setOpen] = useState(true);
+    const selectedCount = selected.filter(Boolean).length;
+    const selectedTokens = sections.reduce((sum, s, i) => sum + (selected[i] ? s.tokens : 0), 0);
+    const totalTokens = sections.reduce((sum, s) => sum + s.tokens, 0);
+
+    return (
+        <div className="rounded-xl border border-white/10 bg-white/5">
+            <div className="flex items-center justify-between px-4 py-3">
+                <button
+                    type="button"
+                    onClick={() => setOpen((v) => !v)}
+                    className="flex items-center gap-2 text-sm font-medium text-slate-300"
+                >
+                    <ListChecks className="w-4 h-4 text-slate-400" />
+                    {t('paperSections')}
+                    <span className="text-xs font-mono text-slate-500">
+                        {selectedCount}/{sections.length} · ~{formatTokenCount(selectedTokens)} / {formatTokenCount(totalTokens)} {t('tokens')}
+                    </span>
+                    <ChevronDown className={`w-4 h-4 text-slate-500 transition-transform ${open ? '' : '-rotate-90'}`} />
+                </button>
+                <div className="flex items-center gap-2 text-xs">
+                    <button type="button" onClick={() => onSetAll(true)} className="text-slate-400 hover:text-white">
+                        {t('selectAll')}
+                    </button>
+                    <button type="button" onClick={() => onSetAll(false)} className="text-slate-400 hover:text-white">
+                        {t('selectNone')}
+                    </button>
+                </div>
+            </div>
+
+            {open && (
+                <ul className="max-h-64 overflow-auto border-t border-white/10 py-2">
+                    {sections.map((section, index) => (
+                        <li key={section.key}>
+                            <label
+                                className="flex items-center gap-2 px-4 py-1 text-xs text-slate-300 hover:bg-white/5 cursor-pointer"
+                                style={{ paddingLeft: `${1 + (section.level - 1) * 1.25}rem` }}
+                            >
+                                <input
+                                    type="checkbox"
+                                    checked={selected[index]}
+                                    onChange={() => onToggle(index)}
+                                    className="accent-amber-500"
+                                />
+                                <span className={`flex-1 truncate ${section.title ? '' : 'italic text-slate-500'}`}>
+                                    {section.title || t('sectionPreamble')}
+                                </span>
+                                <span className="font-mono text-slate-500">~{formatTokenCount(section.tokens)}</span>
+                            </label>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <p className="px-4 pb-3 text-[11px] text-slate-500">{t('paperSectionsHint')}</p>
+        </div>
+    );
+}
@@ -1,7 +1,7 @@
 'use client';
 
-import { useState } from 'react';
-import { Eye, EyeOff } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { ArrowUp, Eye, EyeOff, Plus, Trash2 } from 'lucide-react';
 import {
     Dialog,
     DialogContent,
@@ -12,9 +12,23 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
-import { useWorkflowStore, ModelConfig } from '@/store/workflowStore';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { useWorkflowStore, ModelConfig, ModelStage } from '@/store/workflowStore';
 import { useTranslation } from '@/lib/i18n';
+import {
+    AuthScheme,
+    CredentialProfileSummary,
+    fetchCredentialProfiles,
+    getProviderAdapter,
+    listProviderAdapters,
+    ProviderId,
+} from '@/lib/providers';
+import { RequestBudget } from '@/lib/cost';
+import { RetryPolicy } from '@/lib/retry';
 import { motion, AnimatePresence } from 'framer-motion';
+import { PromptLibrary } from '@/components/PromptLibrary';
+import { UsageDashboard } from '@/components/UsageDashboard';
 
 interface SettingsModalProps {
     open: boolean;
@@ -22,17 +36,53 @@ interface SettingsModalProps {
 }
 
 export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
-    const { language, logicConfig, visionConfig, setLogicConfig, setVisionConfig } = useWorkflowStore();
+    const {
+        language,
+        logicConfig,
+        visionConfig,
+        setLogicConfig,
+        setVisionConfig,
+        requestBudget,
+        setRequestBudget,
+        retryPolicy,
+        setRetryPolicy,
+        fallbackConfigs,
+        setFallbackConfigs,
+    } = useWorkflowStore();
     const t = useTranslation(language);
 
     const [localLogicConfig, setLocalLogicConfig] = useState<ModelConfig>(logicConfig);
     const [localVisionConfig, setLocalVisionConfig] = useState<ModelConfig>(visionConfig);
     const [showLogicKey, setShowLogicKey] = useState(false);
     const [showVisionKey, setShowVisionKey] = useState(false);
+    const [localBudget, setLocalBudget] = useState<RequestBudget>(requestBudget);
+    const [localRetryPolicy, setLocalRetryPolicy] = useState<RetryPolicy>(retryPolicy);
+    const [localFallbacks, setLocalFallbacks] = useState<Record<ModelStage, ModelConfig[]>>(fallbackConfigs);
+    const [profiles, setProfiles] = useState<CredentialProfileSummary[]>([]);
+
+    useEffect(() => {
+        if (!open) return;
+        let cancelled = false;
+        fetchCredentialProfiles()
+            .catch((error) => {
+                console.error(error);
+                return [];
+            })
+            .then((loaded) => {
+                if (!cancelled) setProfiles(loaded);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [open]);
 
     const handleSave = () => {
         setLogicConfig(localLogicConfig);
         setVisionConfig(localVisionConfig);
+        setRequestBudget(localBudget);
+        setRetryPolicy(localRetryPolicy);
+        setFallbackConfigs('logic', localFallbacks.logic);
+        setFallbackConfigs('vision', localFallbacks.vision);
         onOpenChange(false);
     };
 
@@ -40,7 +90,7 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
         <AnimatePresence>
             {open && (
                 <Dialog open={open} onOpenChange={onOpenChange}>
-                    <DialogContent className="sm:max-w-[600px] bg-white border-slate-200">
+                    <DialogContent className="sm:max-w-[720px] bg-white border-slate-200">
                         <motion.div
                             initial={{ scale: 0.95, opacity: 0 }}
                             animate={{ scale: 1, opacity: 1 }}
@@ -54,7 +104,7 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
                             </DialogHeader>
 
                             <Tabs defaultValue="logic" className="mt-6">
-                                <TabsList className="grid w-full grid-cols-2 bg-slate-100">
+                                <TabsList className="grid w-full grid-cols-5 bg-slate-100">
                                     <TabsTrigger
                                         value="logic"
                                         className="data-[state=active]:bg-white data-[state=active]:text-indigo-600"
@@ -67,26 +117,77 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
                                     >
                                         {t('visionModel')}
                                     </TabsTrigger>
+                                    <TabsTrigger
+                                        value="prompts"
+                                        className="data-[state=active]:bg-white data-[state=active]:text-indigo-600"
+                                    >
+                                        {t('prompts')}
+                                    </TabsTrigger>
+                                    <TabsTrigger
+                                        value="requests"
+                                        className="data-[state=active]:bg-white data-[state=active]:text-indigo-600"
+                                    >
+                                        {t('requestSettings')}
+                                    </TabsTrigger>
+                                    <TabsTrigger
+                                        value="usage"
+                                        className="data-[state=active]:bg-white data-[state=active]:text-indigo-600"
+                                    >
+                                        {t('usage')}
+                                    </TabsTrigger>
                                 </TabsList>
 
                                 <TabsContent value="logic" className="space-y-4 mt-4">
                                     <ConfigForm
+                                        stage="logic"
                                         config={localLogicConfig}
                                         onChange={setLocalLogicConfig}
+                                        profiles={profiles}
                                         showKey={showLogicKey}
                                         onToggleKey={() => setShowLogicKey(!showLogicKey)}
                                         t={t}
                                     />
+                                    <FallbackList
+                                        stage="logic"
+                                        primary={localLogicConfig}
+                                        configs={localFallbacks.logic}
+                                        profiles={profiles}
+                                        onChange={(logic) => setLocalFallbacks((prev) => ({ ...prev, logic }))}
+                                        t={t}
+                                    />
                                 </TabsContent>
 
                                 <TabsContent value="vision" className="space-y-4 mt-4">
                                     <ConfigForm
+                                        stage="vision"
                                         config={localVisionConfig}
                                         onChange={setLocalVisionConfig}
+                                        profiles={profiles}
                                         showKey={showVisionKey}
                                         onToggleKey={() => setShowVisionKey(!showVisionKey)}
                                         t={t}
                                     />
+                                    <FallbackList
+                                        stage="vision"
+                                        primary={localVisionConfig}
+                                        configs={localFallbacks.vision}
+                                        profiles={profiles}
+                                        onChange={(vision) => setLocalFallbacks((prev) => ({ ...prev, vision }))}
+                                        t={t}
+                                    />
+                                </TabsContent>
+
+                                <TabsContent value="prompts" className="mt-4">
+                                    <PromptLibrary t={t} />
+                                </TabsContent>
+
+                                <TabsContent value="requests" className="mt-4 space-y-6">
+                                    <BudgetForm budget={localBudget} onChange={setLocalBudget} t={t} />
+                                    <RetryForm policy={localRetryPolicy} onChange={setLocalRetryPolicy} t={t} />
+                                </TabsContent>
+
+                                <TabsContent value="usage" className="mt-4">
+                                    <UsageDashboard t={t} />
                                 </TabsContent>
                             </Tabs>
 
@@ -114,64 +215,521 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
 }
 
 interface ConfigFormProps {
+    stage: ModelStage;
+    /** Prefix for input ids, so several forms can be on screen at once */
+    idPrefix?: string;
     config: ModelConfig;
     onChange: (config: ModelConfig) => void;
+    /** Server-side credential profiles to pick from instead of typing a key */
+    profiles: CredentialProfileSummary[];
     showKey: boolean;
     onToggleKey: () => void;
     t: ReturnType<typeof useTranslation>;
 }
 
-function ConfigForm({ config, onChange, showKey, onToggleKey, t }: ConfigFormProps) {
+function ConfigForm({ stage, idPrefix = stage, config, onChange, profiles, showKey, onToggleKey, t }: ConfigFormProps) {
+    const stageProviders = listProviderAdapters(stage).map((adapter) => adapter.id);
+    const stageProfiles = profiles.filter((profile) => stageProviders.includes(profile.provider));
+    const profile = profiles.find((p) => p.id === config.credentialProfile);
+
+    const handleProviderChange = (provider: ProviderId) => {
+        // Swap in the new provider's default URL unless the user typed a custom one
+        const previousDefault = getProviderAdapter(config.provider).defaultBaseUrl;
+        const baseUrl = !config.baseUrl || config.baseUrl === previousDefault
+            ? getProviderAdapter(provider).defaultBaseUrl
+            : config.baseUrl;
+        onChange({ ...config, provider, baseUrl });
+    };
+
+    // A profile fixes provider and base URL; its key never reaches the browser
+    const handleProfileChange = (id: string) => {
+        const selected = profiles.find((p) => p.id === id);
+        if (!selected) {
+            onChange({ ...config, credentialProfile: undefined });
+            return;
+        }
+        const keepModel = selected.models.length === 0 || selected.models.includes(config.modelName);
+        onChange({
+            ...config,
+            credentialProfile: selected.id,
+            provider: selected.provider,
+            baseUrl: selected.baseUrl,
+            apiKey: '',
+            modelName: keepModel ? config.modelName : selected.models[0],
+        });
+    };
+
     return (
         <div className="space-y-4">
+            {(stageProfiles.length > 0 || config.credentialProfile) && (
+                <div className="space-y-2">
+                    <Label htmlFor={`${idPrefix}-credentials`} className="text-slate-700">
+                        {t('credentials')}
+                    </Label>
+                    <select
+                        id={`${idPrefix}-credentials`}
+                        value={config.credentialProfile ?? ''}
+                        onChange={(e) => handleProfileChange(e.target.value)}
+                        className="h-10 w-full rounded-md border border-slate-200 bg-transparent px-3 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+                    >
+                        <option value="">{t('ownApiKey')}</option>
+                        {stageProfiles.map((p) => (
+                            <option key={p.id} value={p.id}>
+                                {p.name} ({getProviderAdapter(p.provider).label})
+                            </option>
+                        ))}
+                        {config.credentialProfile && !profile && (
+                            <option value={config.credentialProfile}>
+                                {config.credentialProfile} ({t('profileUnavailable')})
+                            </option>
+                        )}
+                    </select>
+                    {config.credentialProfile && <p className="text-xs text-slate-500">{t('serverKeyHint')}</p>}
+                </div>
+            )}
+
             <div className="space-y-2">
-                <Label htmlFor="baseUrl" className="text-slate-700">
+                <Label htmlFor={`${idPrefix}-provider`} className="text-slate-700">
+                    {t('provider')}
+                </Label>
+                <select
+                    id={`${idPrefix}-provider`}
+                    value={config.provider}
+                    onChange={(e) => handleProviderChange(e.target.value as ProviderId)}
+                    disabled={!!config.credentialProfile}
+                    className="h-10 w-full rounded-md border border-slate-200 bg-transparent px-3 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+                >
+                    {listProviderAdapters(stage).map((adapter) => (
+                        <option key={adapter.id} value={adapter.id}>
+                            {adapter.label}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            <div className="space-y-2">
+                <Label htmlFor={`${idPrefix}-baseUrl`} className="text-slate-700">
                     {t('baseUrl')}
                 </Label>
                 <Input
-                    id="baseUrl"
+                    id={`${idPrefix}-baseUrl`}
                     value={config.baseUrl}
                     onChange={(e) => onChange({ ...config, baseUrl: e.target.value })}
+                    disabled={!!config.credentialProfile}
                     placeholder="https://api.openai.com/v1"
                     className="h-10 border-slate-200 focus:ring-2 focus:ring-indigo-500/20"
                 />
             </div>
 
-            <div className="space-y-2">
-                <Label htmlFor="apiKey" className="text-slate-700">
-                    {t('apiKey')}
-                </Label>
-                <div className="relative">
-                    <Input
-                        id="apiKey"
-                        type={showKey ? 'text' : 'password'}
-                        value={config.apiKey}
-                        onChange={(e) => onChange({ ...config, apiKey: e.target.value })}
-                        placeholder="sk-xxxx..."
-                        className="h-10 pr-10 border-slate-200 focus:ring-2 focus:ring-indigo-500/20"
-                    />
-                    <button
-                        type="button"
-                        onClick={onToggleKey}
-                        className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-600"
-                    >
-                        {showKey ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
-                    </button>
+            {!config.credentialProfile && (
+                <div className="space-y-2">
+                    <Label htmlFor={`${idPrefix}-apiKey`} className="text-slate-700">
+                        {t('apiKey')}
+                    </Label>
+                    <div className="relative">
+                        <Input
+                            id={`${idPrefix}-apiKey`}
+                            type={showKey ? 'text' : 'password'}
+                            value={config.apiKey}
+                            onChange={(e) => onChange({ ...config, apiKey: e.target.value })}
+                            placeholder="sk-xxxx..."
+                            className="h-10 pr-10 border-slate-200 focus:ring-2 focus:ring-indigo-500/20"
+                        />
+                        <button
+                            type="button"
+                            onClick={onToggleKey}
+                            className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-600"
+                        >
+                            {showKey ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                        </button>
+                    </div>
                 </div>
-            </div>
+            )}
 
             <div className="space-y-2">
-                <Label htmlFor="modelName" className="text-slate-700">
+                <Label htmlFor={`${idPrefix}-modelName`} className="text-slate-700">
                     {t('modelName')}
                 </Label>
                 <Input
-                    id="modelName"
+                    id={`${idPrefix}-modelName`}
                     value={config.modelName}
                     onChange={(e) => onChange({ ...config, modelName: e.target.value })}
                     placeholder="gpt-4, deepseek-chat, gemini-pro..."
+                    list={profile?.models.length ? `${idPrefix}-models` : undefined}
+                    className="h-10 border-slate-200 focus:ring-2 focus:ring-indigo-500/20"
+                />
+                {profile && profile.models.length > 0 && (
+                    <datalist id={`${idPrefix}-models`}>
+                        {profile.models.map((model) => <option key={model} value={model} />)}
+                    </datalist>
+                )}
+            </div>
+
+            {/* Google goes through its SDK in the browser, not the proxy */}
+            {config.provider !== 'google' && (
+                <ConnectionOptions idPrefix={idPrefix} config={config} onChange={onChange} t={t} />
+            )}
+        </div>
+    );
+}
+
+// "Name: value" lines for headers, "name=value" lines for query parameters
+function parsePairs(text: string, separator: ':' | '='): Record<string, string> | undefined {
+    const pairs: Record<string, string> = {};
+    for (const line of text.split('\n')) {
+        const index = line.indexOf(separator);
+        const name = (index < 0 ? line : line.slice(0, index)).trim();
+        if (name) pairs[name] = index < 0 ? '' : line.slice(index + 1).trim();
+    }
+    return Object.keys(pairs).length > 0 ? pairs : undefined;
+}
+
+function formatPairs(pairs: Record<string, string> | undefined, separator: ':' | '='): string {
+    return Object.entries(pairs ?? {})
+        .map(([name, value]) => `${name}${separator === ':' ? ': ' : '='}${value}`)
+        .join('\n');
+}
+
+interface PairsFieldProps {
+    id: string;
+    label: string;
+    hint: string;
+    separator: ':' | '=';
+    value: Record<string, string> | undefined;
+    onChange: (value: Record<string, string> | undefined) => void;
+}
+
+// Keeps the text as typed; only a change from outside (e.g. a removed fallback) resets it
+function PairsField({ id, label, hint, separator, value, onChange }: PairsFieldProps) {
+    const [text, setText] = useState(() => formatPairs(value, separator));
+    const [synced, setSynced] = useState(value);
+    if (value !== synced) {
+        setSynced(value);
+        setText(formatPairs(value, separator));
+    }
+
+    const handleChange = (next: string) => {
+        const parsed = parsePairs(next, separator);
+        setText(next);
+        setSynced(parsed);
+        onChange(parsed);
+    };
+
+    return (
+        <div className="space-y-2">
+            <Label htmlFor={id} className="text-slate-700">{label}</Label>
+            <Textarea
+                id={id}
+                rows={2}
+                value={text}
+                onChange={(e) => handleChange(e.target.value)}
+                className="font-mono text-xs border-slate-200 focus:ring-2 focus:ring-indigo-500/20"
+            />
+            <p className="text-xs text-slate-500">{hint}</p>
+        </div>
+    );
+}
+
+interface ConnectionOptionsProps {
+    idPrefix: string;
+    config: ModelConfig;
+    onChange: (config: ModelConfig) => void;
+    t: ReturnType<typeof useTranslation>;
+}
+
+// Auth header, extra headers, query parameters and the "use URL as-is" switch, for Azure and gateways
+function ConnectionOptions({ idPrefix, config, onChange, t }: ConnectionOptionsProps) {
+    const customized = !!(config.authScheme || config.headers || config.queryParams || config.useUrlAsIs);
+    const schemes: { value: AuthScheme | ''; label: string }[] = [
+        { value: '', label: t('authDefault') },
+        { value: 'bearer', label: 'Authorization: Bearer' },
+        { value: 'api-key', label: 'api-key (Azure)' },
+        { value: 'x-api-key', label: 'x-api-key' },
+        { value: 'none', label: t('authNone') },
+    ];
+
+    return (
+        <details className="rounded-md border border-slate-200 px-3 py-2">
+            <summary className="cursor-pointer text-sm text-slate-700">
+                {t('connectionOptions')}
+                {customized && <span className="ml-2 text-xs text-indigo-600">{t('customized')}</span>}
+            </summary>
+            <div className="space-y-4 mt-3">
+                <div className="space-y-2">
+                    <Label htmlFor={`${idPrefix}-authScheme`} className="text-slate-700">
+                        {t('authScheme')}
+                    </Label>
+                    <select
+                        id={`${idPrefix}-authScheme`}
+                        value={config.authScheme ?? ''}
+                        onChange={(e) => onChange({ ...config, authScheme: (e.target.value || undefined) as AuthScheme | undefined })}
+                        className="h-10 w-full rounded-md border border-slate-200 bg-transparent px-3 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+                    >
+                        {schemes.map(({ value, label }) => (
+                            <option key={value} value={value}>{label}</option>
+                        ))}
+                    </select>
+                </div>
+
+                <PairsField
+                    id={`${idPrefix}-headers`}
+                    label={t('extraHeaders')}
+                    hint={t('extraHeadersHint')}
+                    separator=":"
+                    value={config.headers}
+                    onChange={(headers) => onChange({ ...config, headers })}
+                />
+
+                <PairsField
+                    id={`${idPrefix}-queryParams`}
+                    label={t('queryParams')}
+                    hint={t('queryParamsHint')}
+                    separator="="
+                    value={config.queryParams}
+                    onChange={(queryParams) => onChange({ ...config, queryParams })}
+                />
+
+                <div className="flex items-start justify-between gap-3">
+                    <div>
+                        <Label htmlFor={`${idPrefix}-useUrlAsIs`} className="text-slate-700">
+                            {t('useUrlAsIs')}
+                        </Label>
+                        <p className="text-xs text-slate-500 mt-1">{t('useUrlAsIsHint')}</p>
+                    </div>
+                    <Switch
+                        id={`${idPrefix}-useUrlAsIs`}
+                        checked={!!config.useUrlAsIs}
+                        onCheckedChange={(checked) => onChange({ ...config, useUrlAsIs: checked || undefined })}
+                    />
+                </div>
+            </div>
+        </details>
+    );
+}
+
+interface FallbackListProps {
+    stage: ModelStage;
+    primary: ModelConfig;
+    configs: ModelConfig[];
+    onChange: (configs: ModelConfig[]) => void;
+    profiles: CredentialProfileSummary[];
+    t: ReturnType<typeof useTranslation>;
+}
+
+// Ordered fallback configs for a stage; new entries start as a copy of the primary
+function FallbackList({ stage, primary, configs, onChange, profiles, t }: FallbackListProps) {
+    const [shownKeys, setShownKeys] = useState<number[]>([]);
+
+    const update = (index: number, config: ModelConfig) => onChange(configs.map((c, i) => (i === index ? config : c)));
+    const remove = (index: number) => {
+        onChange(configs.filter((_, i) => i !== index));
+        setShownKeys([]);
+    };
+    const moveUp = (index: number) => {
+        const next = [...configs];
+        [next[index - 1], next[index]] = [next[index], next[index - 1]];
+        onChange(next);
+    };
+
+    return (
+        <div className="space-y-3 border-t border-slate-200 pt-4">
+            <div className="flex items-start justify-between gap-3">
+                <div>
+                    <Label className="text-slate-700">{t('fallbackModels')}</Label>
+                    <p className="text-xs text-slate-500 mt-1">{t('fallbackHint')}</p>
+                </div>
+                <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onChange([...configs, { ...primary }])}
+                    className="border-slate-200 shrink-0"
+                >
+                    <Plus className="w-4 h-4 mr-1" />
+                    {t('addFallback')}
+                </Button>
+            </div>
+
+            {configs.map((config, index) => (
+                <div key={index} className="rounded-md border border-slate-200 p-3 space-y-2">
+                    <div className="flex items-center justify-between">
+                        <span className="text-xs font-medium text-slate-500">
+                            {t('fallback')} {index + 1}
+                        </span>
+                        <div className="flex gap-1">
+                            <button
+                                type="button"
+                                onClick={() => moveUp(index)}
+                                disabled={index === 0}
+                                title={t('moveUp')}
+                                className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30"
+                            >
+                                <ArrowUp className="w-4 h-4" />
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => remove(index)}
+                                title={t('removeFallback')}
+                                className="p-1 text-slate-400 hover:text-red-600"
+                            >
+                                <Trash2 className="w-4 h-4" />
+                            </button>
+                        </div>
+                    </div>
+                    <ConfigForm
+                        stage={stage}
+                        idPrefix={`${stage}-fallback-${index}`}
+                        config={config}
+                        onChange={(c) => update(index, c)}
+                        profiles={profiles}
+                        showKey={shownKeys.includes(index)}
+                        onToggleKey={() => setShownKeys((prev) =>
+                            prev.includes(index) ? prev.filter((i) => i !== index) : [...prev, index])}
+                        t={t}
+                    />
+                </div>
+            ))}
+        </div>
+    );
+}
+
+interface BudgetFormProps {
+    budget: RequestBudget;
+    onChange: (budget: RequestBudget) => void;
+    t: ReturnType<typeof useTranslation>;
+}
+
+function BudgetForm({ budget, onChange, t }: BudgetFormProps) {
+    const toLimit = (value: string) => Math.max(0, Number(value) || 0);
+
+    return (
+        <div className="space-y-4">
+            <p className="text-sm text-slate-500">{t('budgetHint')}</p>
+
+            <div className="space-y-2">
+                <Label htmlFor="budget-max-tokens" className="text-slate-700">
+                    {t('maxTokensPerRequest')}
+                </Label>
+                <Input
+                    id="budget-max-tokens"
+                    type="number"
+                    min={0}
+                    step={1000}
+                    value={budget.maxTokens}
+                    onChange={(e) => onChange({ ...budget, maxTokens: Math.round(toLimit(e.target.value)) })}
+                    className="h-10 border-slate-200 focus:ring-2 focus:ring-indigo-500/20"
+                />
+            </div>
+
+            <div className="space-y-2">
+                <Label htmlFor="budget-max-cost" className="text-slate-700">
+                    {t('maxCostPerRequest')}
+                </Label>
+                <Input
+                    id="budget-max-cost"
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={budget.maxCost}
+                    onChange={(e) => onChange({ ...budget, maxCost: toLimit(e.target.value) })}
                     className="h-10 border-slate-200 focus:ring-2 focus:ring-indigo-500/20"
                 />
             </div>
+
+            <div className="space-y-2">
+                <Label htmlFor="budget-mode" className="text-slate-700">
+                    {t('budgetMode')}
+                </Label>
+                <select
+                    id="budget-mode"
+                    value={budget.mode}
+                    onChange={(e) => onChange({ ...budget, mode: e.target.value as RequestBudget['mode'] })}
+                    className="h-10 w-full rounded-md border border-slate-200 bg-transparent px-3 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+                >
+                    <option value="warn">{t('budgetWarn')}</option>
+                    <option value="block">{t('budgetBlock')}</option>
+                </select>
+            </div>
+        </div>
+    );
+}
+
+interface RetryFormProps {
+    policy: RetryPolicy;
+    onChange: (policy: RetryPolicy) => void;
+    t: ReturnType<typeof useTranslation>;
+}
+
+// Delays are stored in milliseconds but edited in seconds
+function RetryForm({ policy, onChange, t }: RetryFormProps) {
+    const toSeconds = (ms: number) => ms / 1000;
+    const toMs = (value: string) => Math.round(Math.max(0, Number(value) || 0) * 1000);
+
+    return (
+        <div className="space-y-4 border-t border-slate-200 pt-4">
+            <p className="text-sm text-slate-500">{t('retryHint')}</p>
+
+            <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                    <Label htmlFor="retry-max-retries" className="text-slate-700">
+                        {t('maxRetries')}
+                    </Label>
+                    <Input
+                        id="retry-max-retries"
+                        type="number"
+                        min={0}
+                        max={10}
+                        value={policy.maxRetries}
+                        onChange={(e) => onChange({
+                            ...policy,
+                            maxRetries: Math.min(10, Math.max(0, Math.round(Number(e.target.value)) || 0)),
+                        })}
+                        className="h-10 border-slate-200 focus:ring-2 focus:ring-indigo-500/20"
+                    />
+                </div>
+
+                <div className="space-y-2">
+                    <Label htmlFor="retry-timeout" className="text-slate-700">
+                        {t('requestTimeout')}
+                    </Label>
+                    <Input
+                        id="retry-timeout"
+                        type="number"
+                        min={0}
+                        value={toSeconds(policy.timeoutMs)}
+                        onChange={(e) => onChange({ ...policy, timeoutMs: toMs(e.target.value) })}
+                        className="h-10 border-slate-200 focus:ring-2 focus:ring-indigo-500/20"
+                    />
+                </div>
+
+                <div className="space-y-2">
+                    <Label htmlFor="retry-base-delay" className="text-slate-700">
+                        {t('retryBaseDelay')}
+                    </Label>
+                    <Input
+                        id="retry-base-delay"
+                        type="number"
+                        min={0}
+                        step={0.5}
+                        value={toSeconds(policy.baseDelayMs)}
+                        onChange={(e) => onChange({ ...policy, baseDelayMs: toMs(e.target.value) })}
+                        className="h-10 border-slate-200 focus:ring-2 focus:ring-indigo-500/20"
+                    />
+                </div>
+
+                <div className="space-y-2">
+                    <Label htmlFor="retry-max-delay" className="text-slate-700">
+                        {t('retryMaxDelay')}
+                    </Label>
+                    <Input
+                        id="retry-max-delay"
+                        type="number"
+                        min={0}
+                        value={toSeconds(policy.maxDelayMs)}
+                        onChange={(e) => onChange({ ...policy, maxDelayMs: toMs(e.target.value) })}
+                        className="h-10 border-slate-200 focus:ring-2 focus:ring-indigo-500/20"
+                    />
+                </div>
+            </div>
         </div>
     );
 }
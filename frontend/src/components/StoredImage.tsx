@@ -0,0 +1,27 @@
+'use client';
+
+import { ImageIcon } from 'lucide-react';
+import { ImageRef, useImageUrl } from '@/lib/images';
+
+interface StoredImageProps {
+    imageRef: ImageRef | null;
+    alt: string;
+    className?: string;
+}
+
+/**
+ * <img> for an image kept in the IndexedDB blob store
+ */
+export function StoredImage({ imageRef, alt, className }: StoredImageProps) {
+    const url = useImageUrl(imageRef);
+
+    if (!url) {
+        return (
+            <div className={`${className ?? ''} bg-slate-100 flex items-center justify-center`}>
+                <ImageIcon className="w-6 h-6 text-slate-400" />
+            </div>
+        );
+    }
+
+    return <img src={url} alt={alt} className={className} />;
+}
@@ -0,0 +1,167 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Download, RefreshCw, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { useTranslation } from '@/lib/i18n';
+import { formatCost } from '@/lib/cost';
+import { formatTokenCount } from '@/lib/tokens';
+import {
+    clearUsageRecords,
+    listUsageRecords,
+    summarizeUsage,
+    UsageRecord,
+    UsageSummary,
+    usageDay,
+    usageModel,
+    usageRecordsToCsv,
+} from '@/lib/usage';
+
+interface UsageDashboardProps {
+    t: ReturnType<typeof useTranslation>;
+}
+
+// Older days are still in the CSV export
+const MAX_DAYS_SHOWN = 14;
+
+function UsageTable({ title, rows, t }: { title: string; rows: UsageSummary[]; t: UsageDashboardProps['t'] }) {
+    return (
+        <div>
+            <h4 className="text-sm font-medium text-slate-700 mb-2">{title}</h4>
+            <div className="max-h-48 overflow-auto rounded-md border border-slate-200">
+                <table className="w-full text-xs">
+                    <thead className="bg-slate-50 text-slate-500 sticky top-0">
+                        <tr>
+                            <th className="px-3 py-1.5 text-left font-medium" />
+                            <th className="px-3 py-1.5 text-right font-medium">{t('usageCalls')}</th>
+                            <th className="px-3 py-1.5 text-right font-medium">{t('usageTokensInOut')}</th>
+                            <th className="px-3 py-1.5 text-right font-medium">{t('usageLatency')}</th>
+                            <th className="px-3 py-1.5 text-right font-medium">{t('usageCost')}</th>
+                        </tr>
+                    </thead>
+                    <tbody className="font-mono text-slate-700">
+                        {rows.map((row) => (
+                            <tr key={row.key} className="border-t border-slate-100">
+                                <td className="px-3 py-1.5 font-sans truncate max-w-[220px]" title={row.key}>{row.key}</td>
+                                <td className="px-3 py-1.5 text-right">
+                                    {row.calls}
+                                    {row.failures > 0 && <span className="text-red-500"> ({row.failures}✗)</span>}
+                                </td>
+                                <td className="px-3 py-1.5 text-right">
+                                    {formatTokenCount(row.promptTokens)} / {formatTokenCount(row.completionTokens)}
+                                </td>
+                                <td className="px-3 py-1.5 text-right">{(row.averageLatencyMs / 1000).toFixed(1)}s</td>
+                                <td
+                                    className="px-3 py-1.5 text-right"
+                                    title={row.unpricedCalls > 0 ? `${row.unpricedCalls} ${t('usageUnpriced')}` : undefined}
+                                >
+                                    {formatCost(row.cost)}{row.unpricedCalls > 0 && '+'}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
+
+/**
+ * Settings tab summarizing the usage ledger per day and per model, with
+ * CSV export of the raw records.
+ */
+export function UsageDashboard({ t }: UsageDashboardProps) {
+    const [records, setRecords] = useState<UsageRecord[] | null>(null);
+    const [version, setVersion] = useState(0);
+    const refresh = () => setVersion((v) => v + 1);
+
+    useEffect(() => {
+        let cancelled = false;
+        listUsageRecords()
+            .catch((error) => {
+                console.error(error);
+                return [];
+            })
+            .then((loaded) => {
+                if (!cancelled) setRecords(loaded);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [version]);
+
+    const handleExport = () => {
+        if (!records) return;
+        const blob = new Blob([usageRecordsToCsv(records)], { type: 'text/csv' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `model-usage-${Date.now()}.csv`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleClear = async () => {
+        if (!confirm(t('usageClearConfirm'))) return;
+        try {
+            await clearUsageRecords();
+            setRecords([]);
+        } catch (error) {
+            console.error(error);
+            toast.error(String(error));
+        }
+    };
+
+    if (!records) {
+        return <p className="text-sm text-slate-500">{t('usageLoading')}</p>;
+    }
+
+    const [total] = summarizeUsage(records, () => t('usageTotal'));
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between gap-3">
+                <p className="text-sm text-slate-600">
+                    {total
+                        ? `${total.calls} ${t('usageCalls')} · ${formatTokenCount(total.promptTokens + total.completionTokens)} ${t('tokens')} · ${formatCost(total.cost)}${total.unpricedCalls > 0 ? '+' : ''}`
+                        : t('usageEmpty')}
+                </p>
+                <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={refresh} className="border-slate-200">
+                        <RefreshCw className="w-4 h-4" />
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={handleExport} disabled={!total} className="border-slate-200">
+                        <Download className="w-4 h-4 mr-1" />
+                        CSV
+                    </Button>
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={handleClear}
+                        disabled={!total}
+                        className="border-slate-200 text-red-600 hover:text-red-700"
+                    >
+                        <Trash2 className="w-4 h-4" />
+                    </Button>
+                </div>
+            </div>
+
+            {total && (
+                <>
+                    <UsageTable
+                        title={t('usagePerDay')}
+                        rows={summarizeUsage(records, usageDay).slice(0, MAX_DAYS_SHOWN)}
+                        t={t}
+                    />
+                    <UsageTable
+                        title={t('usagePerModel')}
+                        rows={summarizeUsage(records, usageModel).sort((a, b) => b.cost - a.cost)}
+                        t={t}
+                    />
+                </>
+            )}
+            <p className="text-[11px] text-slate-400">{t('usageHint')}</p>
+        </div>
+    );
+}
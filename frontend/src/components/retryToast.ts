@@ -0,0 +1,28 @@
+import { toast } from 'sonner';
+import { useTranslation } from '@/lib/i18n';
+import { ProviderError } from '@/lib/providers';
+import { RetryEvent } from '@/lib/retry';
+
+function describeFailure(error: unknown): string {
+    if (error instanceof ProviderError) {
+        if (error.timedOut) return 'timeout';
+        if (error.status) return `HTTP ${error.status}`;
+    }
+    return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Tell the user a call is being retried or handed to a fallback model, so a
+ * slow recovery doesn't look like a hang.
+ */
+export function showRetryToast(event: RetryEvent, t: ReturnType<typeof useTranslation>) {
+    const reason = describeFailure(event.error);
+    if (event.fallback) {
+        toast.warning(`${t('fallingBack').replace('{model}', event.next.modelName)} (${event.config.modelName}: ${reason})`);
+    } else {
+        const message = t('retryingIn')
+            .replace('{model}', event.config.modelName)
+            .replace('{seconds}', String(Math.ceil(event.delayMs / 1000)));
+        toast.info(`${message} (${reason})`);
+    }
+}
@@ -1,63 +1,31 @@
 'use client';
 
-import { useState, useCallback, useRef, useEffect } from 'react';
-import { Sparkles, Loader2, Paperclip, FileText, Image as ImageIcon, X, UploadCloud } from 'lucide-react';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { Sparkles, Loader2, Paperclip, FileText, Image as ImageIcon, X, UploadCloud, Square, Check, Plus } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
-import { useWorkflowStore } from '@/store/workflowStore';
+import { useWorkflowStore, UploadedFile } from '@/store/workflowStore';
 import { useTranslation } from '@/lib/i18n';
-import { generateSchema } from '@/lib/api';
+import { buildArchitectPrompt, generateSchema } from '@/lib/api';
+import { estimateRequest } from '@/lib/cost';
+import { needsApiKey } from '@/lib/providers';
+import { loadImageDataUrls, storeImage, useImageDimensions } from '@/lib/images';
+import { importPdf, loadPdfJs, PdfImportMode } from '@/lib/pdf';
+import { DOCUMENT_EXTENSIONS, importDocument, isDocumentFile } from '@/lib/documents';
+import { defaultSectionSelection, joinSections, splitPaperSections } from '@/lib/paperSections';
+import { StoredImage } from '@/components/StoredImage';
+import { SectionPicker } from '@/components/SectionPicker';
+import { confirmWithinBudget, RequestEstimate } from '@/components/RequestEstimate';
+import { showRetryToast } from '@/components/retryToast';
 import { toast } from 'sonner';
 import { motion, AnimatePresence } from 'framer-motion';
 
-interface UploadedFile {
-    name: string;
-    base64: string;
-    type: string;
-    preview?: string;
-}
-
-// PDF.js will be loaded dynamically
-let pdfjsLib: typeof import('pdfjs-dist') | null = null;
-
-async function loadPdfJs() {
-    if (pdfjsLib) return pdfjsLib;
-    if (typeof window === 'undefined') return null;
-
-    const pdfjs = await import('pdfjs-dist');
-    pdfjs.GlobalWorkerOptions.workerSrc = '/pdf.worker.min.mjs';
-    pdfjsLib = pdfjs;
-    return pdfjs;
-}
-
-async function convertPdfToImages(file: File): Promise<string[]> {
-    const pdfjs = await loadPdfJs();
-    if (!pdfjs) throw new Error('PDF.js not available');
-
-    const arrayBuffer = await file.arrayBuffer();
-    const pdf = await pdfjs.getDocument({ data: arrayBuffer }).promise;
-    const images: string[] = [];
-
-    for (let i = 1; i <= pdf.numPages; i++) {
-        const page = await pdf.getPage(i);
-        const scale = 2;
-        const viewport = page.getViewport({ scale });
-
-        const canvas = document.createElement('canvas');
-        const context = canvas.getContext('2d')!;
-        canvas.width = viewport.width;
-        canvas.height = viewport.height;
-
-        await page.render({
-            canvasContext: context,
-            viewport: viewport,
-        } as Parameters<typeof page.render>[0]).promise;
-
-        const imageData = canvas.toDataURL('image/png');
-        images.push(imageData);
-    }
-
-    return images;
+// Extracted PDF text is sent after whatever was typed or pasted
+function buildPaperContent(typed: string, files: UploadedFile[]): string {
+    const extracted = files
+        .filter((file) => file.text)
+        .map((file) => `# ${file.name}\n\n${file.text}`);
+    return [typed.trim(), ...extracted].filter(Boolean).join('\n\n');
 }
 
 export function ArchitectStep() {
@@ -66,108 +34,203 @@ export function ArchitectStep() {
         paperContent,
         setPaperContent,
         setGeneratedSchema,
+        commitSchemaRevision,
         setCurrentStep,
         logicConfig,
+        getActivePromptTemplates,
+        uploadedFiles,
+        addUploadedFiles,
+        removeUploadedFile,
+        clearUploadedFiles,
+        pdfImportOptions,
+        setPdfImportOptions,
+        referenceImages,
+        addReferenceImage,
+        requestBudget,
+        getRetryOptions,
+        beginModelCall,
+        endModelCall,
     } = useWorkflowStore();
     const t = useTranslation(language);
     const [isGenerating, setIsGenerating] = useState(false);
     const [isProcessingFiles, setIsProcessingFiles] = useState(false);
-    const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
-    const [processedImages, setProcessedImages] = useState<string[]>([]);
+    const processedImages = uploadedFiles.flatMap((file) => file.images);
+    const hasExtractedText = uploadedFiles.some((file) => file.text);
+    const sourceFigures = uploadedFiles.flatMap((file) => file.figures ?? []);
+    // Checklist choices by section key; unchosen sections use the default selection
+    const [sectionOverrides, setSectionOverrides] = useState<Record<string, boolean>>({});
+    const sections = useMemo(
+        () => splitPaperSections(buildPaperContent(paperContent, uploadedFiles)),
+        [paperContent, uploadedFiles]
+    );
+    const showSectionPicker = sections.length >= 2;
+    const selectedSections = useMemo(() => {
+        const defaults = defaultSectionSelection(sections);
+        return sections.map((s, i) => sectionOverrides[s.key] ?? defaults[i]);
+    }, [sections, sectionOverrides]);
+    const content = showSectionPicker
+        ? joinSections(sections.filter((_, i) => selectedSections[i]))
+        : buildPaperContent(paperContent, uploadedFiles);
+    const contentToSend = content ||
+        (language === 'zh'
+            ? '请分析上传的文档并生成视觉架构。'
+            : 'Please analyze the uploaded document(s) and generate a Visual Schema.');
+    const architectTemplate = getActivePromptTemplates().architect;
+    const imageDimensions = useImageDimensions(processedImages);
+    const estimate = estimateRequest(logicConfig, buildArchitectPrompt(contentToSend, architectTemplate), imageDimensions, 'text');
     const [pdfJsReady, setPdfJsReady] = useState(false);
     const [isDragging, setIsDragging] = useState(false);
+    const [streamingSchema, setStreamingSchema] = useState('');
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+    const previewRef = useRef<HTMLPreElement>(null);
 
     useEffect(() => {
         loadPdfJs().then(() => setPdfJsReady(true)).catch(console.error);
     }, []);
 
+    // Abort an in-flight generation when leaving the step
+    useEffect(() => {
+        return () => abortControllerRef.current?.abort();
+    }, []);
+
+    // Keep the live preview scrolled to the newest tokens
+    useEffect(() => {
+        if (previewRef.current) {
+            previewRef.current.scrollTop = previewRef.current.scrollHeight;
+        }
+    }, [streamingSchema]);
+
     const handleGenerate = async () => {
-        if (!logicConfig.apiKey) {
+        if (needsApiKey(logicConfig)) {
             toast.error(t('missingApiKey'));
             return;
         }
 
-        if (!paperContent.trim() && processedImages.length === 0) {
+        if (!content && processedImages.length === 0) {
             toast.error(language === 'zh' ? '请输入文本或上传文件' : 'Please enter text or upload files');
             return;
         }
+        if (!confirmWithinBudget(estimate, requestBudget, t)) return;
 
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        setStreamingSchema('');
         setIsGenerating(true);
+        beginModelCall();
         try {
-            const contentToSend = paperContent.trim() ||
-                (language === 'zh'
-                    ? '请分析上传的文档并生成视觉架构。'
-                    : 'Please analyze the uploaded document(s) and generate a Visual Schema.');
-
             const response = await generateSchema(
                 contentToSend,
                 logicConfig,
-                processedImages.length > 0 ? processedImages : undefined
+                processedImages.length > 0 ? await loadImageDataUrls(processedImages) : undefined,
+                {
+                    signal: controller.signal,
+                    onText: setStreamingSchema,
+                    template: architectTemplate,
+                    ...getRetryOptions('logic'),
+                    onRetry: (event) => showRetryToast(event, t),
+                }
             );
+            // Providers without streaming can't be interrupted mid-request; drop their late result
+            if (controller.signal.aborted) return;
+
             setGeneratedSchema(response.schema);
+            commitSchemaRevision('model');
             setCurrentStep(2);
             toast.success(language === 'zh' ? '蓝图生成成功！' : 'Blueprint generated successfully!');
         } catch (error) {
+            if (controller.signal.aborted) {
+                toast.info(t('generationCancelled'));
+                return;
+            }
             console.error(error);
             const errorMessage = error instanceof Error ? error.message : 'Unknown error';
             toast.error(`${t('generationFailed')}: ${errorMessage}`);
         } finally {
+            if (abortControllerRef.current === controller) {
+                abortControllerRef.current = null;
+            }
             setIsGenerating(false);
+            endModelCall();
         }
     };
 
+    const handleCancel = () => {
+        abortControllerRef.current?.abort();
+    };
+
     const handleFileUpload = useCallback(async (files: FileList | null) => {
         if (!files) return;
 
         setIsProcessingFiles(true);
         const newFiles: UploadedFile[] = [];
-        const newImages: string[] = [];
 
         try {
             for (const file of Array.from(files)) {
                 if (file.type === 'application/pdf') {
                     toast.info(language === 'zh' ? `正在处理 PDF: ${file.name}...` : `Processing PDF: ${file.name}...`);
-                    const pdfImages = await convertPdfToImages(file);
+                    let result = await importPdf(file, pdfImportOptions);
+                    // Scanned PDFs have no text layer; fall back to page images
+                    if (pdfImportOptions.mode === 'text' && !result.text.trim()) {
+                        toast.warning(t('pdfNoText'));
+                        result = await importPdf(file, { ...pdfImportOptions, mode: 'images' });
+                    }
+                    const pdfImages = await Promise.all(result.images.map(storeImage));
 
                     newFiles.push({
                         name: file.name,
-                        base64: '',
                         type: file.type,
+                        size: file.size,
                         preview: pdfImages[0],
+                        images: pdfImages,
+                        text: result.text || undefined,
+                        pages: result.pages.length,
                     });
 
-                    newImages.push(...pdfImages);
                     toast.success(language === 'zh'
-                        ? `PDF 已转换为 ${pdfImages.length} 张图片`
-                        : `PDF converted to ${pdfImages.length} images`);
-                } else if (file.type.startsWith('image/')) {
-                    const reader = new FileReader();
-                    const imageData = await new Promise<string>((resolve) => {
-                        reader.onload = (e) => resolve(e.target?.result as string);
-                        reader.readAsDataURL(file);
+                        ? `已导入 PDF 的 ${result.pages.length}/${result.pageCount} 页`
+                        : `Imported ${result.pages.length} of ${result.pageCount} PDF pages`);
+                } else if (isDocumentFile(file.name)) {
+                    const document = await importDocument(file);
+                    const figures = await Promise.all(document.figures.map(async (figure) => ({
+                        caption: figure.caption,
+                        imageRef: await storeImage(figure.image),
+                    })));
+
+                    newFiles.push({
+                        name: file.name,
+                        type: file.type || 'text/plain',
+                        size: file.size,
+                        images: [],
+                        text: document.text,
+                        figures,
                     });
 
+                    if (figures.length > 0) {
+                        toast.success(t('sourceFiguresFound').replace('{count}', String(figures.length)));
+                    }
+                } else if (file.type.startsWith('image/')) {
+                    const imageRef = await storeImage(file);
+
                     newFiles.push({
                         name: file.name,
-                        base64: imageData,
                         type: file.type,
-                        preview: imageData,
+                        size: file.size,
+                        preview: imageRef,
+                        images: [imageRef],
                     });
-
-                    newImages.push(imageData);
                 }
             }
 
-            setUploadedFiles(prev => [...prev, ...newFiles]);
-            setProcessedImages(prev => [...prev, ...newImages]);
+            addUploadedFiles(newFiles);
         } catch (error) {
             console.error('Error processing files:', error);
-            toast.error(language === 'zh' ? '文件处理失败' : 'Failed to process files');
+            const message = error instanceof Error ? error.message : '';
+            toast.error(`${language === 'zh' ? '文件处理失败' : 'Failed to process files'} ${message}`);
         } finally {
             setIsProcessingFiles(false);
         }
-    }, [language]);
+    }, [language, t, addUploadedFiles, pdfImportOptions]);
 
     const handleDragOver = (e: React.DragEvent) => {
         e.preventDefault();
@@ -185,17 +248,26 @@ export function ArchitectStep() {
         handleFileUpload(e.dataTransfer.files);
     }, [handleFileUpload]);
 
-    const removeFile = (index: number) => {
-        setUploadedFiles(prev => prev.filter((_, i) => i !== index));
-        const remainingFiles = uploadedFiles.filter((_, i) => i !== index);
-        if (remainingFiles.length === 0) {
-            setProcessedImages([]);
+    // Toggling a section applies to its subsections too
+    const toggleSection = (index: number) => {
+        const value = !selectedSections[index];
+        const overrides = { ...sectionOverrides, [sections[index].key]: value };
+        for (let i = index + 1; i < sections.length && sections[i].level > sections[index].level; i++) {
+            overrides[sections[i].key] = value;
         }
+        setSectionOverrides(overrides);
+    };
+
+    const setAllSections = (value: boolean) => {
+        setSectionOverrides(Object.fromEntries(sections.map((s) => [s.key, value])));
+    };
+
+    const removeFile = (index: number) => {
+        removeUploadedFile(index);
     };
 
     const clearAllFiles = () => {
-        setUploadedFiles([]);
-        setProcessedImages([]);
+        clearUploadedFiles();
     };
 
     return (
@@ -267,22 +339,47 @@ export function ArchitectStep() {
                             <input
                                 ref={fileInputRef}
                                 type="file"
-                                accept=".pdf,.png,.jpg,.jpeg,image/*,application/pdf"
+                                accept={`.pdf,.png,.jpg,.jpeg,image/*,application/pdf,${DOCUMENT_EXTENSIONS.join(',')}`}
                                 multiple
                                 className="hidden"
                                 onChange={(e) => handleFileUpload(e.target.files)}
                             />
 
+                            {/* PDF import options */}
+                            <div className="flex items-center gap-1.5 text-xs text-slate-400" title={t('pdfImportHint')}>
+                                <span>PDF</span>
+                                <select
+                                    value={pdfImportOptions.mode}
+                                    onChange={(e) => setPdfImportOptions({ mode: e.target.value as PdfImportMode })}
+                                    className="bg-black/30 border border-white/10 rounded px-1.5 py-1 text-slate-300"
+                                >
+                                    <option value="text">{t('pdfModeText')}</option>
+                                    <option value="images">{t('pdfModeImages')}</option>
+                                    <option value="both">{t('pdfModeBoth')}</option>
+                                </select>
+                                <input
+                                    value={pdfImportOptions.pageRange}
+                                    onChange={(e) => setPdfImportOptions({ pageRange: e.target.value })}
+                                    placeholder={t('pdfPagesPlaceholder')}
+                                    className="w-24 bg-black/30 border border-white/10 rounded px-1.5 py-1 text-slate-300 placeholder:text-slate-600"
+                                />
+                            </div>
+
                             {/* Image count */}
                             {processedImages.length > 0 && (
                                 <span className="text-xs px-2 py-1 bg-amber-500/20 text-amber-300 rounded border border-amber-500/30 font-medium">
                                     {processedImages.length} {language === 'zh' ? '张图片' : 'images'}
                                 </span>
                             )}
+                            {hasExtractedText && (
+                                <span className="text-xs px-2 py-1 bg-amber-500/20 text-amber-300 rounded border border-amber-500/30 font-medium">
+                                    {t('pdfText')}
+                                </span>
+                            )}
                         </div>
 
                         <div className="text-xs text-slate-500 pr-2 hidden sm:block">
-                            {language === 'zh' ? '支持 PDF / PNG / JPG' : 'Supports PDF / PNG / JPG'}
+                            {language === 'zh' ? '支持 PDF / 图片 / TeX / Markdown / DOCX / ZIP' : 'Supports PDF / images / TeX / Markdown / DOCX / ZIP'}
                         </div>
                     </div>
                 </div>
@@ -319,13 +416,15 @@ export function ArchitectStep() {
                                     >
                                         <div className="w-10 h-10 rounded-lg overflow-hidden bg-black/40 flex items-center justify-center flex-shrink-0">
                                             {file.preview ? (
-                                                <img
-                                                    src={file.preview}
+                                                <StoredImage
+                                                    imageRef={file.preview}
                                                     alt={file.name}
                                                     className="w-full h-full object-cover"
                                                 />
                                             ) : file.type.includes('pdf') ? (
                                                 <FileText className="w-5 h-5 text-red-400" />
+                                            ) : isDocumentFile(file.name) ? (
+                                                <FileText className="w-5 h-5 text-emerald-400" />
                                             ) : (
                                                 <ImageIcon className="w-5 h-5 text-blue-400" />
                                             )}
@@ -336,7 +435,10 @@ export function ArchitectStep() {
                                                 {file.name}
                                             </p>
                                             <p className="text-[10px] text-slate-500 truncate mt-0.5">
-                                                {(file.base64.length / 1024 / 1.33).toFixed(1)} KB
+                                                {(file.size / 1024).toFixed(1)} KB
+                                                {file.pages !== undefined && ` · ${file.pages} ${t('pdfPages')}`}
+                                                {file.text && ` · ${file.text.length} ${language === 'zh' ? '字符' : 'chars'}`}
+                                                {file.figures && file.figures.length > 0 && ` · ${file.figures.length} ${language === 'zh' ? '张图' : 'figures'}`}
                                             </p>
                                         </div>
 
@@ -353,11 +455,100 @@ export function ArchitectStep() {
                     )}
                 </AnimatePresence>
 
+                {/* Figures found in uploaded sources */}
+                {sourceFigures.length > 0 && (
+                    <div className="mt-6">
+                        <p className="text-sm font-medium text-slate-300 flex items-center gap-2 mb-1">
+                            <ImageIcon className="w-4 h-4 text-slate-400" />
+                            {t('sourceFigures')}
+                        </p>
+                        <p className="text-xs text-slate-500 mb-3">{t('sourceFiguresHint')}</p>
+                        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+                            {sourceFigures.map((figure) => {
+                                const added = referenceImages.includes(figure.imageRef);
+                                return (
+                                    <div key={figure.imageRef} className="rounded-xl border border-white/10 bg-white/5 overflow-hidden">
+                                        <StoredImage
+                                            imageRef={figure.imageRef}
+                                            alt={figure.caption || 'Figure'}
+                                            className="w-full h-24 object-contain bg-white"
+                                        />
+                                        <div className="p-2">
+                                            <p className="text-[11px] text-slate-400 line-clamp-2 min-h-[2lh]" title={figure.caption}>
+                                                {figure.caption || '—'}
+                                            </p>
+                                            <button
+                                                type="button"
+                                                onClick={() => addReferenceImage(figure.imageRef)}
+                                                disabled={added}
+                                                className="mt-1 flex items-center gap-1 text-xs text-amber-400 hover:text-amber-300 disabled:text-slate-500"
+                                            >
+                                                {added ? <Check className="w-3 h-3" /> : <Plus className="w-3 h-3" />}
+                                                {added ? t('figureAdded') : t('useAsReference')}
+                                            </button>
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+                )}
+
+                {/* Section Picker */}
+                {showSectionPicker && (
+                    <div className="mt-6">
+                        <SectionPicker
+                            sections={sections}
+                            selected={selectedSections}
+                            onToggle={toggleSection}
+                            onSetAll={setAllSections}
+                            t={t}
+                        />
+                    </div>
+                )}
+
+                {/* Live Preview */}
+                <AnimatePresence>
+                    {isGenerating && (
+                        <motion.div
+                            initial={{ opacity: 0, height: 0 }}
+                            animate={{ opacity: 1, height: 'auto' }}
+                            exit={{ opacity: 0, height: 0 }}
+                            className="mt-6"
+                        >
+                            <p className="text-sm font-medium text-slate-300 flex items-center gap-2 mb-3">
+                                <Loader2 className="w-4 h-4 animate-spin text-amber-500" />
+                                {t('livePreview')}
+                                <span className="text-xs text-slate-500 font-mono">
+                                    {streamingSchema.length} {language === 'zh' ? '字符' : 'chars'}
+                                </span>
+                            </p>
+                            <pre
+                                ref={previewRef}
+                                className="max-h-[300px] overflow-auto whitespace-pre-wrap rounded-xl bg-black/40 border border-white/10 p-4 font-mono text-xs leading-relaxed text-slate-300"
+                            >
+                                {streamingSchema || (language === 'zh' ? '等待模型响应...' : 'Waiting for the model...')}
+                            </pre>
+                        </motion.div>
+                    )}
+                </AnimatePresence>
+
                 {/* Generate Button */}
-                <div className="mt-8 flex justify-end">
+                <div className="mt-8 flex items-center justify-end gap-3">
+                    <RequestEstimate estimate={estimate} budget={requestBudget} t={t} />
+                    {isGenerating && (
+                        <Button
+                            variant="outline"
+                            onClick={handleCancel}
+                            className="border-white/10 bg-white/5 text-slate-300 hover:bg-red-500/20 hover:text-red-300 px-6 py-6 rounded-xl"
+                        >
+                            <Square className="w-4 h-4 mr-2" />
+                            {t('cancel')}
+                        </Button>
+                    )}
                     <Button
                         onClick={handleGenerate}
-                        disabled={isGenerating || isProcessingFiles || (!paperContent.trim() && processedImages.length === 0)}
+                        disabled={isGenerating || isProcessingFiles || (!paperContent.trim() && !hasExtractedText && processedImages.length === 0)}
                         className="bg-gradient-to-r from-amber-500 to-amber-600 hover:from-amber-400 hover:to-amber-500 text-black font-semibold px-8 py-6 rounded-xl shadow-lg shadow-amber-900/20 disabled:opacity-50 disabled:cursor-not-allowed hover:shadow-amber-500/20 hover:scale-[1.02] active:scale-[0.98] transition-all"
                     >
                         {isGenerating ? (
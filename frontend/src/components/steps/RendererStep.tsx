@@ -1,12 +1,44 @@
 'use client';
 
-import { Download, FileText, History as HistoryIcon, ImageIcon, Trash2, AlertCircle } from 'lucide-react';
+import { useState } from 'react';
+import { AlertCircle, Brush, Check, Download, FileText, History as HistoryIcon, ImageIcon, Loader2, PenTool, Star, Trash2, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { useWorkflowStore } from '@/store/workflowStore';
+import { HistoryItem, RenderCandidate, useWorkflowStore } from '@/store/workflowStore';
 import { useTranslation } from '@/lib/i18n';
-import { motion, AnimatePresence } from 'framer-motion';
+import { extensionForMimeType, loadImageBlob, useImageUrl } from '@/lib/images';
+import { exportSchemaAsVector, VECTOR_FORMATS, VectorFormat } from '@/lib/vector';
+import { motion } from 'framer-motion';
 import { toast } from 'sonner';
+import { StoredImage } from '@/components/StoredImage';
+import { ImageEditDialog } from '@/components/ImageEditDialog';
+import { RefinementChat } from '@/components/RefinementChat';
+
+/**
+ * Order history so region edits follow the item they were made from.
+ * Items whose parent was deleted are shown at the top level.
+ */
+function flattenHistoryTree(history: HistoryItem[]): { item: HistoryItem; depth: number }[] {
+    const ids = new Set(history.map((h) => h.id));
+    const result: { item: HistoryItem; depth: number }[] = [];
+    const visit = (item: HistoryItem, depth: number) => {
+        result.push({ item, depth });
+        history.filter((h) => h.parentId === item.id).forEach((child) => visit(child, depth + 1));
+    };
+    history.filter((h) => !h.parentId || !ids.has(h.parentId)).forEach((item) => visit(item, 0));
+    return result;
+}
+
+function downloadVector(schema: string, format: VectorFormat) {
+    const { extension, mimeType } = VECTOR_FORMATS[format];
+    const blob = new Blob([exportSchemaAsVector(schema, format)], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `academic-diagram-${Date.now()}.${extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+}
 
 export function RendererStep() {
     const {
@@ -18,20 +50,30 @@ export function RendererStep() {
         deleteFromHistory,
         clearHistory,
         getHistoryCount,
+        renderCandidates,
+        toggleRenderCandidateStar,
+        discardRenderCandidate,
+        pickRenderCandidate,
+        clearRenderCandidates,
     } = useWorkflowStore();
     const t = useTranslation(language);
+    const generatedImageUrl = useImageUrl(generatedImage);
+    const [editOpen, setEditOpen] = useState(false);
+
+    const handleDownloadImage = async () => {
+        if (!generatedImageUrl || !generatedImage) return;
 
-    const handleDownloadImage = () => {
-        if (!generatedImage) return;
+        // Name the file after the stored MIME type; remote URLs keep their own extension
+        const blob = await loadImageBlob(generatedImage);
+        const remoteExtension = generatedImageUrl.match(/\.(png|jpe?g|webp|gif|avif)(?:[?#]|$)/i)?.[1];
+        const extension = blob ? extensionForMimeType(blob.type) : remoteExtension?.toLowerCase() ?? 'png';
 
         const link = document.createElement('a');
-        if (generatedImage.startsWith('data:')) {
-            link.href = generatedImage;
-        } else {
-            link.href = generatedImage;
+        link.href = generatedImageUrl;
+        if (!generatedImageUrl.startsWith('blob:')) {
             link.target = '_blank';
         }
-        link.download = `academic-diagram-${Date.now()}.png`;
+        link.download = `academic-diagram-${Date.now()}.${extension}`;
         link.click();
 
         toast.success(language === 'zh' ? '图片已下载' : 'Image downloaded');
@@ -49,10 +91,15 @@ export function RendererStep() {
         toast.success(language === 'zh' ? 'Schema 已导出' : 'Schema exported');
     };
 
+    const handleExportVector = (format: VectorFormat) => {
+        downloadVector(generatedSchema, format);
+        toast.success(language === 'zh' ? '矢量图已导出' : 'Vector figure exported');
+    };
+
     const handleDeleteHistory = (id: string, e: React.MouseEvent) => {
         e.stopPropagation();
         deleteFromHistory(id);
-        toast.success(language === 'zh' ? '已删除，现在可以继续渲染' : 'Deleted, you can now render');
+        toast.success(language === 'zh' ? '已删除' : 'Deleted');
     };
 
     const handleClearHistory = () => {
@@ -62,8 +109,12 @@ export function RendererStep() {
         }
     };
 
+    const handlePickCandidate = (id: string) => {
+        pickRenderCandidate(id);
+        toast.success(t('variantPicked'));
+    };
+
     const historyCount = getHistoryCount();
-    const isHistoryFull = historyCount >= 2;
 
     return (
         <motion.div
@@ -72,33 +123,39 @@ export function RendererStep() {
             exit={{ opacity: 0, x: 20 }}
             className="max-w-7xl mx-auto"
         >
-            {/* History Full Warning */}
-            <AnimatePresence>
-                {isHistoryFull && (
-                    <motion.div
-                        initial={{ opacity: 0, y: -20 }}
-                        animate={{ opacity: 1, y: 0 }}
-                        exit={{ opacity: 0, y: -20 }}
-                        className="mb-4 p-4 bg-amber-50 border border-amber-200 rounded-lg flex items-start gap-3"
-                    >
-                        <AlertCircle className="w-5 h-5 text-amber-500 flex-shrink-0 mt-0.5" />
-                        <div className="flex-1">
-                            <p className="text-sm font-medium text-amber-800">
-                                {language === 'zh' ? '⚠️ 缓存已满' : '⚠️ Cache Full'}
-                            </p>
-                            <p className="text-sm text-amber-700 mt-1">
-                                {language === 'zh'
-                                    ? '请下载保存您需要的图片，然后删除历史记录以继续渲染新图片。'
-                                    : 'Please download images you need, then delete history to render new images.'}
-                            </p>
-                        </div>
-                    </motion.div>
-                )}
-            </AnimatePresence>
-
             <div className="grid md:grid-cols-4 gap-6">
                 {/* Main Canvas */}
-                <div className="md:col-span-3">
+                <div className="md:col-span-3 space-y-6">
+                    {/* Variant comparison grid */}
+                    {renderCandidates.length > 0 && (
+                        <div className="bg-white rounded-xl border border-slate-200 p-6 shadow-sm">
+                            <div className="flex items-center justify-between mb-2">
+                                <h3 className="font-semibold text-slate-900">
+                                    {t('variants')} ({renderCandidates.length})
+                                </h3>
+                                <button
+                                    onClick={clearRenderCandidates}
+                                    className="text-xs text-red-500 hover:text-red-700"
+                                >
+                                    {t('discardAllVariants')}
+                                </button>
+                            </div>
+                            <p className="text-xs text-slate-500 mb-4">{t('variantsHint')}</p>
+                            <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                                {renderCandidates.map((candidate) => (
+                                    <VariantCard
+                                        key={candidate.id}
+                                        candidate={candidate}
+                                        onPick={() => handlePickCandidate(candidate.id)}
+                                        onToggleStar={() => toggleRenderCandidateStar(candidate.id)}
+                                        onDiscard={() => discardRenderCandidate(candidate.id)}
+                                        t={t}
+                                    />
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
                     <div className="bg-white rounded-xl border border-slate-200 p-6 shadow-sm">
                         <div className="flex items-center justify-between mb-4">
                             <h3 className="font-semibold text-slate-900">{t('generatedDiagram')}</h3>
@@ -112,11 +169,21 @@ export function RendererStep() {
                                     <FileText className="w-4 h-4 mr-1.5" />
                                     {t('exportSchema')}
                                 </Button>
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => setEditOpen(true)}
+                                    disabled={!generatedImageUrl}
+                                    className="border-slate-200"
+                                >
+                                    <Brush className="w-4 h-4 mr-1.5" />
+                                    {t('editRegion')}
+                                </Button>
                                 <Button
                                     variant="outline"
                                     size="sm"
                                     onClick={handleDownloadImage}
-                                    disabled={!generatedImage}
+                                    disabled={!generatedImageUrl}
                                     className="border-slate-200"
                                 >
                                     <Download className="w-4 h-4 mr-1.5" />
@@ -125,6 +192,25 @@ export function RendererStep() {
                             </div>
                         </div>
 
+                        {/* Vector export, laid out locally from the schema */}
+                        <div className="mb-4 flex flex-wrap items-center gap-2">
+                            <PenTool className="w-4 h-4 text-slate-500" />
+                            <span className="text-sm text-slate-600">{t('exportVector')}</span>
+                            {(Object.keys(VECTOR_FORMATS) as VectorFormat[]).map((format) => (
+                                <Button
+                                    key={format}
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => handleExportVector(format)}
+                                    disabled={!generatedSchema.trim()}
+                                    className="h-7 border-slate-200"
+                                >
+                                    {VECTOR_FORMATS[format].label}
+                                </Button>
+                            ))}
+                            <span className="text-xs text-slate-400">{t('exportVectorHint')}</span>
+                        </div>
+
                         {/* Save reminder when image exists */}
                         {generatedImage && (
                             <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg">
@@ -145,10 +231,10 @@ export function RendererStep() {
                                 backgroundColor: '#f8fafc',
                             }}
                         >
-                            {generatedImage ? (
+                            {generatedImageUrl ? (
                                 <Card className="p-4 bg-white shadow-sm max-w-full">
                                     <img
-                                        src={generatedImage}
+                                        src={generatedImageUrl}
                                         alt="Generated academic diagram"
                                         className="max-w-full max-h-[600px] object-contain"
                                     />
@@ -161,6 +247,8 @@ export function RendererStep() {
                             )}
                         </div>
                     </div>
+
+                    <RefinementChat />
                 </div>
 
                 {/* History Sidebar */}
@@ -170,8 +258,8 @@ export function RendererStep() {
                             <div className="flex items-center gap-2">
                                 <HistoryIcon className="w-4 h-4 text-slate-500" />
                                 <h3 className="font-semibold text-slate-900">{t('history')}</h3>
-                                <span className={`text-xs px-2 py-0.5 rounded-full ${isHistoryFull ? 'bg-red-100 text-red-600' : 'bg-slate-100 text-slate-600'}`}>
-                                    {historyCount}/2
+                                <span className="text-xs px-2 py-0.5 rounded-full bg-slate-100 text-slate-600">
+                                    {historyCount}
                                 </span>
                             </div>
                             {history.length > 0 && (
@@ -190,18 +278,19 @@ export function RendererStep() {
                                     {language === 'zh' ? '暂无历史记录' : 'No history yet'}
                                 </p>
                             ) : (
-                                history.map((item) => (
+                                flattenHistoryTree(history).map(({ item, depth }) => (
                                     <div
                                         key={item.id}
                                         className="relative group"
+                                        style={{ marginLeft: depth * 12 }}
                                     >
                                         <button
                                             onClick={() => loadFromHistory(item.id)}
                                             className="w-full p-2 rounded-lg border border-slate-200 hover:border-indigo-300 hover:bg-indigo-50/50 transition-colors text-left"
                                         >
-                                            {item.imageUrl ? (
-                                                <img
-                                                    src={item.imageUrl}
+                                            {item.imageRef ? (
+                                                <StoredImage
+                                                    imageRef={item.imageRef}
                                                     alt="History item"
                                                     className="w-full h-20 object-cover rounded mb-2"
                                                 />
@@ -213,6 +302,11 @@ export function RendererStep() {
                                             <p className="text-xs text-slate-500">
                                                 {new Date(item.timestamp).toLocaleString()}
                                             </p>
+                                            {item.instruction && (
+                                                <p className="text-xs text-slate-400 truncate" title={item.instruction}>
+                                                    ✎ {item.instruction}
+                                                </p>
+                                            )}
                                         </button>
                                         {/* Delete button */}
                                         <button
@@ -236,6 +330,73 @@ export function RendererStep() {
                     </div>
                 </div>
             </div>
+
+            <ImageEditDialog open={editOpen} onOpenChange={setEditOpen} />
         </motion.div>
     );
 }
+
+interface VariantCardProps {
+    candidate: RenderCandidate;
+    onPick: () => void;
+    onToggleStar: () => void;
+    onDiscard: () => void;
+    t: ReturnType<typeof useTranslation>;
+}
+
+function VariantCard({ candidate, onPick, onToggleStar, onDiscard, t }: VariantCardProps) {
+    return (
+        <div className="rounded-lg border border-slate-200 overflow-hidden">
+            <div className="aspect-video bg-slate-50 flex items-center justify-center">
+                {candidate.status === 'pending' && (
+                    <Loader2 className="w-6 h-6 text-indigo-400 animate-spin" />
+                )}
+                {candidate.status === 'error' && (
+                    <div className="p-3 text-center text-xs text-red-600">
+                        <AlertCircle className="w-5 h-5 mx-auto mb-1" />
+                        <p className="line-clamp-3">{candidate.error}</p>
+                    </div>
+                )}
+                {candidate.status === 'done' && candidate.imageRef && (
+                    <StoredImage
+                        imageRef={candidate.imageRef}
+                        alt="Render variant"
+                        className="w-full h-full object-contain"
+                    />
+                )}
+            </div>
+            <div className="flex items-center justify-between gap-2 p-2 border-t border-slate-100">
+                <p className="text-xs text-slate-500 truncate" title={candidate.modelName}>
+                    {candidate.modelName}
+                    {candidate.temperature !== undefined && ` · T=${candidate.temperature}`}
+                </p>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                    <button
+                        onClick={onToggleStar}
+                        disabled={candidate.status !== 'done'}
+                        title={t('starVariant')}
+                        className="p-1 rounded hover:bg-slate-100 disabled:opacity-40"
+                    >
+                        <Star className={`w-4 h-4 ${candidate.starred ? 'fill-amber-400 text-amber-400' : 'text-slate-400'}`} />
+                    </button>
+                    <button
+                        onClick={onDiscard}
+                        title={t('discardVariant')}
+                        className="p-1 rounded hover:bg-slate-100 text-slate-400 hover:text-red-500"
+                    >
+                        <X className="w-4 h-4" />
+                    </button>
+                    <Button
+                        size="sm"
+                        onClick={onPick}
+                        disabled={candidate.status !== 'done'}
+                        className="h-7 px-2 bg-indigo-600 hover:bg-indigo-700 text-white"
+                    >
+                        <Check className="w-3.5 h-3.5 mr-1" />
+                        {t('pickWinner')}
+                    </Button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,23 +1,34 @@
 'use client';
 
-import { useState, useCallback, useRef } from 'react';
-import { Loader2, Image as ImageIcon, X, Upload } from 'lucide-react';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { Loader2, Image as ImageIcon, X, Upload, History as HistoryIcon, ListTree } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { useWorkflowStore } from '@/store/workflowStore';
+import { RenderCandidate, useWorkflowStore } from '@/store/workflowStore';
 import { useTranslation } from '@/lib/i18n';
-import { renderImage } from '@/lib/api';
+import { buildRendererPrompt, buildVariantConfigs, renderImage, renderImageVariants } from '@/lib/api';
+import { estimateRequest, exceededBudgetLimits, sumEstimates } from '@/lib/cost';
+import { needsApiKey } from '@/lib/providers';
+import { lintSchema } from '@/lib/schemaLint';
+import { ImageRef, loadImageDataUrls, storeImage, useImageDimensions } from '@/lib/images';
+import { StoredImage } from '@/components/StoredImage';
+import { SchemaHistoryDialog } from '@/components/SchemaHistoryDialog';
+import { SchemaEditor, SchemaEditorInstance } from '@/components/SchemaEditor';
+import { SchemaPreview } from '@/components/SchemaPreview';
+import { confirmWithinBudget, RequestEstimate } from '@/components/RequestEstimate';
+import { showRetryToast } from '@/components/retryToast';
 import { toast } from 'sonner';
 import { motion } from 'framer-motion';
-import dynamic from 'next/dynamic';
 
-// Dynamic import for Monaco Editor (SSR disabled)
-const MonacoEditor = dynamic(() => import('@monaco-editor/react'), {
-    ssr: false,
-    loading: () => (
-        <div className="h-[500px] bg-slate-100 animate-pulse rounded-lg" />
-    ),
-});
+// Editor changes are snapshotted as a revision after this much idle time
+const REVISION_IDLE_MS = 2000;
+
+const MAX_VARIANTS = 8;
+
+function splitList(value: string): string[] {
+    return value.split(',').map((v) => v.trim()).filter(Boolean);
+}
 
 export function ReviewStep() {
     const {
@@ -25,6 +36,8 @@ export function ReviewStep() {
         paperContent,
         generatedSchema,
         setGeneratedSchema,
+        commitSchemaRevision,
+        schemaRevisions,
         referenceImages,
         addReferenceImage,
         removeReferenceImage,
@@ -32,48 +45,92 @@ export function ReviewStep() {
         setCurrentStep,
         visionConfig,
         addToHistory,
-        canAddToHistory,
-        getHistoryCount,
+        getActivePromptTemplates,
+        renderVariantSettings,
+        setRenderVariantSettings,
+        setRenderCandidates,
+        clearRenderCandidates,
+        updateRenderCandidate,
+        requestBudget,
+        getRetryOptions,
+        beginModelCall,
+        endModelCall,
     } = useWorkflowStore();
     const t = useTranslation(language);
     const [isRendering, setIsRendering] = useState(false);
-    const [mobileTab, setMobileTab] = useState<'source' | 'editor' | 'reference'>('editor');
+    const [mobileTab, setMobileTab] = useState<'source' | 'editor' | 'preview' | 'reference'>('editor');
+    const [leftTab, setLeftTab] = useState<'source' | 'preview'>('source');
+    const [historyOpen, setHistoryOpen] = useState(false);
+    const [showOutline, setShowOutline] = useState(false);
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const desktopEditorRef = useRef<SchemaEditorInstance | null>(null);
+    const mobileEditorRef = useRef<SchemaEditorInstance | null>(null);
+
+    const variantConfigs = buildVariantConfigs(
+        visionConfig,
+        renderVariantSettings.count,
+        splitList(renderVariantSettings.modelNames),
+        splitList(renderVariantSettings.temperatures).map(Number).filter((n) => !isNaN(n))
+    );
+    const referenceDimensions = useImageDimensions(referenceImages);
+    const renderPrompt = buildRendererPrompt(generatedSchema, referenceImages.length > 0, getActivePromptTemplates());
+    const variantEstimates = variantConfigs.map((config) => estimateRequest(config, renderPrompt, referenceDimensions, 'image'));
+    const renderEstimate = sumEstimates(variantEstimates);
+    // The budget is per request, so each variant is checked on its own
+    const checkedEstimate = variantEstimates.find((e) => exceededBudgetLimits(e, requestBudget).length > 0)
+        ?? variantEstimates[0];
 
+    useEffect(() => {
+        const timer = setTimeout(() => commitSchemaRevision('user'), REVISION_IDLE_MS);
+        return () => clearTimeout(timer);
+    }, [generatedSchema, commitSchemaRevision]);
+
+    // Don't lose edits made just before leaving the step
+    useEffect(() => () => useWorkflowStore.getState().commitSchemaRevision('user'), []);
+
+    // Lint errors block rendering; jump to the first one so it can be fixed
     const validateSchema = (schema: string): boolean => {
-        return schema.includes('---BEGIN PROMPT---') && schema.includes('---END PROMPT---');
-    };
+        const error = lintSchema(schema).find((d) => d.severity === 'error');
+        if (!error) return true;
 
-    const handleRender = async () => {
-        // Check history limit first
-        if (!canAddToHistory()) {
-            toast.error(
-                language === 'zh'
-                    ? '🚫 缓存已满（2/2）！请先到【步骤3】下载保存图片，然后删除历史记录后再渲染。'
-                    : '🚫 Cache full (2/2)! Please go to Step 3 to download and delete history before rendering.',
-                { duration: 5000 }
-            );
-            // Navigate to step 3 so user can manage history
-            setCurrentStep(3);
-            return;
+        toast.error(`${t('schemaError')} (${t('line')} ${error.startLine}: ${error.message})`);
+        setMobileTab('editor');
+        for (const editor of [desktopEditorRef.current, mobileEditorRef.current]) {
+            editor?.revealLineInCenter(error.startLine);
+            editor?.setPosition({ lineNumber: error.startLine, column: error.startColumn });
         }
+        (desktopEditorRef.current ?? mobileEditorRef.current)?.focus();
+        return false;
+    };
 
-        if (!visionConfig.apiKey) {
+    const handleRender = async () => {
+        if (needsApiKey(visionConfig)) {
             toast.error(t('missingApiKey'));
             return;
         }
 
-        if (!validateSchema(generatedSchema)) {
-            toast.error(t('schemaError'));
+        if (!validateSchema(generatedSchema)) return;
+        if (!confirmWithinBudget(checkedEstimate, requestBudget, t)) return;
+
+        commitSchemaRevision('user');
+        if (renderVariantSettings.count > 1) {
+            await handleRenderVariants();
             return;
         }
 
         setIsRendering(true);
+        beginModelCall();
         try {
-            const response = await renderImage(generatedSchema, visionConfig, referenceImages);
+            const references = await loadImageDataUrls(referenceImages);
+            const response = await renderImage(generatedSchema, visionConfig, references, {
+                templates: getActivePromptTemplates(),
+                ...getRetryOptions('vision'),
+                onRetry: (event) => showRetryToast(event, t),
+            });
             if (response.imageUrl) {
-                setGeneratedImage(response.imageUrl);
-                addToHistory({ schema: generatedSchema, imageUrl: response.imageUrl });
+                const imageRef = await storeImage(response.imageUrl);
+                setGeneratedImage(imageRef);
+                addToHistory({ schema: generatedSchema, imageRef });
                 setCurrentStep(3);
                 toast.success(language === 'zh' ? '图片渲染成功！' : 'Image rendered successfully!');
             } else {
@@ -84,38 +141,74 @@ export function ReviewStep() {
             toast.error(t('generationFailed'));
         } finally {
             setIsRendering(false);
+            endModelCall();
         }
     };
 
-    const handleDrop = useCallback((e: React.DragEvent) => {
-        e.preventDefault();
-        const files = Array.from(e.dataTransfer.files);
+    // Renders land in the comparison grid on step 3 instead of going straight to history
+    const handleRenderVariants = async () => {
+        const configs = variantConfigs;
+        const candidates: RenderCandidate[] = configs.map((config) => ({
+            id: crypto.randomUUID(),
+            schema: generatedSchema,
+            modelName: config.modelName,
+            temperature: config.temperature,
+            status: 'pending',
+            imageRef: null,
+            starred: false,
+        }));
+
+        setIsRendering(true);
+        beginModelCall();
+        // Starred variants of the previous round go to history before the grid is replaced
+        clearRenderCandidates();
+        setRenderCandidates(candidates);
+        setCurrentStep(3);
+        try {
+            const references = await loadImageDataUrls(referenceImages);
+            // Variants retry quietly; failures show up on their own cards
+            await renderImageVariants(generatedSchema, configs, references, {
+                templates: getActivePromptTemplates(),
+                ...getRetryOptions('vision'),
+                onSettled: (index, result) => {
+                    const { id } = candidates[index];
+                    if (result.status === 'rejected') {
+                        console.error(result.reason);
+                        const message = result.reason instanceof Error ? result.reason.message : String(result.reason);
+                        updateRenderCandidate(id, { status: 'error', error: message });
+                    } else if (!result.value.imageUrl) {
+                        updateRenderCandidate(id, { status: 'error', error: result.value.text || t('noImage') });
+                    } else {
+                        storeImage(result.value.imageUrl)
+                            .then((imageRef) => updateRenderCandidate(id, { status: 'done', imageRef }))
+                            .catch((error) => updateRenderCandidate(id, { status: 'error', error: String(error) }));
+                    }
+                },
+            });
+        } catch (error) {
+            console.error(error);
+            toast.error(t('generationFailed'));
+        } finally {
+            setIsRendering(false);
+            endModelCall();
+        }
+    };
+
+    const addReferenceFiles = useCallback((files: File[]) => {
         files.forEach((file) => {
             if (file.type.startsWith('image/')) {
-                const reader = new FileReader();
-                reader.onload = (event) => {
-                    if (event.target?.result) {
-                        addReferenceImage(event.target.result as string);
-                    }
-                };
-                reader.readAsDataURL(file);
+                storeImage(file).then(addReferenceImage).catch(console.error);
             }
         });
     }, [addReferenceImage]);
 
+    const handleDrop = useCallback((e: React.DragEvent) => {
+        e.preventDefault();
+        addReferenceFiles(Array.from(e.dataTransfer.files));
+    }, [addReferenceFiles]);
+
     const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-        const files = Array.from(e.target.files || []);
-        files.forEach((file) => {
-            if (file.type.startsWith('image/')) {
-                const reader = new FileReader();
-                reader.onload = (event) => {
-                    if (event.target?.result) {
-                        addReferenceImage(event.target.result as string);
-                    }
-                };
-                reader.readAsDataURL(file);
-            }
-        });
+        addReferenceFiles(Array.from(e.target.files || []));
     };
 
     return (
@@ -127,24 +220,42 @@ export function ReviewStep() {
         >
             {/* Desktop Layout */}
             <div className="hidden md:grid md:grid-cols-2 gap-6">
-                {/* Left: Source Input */}
+                {/* Left: Source Input / Wireframe Preview */}
                 <div className="bg-white rounded-xl border border-slate-200 p-6 shadow-sm">
-                    <h3 className="font-semibold text-slate-900 mb-4">{t('sourceInput')}</h3>
-                    <div className="h-[400px] overflow-auto bg-slate-50 rounded-lg p-4 font-mono text-sm text-slate-600">
-                        {paperContent || 'No content'}
-                    </div>
+                    <Tabs value={leftTab} onValueChange={(v) => setLeftTab(v as 'source' | 'preview')}>
+                        <TabsList className="mb-2 bg-slate-100">
+                            <TabsTrigger value="source">{t('sourceInput')}</TabsTrigger>
+                            <TabsTrigger value="preview">{t('wireframePreview')}</TabsTrigger>
+                        </TabsList>
+                        <TabsContent value="source">
+                            <div className="h-[400px] overflow-auto bg-slate-50 rounded-lg p-4 font-mono text-sm text-slate-600">
+                                {paperContent || 'No content'}
+                            </div>
+                        </TabsContent>
+                        <TabsContent value="preview">
+                            <SchemaPreview schema={generatedSchema} className="h-[400px]" t={t} />
+                        </TabsContent>
+                    </Tabs>
                 </div>
 
                 {/* Right: Schema Editor */}
                 <div className="bg-white rounded-xl border border-slate-200 p-6 shadow-sm">
-                    <h3 className="font-semibold text-slate-900 mb-4">{t('blueprintEditor')}</h3>
+                    <div className="flex items-center justify-between mb-4">
+                        <h3 className="font-semibold text-slate-900">{t('blueprintEditor')}</h3>
+                        <button
+                            onClick={() => setShowOutline((v) => !v)}
+                            className={`flex items-center gap-1 text-xs ${showOutline ? 'text-indigo-600' : 'text-slate-500 hover:text-slate-700'}`}
+                        >
+                            <ListTree className="w-3.5 h-3.5" />
+                            {t('schemaOutline')}
+                        </button>
+                    </div>
                     <div className="h-[400px] rounded-lg overflow-hidden border border-slate-200">
-                        <MonacoEditor
-                            height="100%"
-                            defaultLanguage="markdown"
+                        <SchemaEditor
                             value={generatedSchema}
-                            onChange={(value) => setGeneratedSchema(value || '')}
-                            theme="vs-light"
+                            onChange={setGeneratedSchema}
+                            editorRef={desktopEditorRef}
+                            showOutline={showOutline}
                             options={{
                                 minimap: { enabled: false },
                                 fontSize: 13,
@@ -161,9 +272,10 @@ export function ReviewStep() {
             {/* Mobile Layout */}
             <div className="md:hidden">
                 <Tabs value={mobileTab} onValueChange={(v) => setMobileTab(v as any)}>
-                    <TabsList className="grid w-full grid-cols-3 bg-slate-100">
+                    <TabsList className="grid w-full grid-cols-4 bg-slate-100">
                         <TabsTrigger value="source">{t('sourceInput')}</TabsTrigger>
                         <TabsTrigger value="editor">{t('blueprintEditor')}</TabsTrigger>
+                        <TabsTrigger value="preview">{t('wireframePreview')}</TabsTrigger>
                         <TabsTrigger value="reference">{t('referenceImages')}</TabsTrigger>
                     </TabsList>
                     <TabsContent value="source" className="mt-4">
@@ -173,12 +285,10 @@ export function ReviewStep() {
                     </TabsContent>
                     <TabsContent value="editor" className="mt-4">
                         <div className="h-[500px] rounded-lg overflow-hidden border border-slate-200">
-                            <MonacoEditor
-                                height="100%"
-                                defaultLanguage="markdown"
+                            <SchemaEditor
                                 value={generatedSchema}
-                                onChange={(value) => setGeneratedSchema(value || '')}
-                                theme="vs-light"
+                                onChange={setGeneratedSchema}
+                                editorRef={mobileEditorRef}
                                 options={{
                                     minimap: { enabled: false },
                                     fontSize: 13,
@@ -187,6 +297,9 @@ export function ReviewStep() {
                             />
                         </div>
                     </TabsContent>
+                    <TabsContent value="preview" className="mt-4">
+                        <SchemaPreview schema={generatedSchema} className="h-[500px]" t={t} />
+                    </TabsContent>
                     <TabsContent value="reference" className="mt-4">
                         <ReferenceImagePanel
                             images={referenceImages}
@@ -219,7 +332,53 @@ export function ReviewStep() {
             </div>
 
             {/* Render Button */}
-            <div className="mt-6 flex justify-end">
+            <div className="mt-6 flex flex-wrap items-center justify-end gap-3">
+                <label className="flex items-center gap-2 text-sm text-slate-600">
+                    {t('variantCount')}
+                    <Input
+                        type="number"
+                        min={1}
+                        max={MAX_VARIANTS}
+                        value={renderVariantSettings.count}
+                        onChange={(e) => setRenderVariantSettings({
+                            count: Math.min(MAX_VARIANTS, Math.max(1, Math.round(Number(e.target.value)) || 1)),
+                        })}
+                        className="h-9 w-16 border-slate-200"
+                    />
+                </label>
+                {renderVariantSettings.count > 1 && (
+                    <>
+                        <Input
+                            value={renderVariantSettings.modelNames}
+                            onChange={(e) => setRenderVariantSettings({ modelNames: e.target.value })}
+                            placeholder={t('variantModelsPlaceholder')}
+                            title={t('variantModelsHint')}
+                            className="h-9 w-56 border-slate-200"
+                        />
+                        <Input
+                            value={renderVariantSettings.temperatures}
+                            onChange={(e) => setRenderVariantSettings({ temperatures: e.target.value })}
+                            placeholder={t('variantTemperaturesPlaceholder')}
+                            title={t('variantTemperaturesHint')}
+                            className="h-9 w-40 border-slate-200"
+                        />
+                    </>
+                )}
+                <Button
+                    variant="outline"
+                    onClick={() => setHistoryOpen(true)}
+                    className="border-slate-200"
+                >
+                    <HistoryIcon className="w-4 h-4 mr-2" />
+                    {t('schemaHistory')} ({schemaRevisions.length})
+                </Button>
+                <RequestEstimate
+                    estimate={renderEstimate}
+                    perRequest={checkedEstimate}
+                    requests={variantConfigs.length}
+                    budget={requestBudget}
+                    t={t}
+                />
                 <Button
                     onClick={handleRender}
                     disabled={isRendering || !generatedSchema.trim()}
@@ -233,18 +392,22 @@ export function ReviewStep() {
                     ) : (
                         <>
                             <ImageIcon className="w-4 h-4 mr-2" />
-                            {t('renderImage')}
+                            {renderVariantSettings.count > 1
+                                ? `${t('renderVariants')} (${renderVariantSettings.count})`
+                                : t('renderImage')}
                         </>
                     )}
                 </Button>
             </div>
+
+            <SchemaHistoryDialog open={historyOpen} onOpenChange={setHistoryOpen} />
         </motion.div>
     );
 }
 
 interface ReferenceImagePanelProps {
-    images: string[];
-    onAdd: (image: string) => void;
+    images: ImageRef[];
+    onAdd: (image: ImageRef) => void;
     onRemove: (index: number) => void;
     onDrop: (e: React.DragEvent) => void;
     fileInputRef: React.RefObject<HTMLInputElement | null>;
@@ -286,8 +449,8 @@ function ReferenceImagePanel({
                 <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
                     {images.map((img, index) => (
                         <div key={index} className="relative group">
-                            <img
-                                src={img}
+                            <StoredImage
+                                imageRef={img}
                                 alt={`Reference ${index + 1}`}
                                 className="w-full h-24 object-cover rounded-lg border border-slate-200"
                             />
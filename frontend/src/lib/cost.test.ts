@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import type { ModelConfig } from '@/lib/providers';
+import { estimateRequest, exceededBudgetLimits, findModelPrice, formatCost, sumEstimates } from './cost';
+import { estimateTokens, formatTokenCount } from './tokens';
+
+function config(provider: ModelConfig['provider'], modelName: string): ModelConfig {
+    return { provider, baseUrl: '', apiKey: '', modelName };
+}
+
+describe('estimateTokens', () => {
+    it('counts about four characters per token, and one per CJK character', () => {
+        expect(estimateTokens('')).toBe(0);
+        expect(estimateTokens('abcdefgh')).toBe(2);
+        expect(estimateTokens('学术插图')).toBe(4);
+        expect(estimateTokens('学术 figure')).toBe(2 + 2);
+    });
+
+    it('formats large counts in thousands', () => {
+        expect(formatTokenCount(999)).toBe('999');
+        expect(formatTokenCount(1500)).toBe('1.5k');
+        expect(formatTokenCount(25000)).toBe('25k');
+    });
+});
+
+describe('findModelPrice', () => {
+    it('matches the most specific model name first', () => {
+        expect(findModelPrice(config('openai', 'gpt-5-mini'))).toEqual({ inputPerMillion: 0.25, outputPerMillion: 2 });
+        expect(findModelPrice(config('openai', 'GPT-5'))).toEqual({ inputPerMillion: 1.25, outputPerMillion: 10 });
+        expect(findModelPrice(config('openai', 'my-finetune'))).toBeNull();
+    });
+
+    it('treats local models and the mock as free', () => {
+        expect(findModelPrice(config('ollama', 'gpt-5'))).toEqual({ inputPerMillion: 0, outputPerMillion: 0 });
+        expect(findModelPrice(config('mock', 'mock'))).toEqual({ inputPerMillion: 0, outputPerMillion: 0 });
+    });
+});
+
+describe('estimateRequest', () => {
+    it('adds image tiles to the prompt and prices the expected schema', () => {
+        const estimate = estimateRequest(config('openai', 'gpt-4o'), 'x'.repeat(4000), [{ width: 1024, height: 1024 }], 'text');
+
+        // 1024x1024 scales to 768x768: 2x2 tiles
+        expect(estimate.imageTokens).toBe(85 + 170 * 4);
+        expect(estimate.inputTokens).toBe(1000 + 765);
+        expect(estimate.outputTokens).toBe(1500);
+        expect(estimate.cost).toBeCloseTo((1765 * 2.5 + 1500 * 10) / 1_000_000);
+    });
+
+    it('adds the per-image price for renders', () => {
+        const estimate = estimateRequest(config('openai-images', 'gpt-image-1'), 'x'.repeat(400), [{ width: 512, height: 512 }], 'image');
+
+        expect(estimate.imageTokens).toBe(0);
+        expect(estimate.cost).toBeCloseTo((100 * 5) / 1_000_000 + 0.042);
+    });
+});
+
+describe('budgets', () => {
+    it('sums estimates, losing the cost when any part is unknown', () => {
+        const known = { inputTokens: 100, imageTokens: 0, outputTokens: 10, cost: 0.5 };
+        expect(sumEstimates([known, known])).toEqual({ inputTokens: 200, imageTokens: 0, outputTokens: 20, cost: 1 });
+        expect(sumEstimates([known, { ...known, cost: null }]).cost).toBeNull();
+    });
+
+    it('reports the limits an estimate exceeds', () => {
+        const estimate = { inputTokens: 5000, imageTokens: 0, outputTokens: 0, cost: 0.2 };
+        expect(exceededBudgetLimits(estimate, { maxTokens: 4000, maxCost: 0.1, mode: 'warn' })).toEqual(['tokens', 'cost']);
+        expect(exceededBudgetLimits(estimate, { maxTokens: 0, maxCost: 0, mode: 'block' })).toEqual([]);
+        expect(exceededBudgetLimits({ ...estimate, cost: null }, { maxTokens: 0, maxCost: 0.1, mode: 'block' })).toEqual([]);
+    });
+
+    it('formats costs', () => {
+        expect([null, 0, 0.004, 1.234].map(formatCost)).toEqual(['$?', '$0', '<$0.01', '$1.23']);
+    });
+});
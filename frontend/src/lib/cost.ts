@@ -0,0 +1,158 @@
+import type { ImageDimensions } from '@/lib/images';
+import type { ModelConfig, ProviderId } from '@/lib/providers';
+import { estimateTokens } from '@/lib/tokens';
+
+/**
+ * Pre-flight size and cost estimates for model calls, so a request can be
+ * checked against the per-request budget before it is sent. Prices are list
+ * prices in USD and only approximate; unknown models get no cost.
+ */
+
+export interface ModelPrice {
+    inputPerMillion: number; // USD per 1M input tokens
+    outputPerMillion: number; // USD per 1M output tokens
+    perImage?: number; // USD per generated image, for image models
+}
+
+export interface RequestEstimate {
+    inputTokens: number; // Prompt text plus image tiles
+    imageTokens: number; // Part of inputTokens spent on input images
+    outputTokens: number; // Expected, not the max_tokens limit
+    cost: number | null; // USD; null when the model's price is unknown
+}
+
+export interface RequestBudget {
+    maxTokens: number; // Input tokens per request; 0 means no limit
+    maxCost: number; // USD per request; 0 means no limit
+    mode: 'warn' | 'block';
+}
+
+export const DEFAULT_REQUEST_BUDGET: RequestBudget = { maxTokens: 0, maxCost: 0, mode: 'warn' };
+
+// A Visual Schema is usually 1-2k tokens
+const EXPECTED_SCHEMA_TOKENS = 1500;
+
+// First match wins, so more specific names come first
+const MODEL_PRICES: [RegExp, ModelPrice][] = [
+    [/gpt-image-1-mini/, { inputPerMillion: 2, outputPerMillion: 0, perImage: 0.011 }],
+    [/gpt-image-1/, { inputPerMillion: 5, outputPerMillion: 0, perImage: 0.042 }],
+    [/dall-e-3/, { inputPerMillion: 0, outputPerMillion: 0, perImage: 0.04 }],
+    [/dall-e-2/, { inputPerMillion: 0, outputPerMillion: 0, perImage: 0.02 }],
+    [/gpt-5-nano/, { inputPerMillion: 0.05, outputPerMillion: 0.4 }],
+    [/gpt-5-mini/, { inputPerMillion: 0.25, outputPerMillion: 2 }],
+    [/gpt-5/, { inputPerMillion: 1.25, outputPerMillion: 10 }],
+    [/gpt-4\.1-nano/, { inputPerMillion: 0.1, outputPerMillion: 0.4 }],
+    [/gpt-4\.1-mini/, { inputPerMillion: 0.4, outputPerMillion: 1.6 }],
+    [/gpt-4\.1/, { inputPerMillion: 2, outputPerMillion: 8 }],
+    [/gpt-4o-mini/, { inputPerMillion: 0.15, outputPerMillion: 0.6 }],
+    [/gpt-4o/, { inputPerMillion: 2.5, outputPerMillion: 10 }],
+    [/o4-mini/, { inputPerMillion: 1.1, outputPerMillion: 4.4 }],
+    [/\bo3\b/, { inputPerMillion: 2, outputPerMillion: 8 }],
+    [/deepseek-reasoner/, { inputPerMillion: 0.55, outputPerMillion: 2.19 }],
+    [/deepseek/, { inputPerMillion: 0.27, outputPerMillion: 1.1 }],
+    [/claude.*opus/, { inputPerMillion: 15, outputPerMillion: 75 }],
+    [/claude.*sonnet/, { inputPerMillion: 3, outputPerMillion: 15 }],
+    [/claude-3-haiku/, { inputPerMillion: 0.25, outputPerMillion: 1.25 }],
+    [/claude.*haiku/, { inputPerMillion: 0.8, outputPerMillion: 4 }],
+    [/gemini-3-pro-image/, { inputPerMillion: 2, outputPerMillion: 12, perImage: 0.134 }],
+    [/gemini-.*-image/, { inputPerMillion: 0.3, outputPerMillion: 2.5, perImage: 0.039 }],
+    [/gemini-3-pro/, { inputPerMillion: 2, outputPerMillion: 12 }],
+    [/gemini-2\.5-pro/, { inputPerMillion: 1.25, outputPerMillion: 10 }],
+    [/gemini-.*flash-lite/, { inputPerMillion: 0.1, outputPerMillion: 0.4 }],
+    [/gemini-2\.5-flash/, { inputPerMillion: 0.3, outputPerMillion: 2.5 }],
+    [/gemini-.*flash/, { inputPerMillion: 0.1, outputPerMillion: 0.4 }],
+];
+
+// Scale down to fit within `maxWidth` x `maxHeight`, keeping the aspect ratio
+function fitWithin({ width, height }: ImageDimensions, maxWidth: number, maxHeight: number): ImageDimensions {
+    const scale = Math.min(1, maxWidth / width, maxHeight / height);
+    return { width: width * scale, height: height * scale };
+}
+
+// OpenAI high detail: fit in 2048x2048, shortest side to 768, then 170 tokens per 512px tile
+function openAIImageTokens(size: ImageDimensions): number {
+    const fitted = fitWithin(size, 2048, 2048);
+    const scale = Math.min(1, 768 / Math.min(fitted.width, fitted.height));
+    const tiles = Math.ceil((fitted.width * scale) / 512) * Math.ceil((fitted.height * scale) / 512);
+    return 85 + 170 * tiles;
+}
+
+// Anthropic: long edge capped at 1568px, then width * height / 750
+function anthropicImageTokens(size: ImageDimensions): number {
+    const { width, height } = fitWithin(size, 1568, 1568);
+    return Math.ceil((width * height) / 750);
+}
+
+// Gemini: 258 tokens for small images, otherwise 258 per 768px tile
+function googleImageTokens({ width, height }: ImageDimensions): number {
+    if (width <= 384 && height <= 384) return 258;
+    return 258 * Math.ceil(width / 768) * Math.ceil(height / 768);
+}
+
+// null: the provider does not send input images for this kind of request
+const IMAGE_TOKEN_ESTIMATORS: Record<ProviderId, ((size: ImageDimensions) => number) | null> = {
+    'openai': openAIImageTokens,
+    'openai-images': null, // /images/generations takes no reference images
+    'google': googleImageTokens,
+    'anthropic': anthropicImageTokens,
+    'ollama': openAIImageTokens,
+    'mock': null,
+};
+
+export function findModelPrice(config: ModelConfig): ModelPrice | null {
+    // Local models and the mock cost nothing per request
+    if (config.provider === 'ollama' || config.provider === 'mock') return { inputPerMillion: 0, outputPerMillion: 0 };
+    const name = config.modelName.toLowerCase();
+    return MODEL_PRICES.find(([pattern]) => pattern.test(name))?.[1] ?? null;
+}
+
+/**
+ * Estimate one request: `text` for schema generation (a schema comes back),
+ * `image` for a render (one image comes back).
+ */
+export function estimateRequest(
+    config: ModelConfig,
+    prompt: string,
+    images: ImageDimensions[],
+    kind: 'text' | 'image'
+): RequestEstimate {
+    const imageTokensFor = IMAGE_TOKEN_ESTIMATORS[config.provider];
+    const imageTokens = imageTokensFor ? images.reduce((sum, size) => sum + imageTokensFor(size), 0) : 0;
+    const inputTokens = estimateTokens(prompt) + imageTokens;
+    const outputTokens = kind === 'text' ? EXPECTED_SCHEMA_TOKENS : 0;
+
+    const price = findModelPrice(config);
+    const cost = price
+        ? (inputTokens * price.inputPerMillion + outputTokens * price.outputPerMillion) / 1_000_000
+            + (kind === 'image' ? price.perImage ?? 0 : 0)
+        : null;
+    return { inputTokens, imageTokens, outputTokens, cost };
+}
+
+/** Combined estimate for a batch, e.g. render variants; cost is unknown if any part is */
+export function sumEstimates(estimates: RequestEstimate[]): RequestEstimate {
+    return estimates.reduce((total, e) => ({
+        inputTokens: total.inputTokens + e.inputTokens,
+        imageTokens: total.imageTokens + e.imageTokens,
+        outputTokens: total.outputTokens + e.outputTokens,
+        cost: total.cost === null || e.cost === null ? null : total.cost + e.cost,
+    }), { inputTokens: 0, imageTokens: 0, outputTokens: 0, cost: 0 } as RequestEstimate);
+}
+
+/**
+ * Which budget limits the estimate exceeds. An unknown cost never counts as
+ * over budget.
+ */
+export function exceededBudgetLimits(estimate: RequestEstimate, budget: RequestBudget): ('tokens' | 'cost')[] {
+    const exceeded: ('tokens' | 'cost')[] = [];
+    if (budget.maxTokens > 0 && estimate.inputTokens > budget.maxTokens) exceeded.push('tokens');
+    if (budget.maxCost > 0 && estimate.cost !== null && estimate.cost > budget.maxCost) exceeded.push('cost');
+    return exceeded;
+}
+
+export function formatCost(cost: number | null): string {
+    if (cost === null) return '$?';
+    if (cost === 0) return '$0';
+    if (cost < 0.01) return '<$0.01';
+    return `$${cost.toFixed(2)}`;
+}
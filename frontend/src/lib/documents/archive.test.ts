@@ -0,0 +1,169 @@
+import { deflateRawSync, gzipSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { ArchiveEntry, MAX_ARCHIVE_ENTRY_BYTES, readArchive, readTar, readZip } from './archive';
+
+const utf8 = new TextEncoder();
+
+interface ZipFile {
+    path: string;
+    text: string;
+    method?: 0 | 8; // Stored or deflated
+}
+
+// Local headers, then the central directory and its end record; no CRCs, which the reader doesn't check
+function buildZip(files: ZipFile[], comment = ''): ArrayBuffer {
+    const chunks: Uint8Array[] = [];
+    const central: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const { path, text, method = 0 } of files) {
+        const name = utf8.encode(path);
+        const raw = utf8.encode(text);
+        const data = method === 8 ? new Uint8Array(deflateRawSync(raw)) : raw;
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, 0x04034b50, true);
+        local.setUint16(8, method, true);
+        local.setUint32(18, data.length, true);
+        local.setUint32(22, raw.length, true);
+        local.setUint16(26, name.length, true);
+        chunks.push(new Uint8Array(local.buffer), name, data);
+
+        const header = new DataView(new ArrayBuffer(46));
+        header.setUint32(0, 0x02014b50, true);
+        header.setUint16(10, method, true);
+        header.setUint32(20, data.length, true);
+        header.setUint32(24, raw.length, true);
+        header.setUint16(28, name.length, true);
+        header.setUint32(42, offset, true);
+        central.push(new Uint8Array(header.buffer), name);
+
+        offset += 30 + name.length + data.length;
+    }
+
+    const centralSize = central.reduce((sum, chunk) => sum + chunk.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(10, files.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+    end.setUint16(20, comment.length, true);
+
+    const bytes = concat([...chunks, ...central, new Uint8Array(end.buffer), utf8.encode(comment)]);
+    return bytes.buffer as ArrayBuffer;
+}
+
+interface TarFile {
+    path: string;
+    text: string;
+    type?: string;
+    prefix?: string;
+}
+
+function buildTar(files: TarFile[]): Uint8Array {
+    const blocks: Uint8Array[] = [];
+    for (const { path, text, type = '0', prefix = '' } of files) {
+        const data = utf8.encode(text);
+        const header = new Uint8Array(512);
+        header.set(utf8.encode(path.slice(0, 100)), 0);
+        header.set(utf8.encode(data.length.toString(8).padStart(11, '0')), 124);
+        header[156] = type.charCodeAt(0);
+        header.set(utf8.encode(prefix), 345);
+        const body = new Uint8Array(Math.ceil(data.length / 512) * 512);
+        body.set(data);
+        blocks.push(header, body);
+    }
+    return concat([...blocks, new Uint8Array(1024)]);
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+        result.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return result;
+}
+
+async function readAll(entries: ArchiveEntry[]): Promise<Record<string, string>> {
+    const decoder = new TextDecoder();
+    const files: Record<string, string> = {};
+    for (const entry of entries) files[entry.path] = decoder.decode(await entry.read());
+    return files;
+}
+
+describe('readZip', () => {
+    it('reads stored and deflated entries, skipping folders and macOS noise', async () => {
+        const entries = readZip(buildZip([
+            { path: './paper/main.tex', text: '\\documentclass{article}' },
+            { path: 'paper/sections/', text: '' },
+            { path: 'paper\\sections\\intro.tex', text: 'Intro '.repeat(50), method: 8 },
+            { path: '__MACOSX/paper/._main.tex', text: 'fork' },
+            { path: 'paper/._main.tex', text: 'fork' },
+        ], 'exported by a tool'));
+
+        expect(entries.map((e) => [e.path, e.size])).toEqual([
+            ['paper/main.tex', 23],
+            ['paper/sections/intro.tex', 300],
+        ]);
+        expect(await readAll(entries)).toEqual({
+            'paper/main.tex': '\\documentclass{article}',
+            'paper/sections/intro.tex': 'Intro '.repeat(50),
+        });
+    });
+
+    it('rejects files that are not zips', () => {
+        expect(() => readZip(new Uint8Array(64).buffer)).toThrow('Not a zip archive');
+    });
+
+    it('refuses unsupported compression and oversized entries when read', async () => {
+        const buffer = buildZip([{ path: 'a.tex', text: 'x' }, { path: 'b.tex', text: 'y' }]);
+        const view = new DataView(buffer);
+        // Second central directory record: compression method, then uncompressed size
+        const second = buffer.byteLength - 22 - 46 - 'b.tex'.length;
+        view.setUint16(second + 10, 12, true);
+        const first = second - 46 - 'a.tex'.length;
+        view.setUint32(first + 24, MAX_ARCHIVE_ENTRY_BYTES + 1, true);
+
+        const [a, b] = readZip(buffer);
+        await expect(a.read()).rejects.toThrow('a.tex is too large to extract');
+        await expect(b.read()).rejects.toThrow('b.tex uses an unsupported zip compression method (12)');
+    });
+});
+
+describe('readTar', () => {
+    it('reads files with ustar prefixes and GNU long names, skipping other entry types', async () => {
+        const longPath = `project/${'nested/'.repeat(20)}deep.tex`;
+        const entries = readTar(buildTar([
+            { path: 'project/', text: '', type: '5' },
+            { path: 'main.tex', text: 'Main', prefix: 'project' },
+            { path: '././@LongLink', text: `${longPath}\0`, type: 'L' },
+            { path: longPath.slice(0, 100), text: 'Deep' },
+            { path: 'link.tex', text: '', type: '2' },
+        ]));
+
+        expect(await readAll(entries)).toEqual({ 'project/main.tex': 'Main', [longPath]: 'Deep' });
+    });
+
+    it('takes the path from pax headers', async () => {
+        const entries = readTar(buildTar([
+            { path: 'PaxHeader', text: '30 path=paper/figs/overview.png\n', type: 'x' },
+            { path: 'overview.png', text: 'png' },
+        ]));
+        expect(entries.map((e) => e.path)).toEqual(['paper/figs/overview.png']);
+    });
+});
+
+describe('readArchive', () => {
+    it('picks the reader from the file name', async () => {
+        const tar = buildTar([{ path: 'main.tex', text: 'Main' }]);
+        const zip = new File([buildZip([{ path: 'main.tex', text: 'Main' }])], 'Paper.ZIP');
+        const tgz = new File([new Uint8Array(gzipSync(tar))], 'paper.tar.gz');
+
+        expect(await readAll(await readArchive(zip))).toEqual({ 'main.tex': 'Main' });
+        expect(await readAll(await readArchive(tgz))).toEqual({ 'main.tex': 'Main' });
+        expect(await readAll(await readArchive(new File([tar as BlobPart], 'paper.tar')))).toEqual({ 'main.tex': 'Main' });
+        await expect(readArchive(new File(['x'], 'paper.rar'))).rejects.toThrow('Unsupported archive: paper.rar');
+    });
+});
@@ -0,0 +1,140 @@
+/**
+ * Minimal readers for .zip, .tar and .tar.gz archives, using the browser's
+ * DecompressionStream. Zip entries are inflated only when read, so large
+ * unused files in a project export cost nothing.
+ */
+
+export interface ArchiveEntry {
+    path: string; // Forward slashes, no leading "./"
+    size: number; // Uncompressed bytes
+    read: () => Promise<Uint8Array>;
+}
+
+// Refuse to inflate anything larger; LaTeX sources and figures are far smaller
+export const MAX_ARCHIVE_ENTRY_BYTES = 50 * 1024 * 1024;
+
+const utf8 = new TextDecoder();
+
+async function decompress(data: Uint8Array, format: CompressionFormat): Promise<Uint8Array> {
+    const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream(format));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function normalizePath(path: string): string {
+    return path.replace(/\\/g, '/').replace(/^(?:\.\/)+/, '').replace(/^\/+/, '');
+}
+
+// Skip macOS resource forks and similar noise found in exported archives
+function isIgnoredPath(path: string): boolean {
+    return path.endsWith('/') || path.startsWith('__MACOSX/') || /(?:^|\/)\._/.test(path);
+}
+
+export function readZip(buffer: ArrayBuffer): ArchiveEntry[] {
+    const bytes = new Uint8Array(buffer);
+    const view = new DataView(buffer);
+
+    // End of central directory record, followed by an optional comment of up to 64 KiB
+    let eocd = -1;
+    for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+        if (view.getUint32(i, true) === 0x06054b50) {
+            eocd = i;
+            break;
+        }
+    }
+    if (eocd === -1) throw new Error('Not a zip archive');
+
+    const count = view.getUint16(eocd + 10, true);
+    let offset = view.getUint32(eocd + 16, true);
+    const entries: ArchiveEntry[] = [];
+
+    for (let i = 0; i < count; i++) {
+        if (view.getUint32(offset, true) !== 0x02014b50) throw new Error('Corrupt zip central directory');
+        const method = view.getUint16(offset + 10, true);
+        const compressedSize = view.getUint32(offset + 20, true);
+        const size = view.getUint32(offset + 24, true);
+        const nameLength = view.getUint16(offset + 28, true);
+        const extraLength = view.getUint16(offset + 30, true);
+        const commentLength = view.getUint16(offset + 32, true);
+        const localOffset = view.getUint32(offset + 42, true);
+        const path = normalizePath(utf8.decode(bytes.subarray(offset + 46, offset + 46 + nameLength)));
+        offset += 46 + nameLength + extraLength + commentLength;
+
+        if (isIgnoredPath(path)) continue;
+        if (compressedSize === 0xffffffff || localOffset === 0xffffffff) {
+            throw new Error('Zip64 archives are not supported');
+        }
+
+        entries.push({
+            path,
+            size,
+            read: async () => {
+                if (size > MAX_ARCHIVE_ENTRY_BYTES) throw new Error(`${path} is too large to extract`);
+                const dataStart = localOffset + 30
+                    + view.getUint16(localOffset + 26, true)
+                    + view.getUint16(localOffset + 28, true);
+                const data = bytes.subarray(dataStart, dataStart + compressedSize);
+                if (method === 0) return data;
+                if (method === 8) return decompress(data, 'deflate-raw');
+                throw new Error(`${path} uses an unsupported zip compression method (${method})`);
+            },
+        });
+    }
+    return entries;
+}
+
+function readOctal(bytes: Uint8Array, start: number, length: number): number {
+    const text = utf8.decode(bytes.subarray(start, start + length)).replace(/\0.*$/, '').trim();
+    return text ? parseInt(text, 8) : 0;
+}
+
+function readString(bytes: Uint8Array, start: number, length: number): string {
+    return utf8.decode(bytes.subarray(start, start + length)).replace(/\0.*$/, '');
+}
+
+export function readTar(bytes: Uint8Array): ArchiveEntry[] {
+    const entries: ArchiveEntry[] = [];
+    let offset = 0;
+    let longName: string | null = null;
+
+    while (offset + 512 <= bytes.length) {
+        const header = bytes.subarray(offset, offset + 512);
+        if (header.every((b) => b === 0)) break;
+
+        const size = readOctal(header, 124, 12);
+        const type = String.fromCharCode(header[156]);
+        const prefix = readString(header, 345, 155);
+        const name = readString(header, 0, 100);
+        const dataStart = offset + 512;
+        const data = bytes.subarray(dataStart, dataStart + size);
+        offset = dataStart + Math.ceil(size / 512) * 512;
+
+        // GNU long names and pax "path" records name the entry that follows
+        if (type === 'L') {
+            longName = readString(data, 0, data.length);
+            continue;
+        }
+        if (type === 'x') {
+            const path = utf8.decode(data).match(/(?:^|\n)\d+ path=([^\n]*)\n/);
+            if (path) longName = path[1];
+            continue;
+        }
+
+        const path = normalizePath(longName ?? (prefix ? `${prefix}/${name}` : name));
+        longName = null;
+        if ((type !== '0' && type !== '\0') || isIgnoredPath(path)) continue;
+        entries.push({ path, size, read: async () => data });
+    }
+    return entries;
+}
+
+/** Entries of a .zip, .tar, .tar.gz or .tgz file */
+export async function readArchive(file: File): Promise<ArchiveEntry[]> {
+    const name = file.name.toLowerCase();
+    const buffer = await file.arrayBuffer();
+    if (name.endsWith('.zip')) return readZip(buffer);
+    if (name.endsWith('.tar.gz') || name.endsWith('.tgz')) {
+        return readTar(await decompress(new Uint8Array(buffer), 'gzip'));
+    }
+    if (name.endsWith('.tar')) return readTar(new Uint8Array(buffer));
+    throw new Error(`Unsupported archive: ${file.name}`);
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import type { ArchiveEntry } from './archive';
+import { readDocx } from './docx';
+
+function entry(path: string, text: string): ArchiveEntry {
+    const data = new TextEncoder().encode(text);
+    return { path, size: data.length, read: async () => data };
+}
+
+function paragraph(runs: string, style = ''): string {
+    const properties = style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : '';
+    return `<w:p>${properties}${runs}</w:p>`;
+}
+
+const text = (value: string) => `<w:r><w:t xml:space="preserve">${value}</w:t></w:r>`;
+const image = (rId: string) => `<w:r><w:drawing><a:blip r:embed="${rId}"/></w:drawing></w:r>`;
+
+function documentXml(paragraphs: string[]): string {
+    return `<?xml version="1.0" encoding="UTF-8"?><w:document><w:body>${paragraphs.join('')}</w:body></w:document>`;
+}
+
+const RELS = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships>
+    <Relationship Id="rId5" Type="image" Target="media/image1.png"/>
+    <Relationship Id="rId6" Type="image" Target="/word/media/image2.png"/>
+    <Relationship Id="rId7" Type="image" Target="media/missing.png"/>
+</Relationships>`;
+
+describe('readDocx', () => {
+    it('reads headings, paragraphs and captioned images', async () => {
+        const { text: markdown, figures } = await readDocx([
+            entry('word/document.xml', documentXml([
+                paragraph(text('Learning to Draw'), 'Title'),
+                paragraph(text('Method'), 'Heading1'),
+                paragraph(text('We &amp; they') + text(' draw &lt;fast&gt;.') + '<w:r><w:tab/></w:r>' + text('Done')),
+                paragraph(image('rId5')),
+                paragraph(text('Figure 1: The pipeline.'), 'Caption'),
+                paragraph(text('Results'), 'heading 2'),
+                paragraph(image('rId6') + image('rId7')),
+                paragraph(''),
+            ])),
+            entry('word/_rels/document.xml.rels', RELS),
+            entry('word/media/image1.png', 'png'),
+            entry('word/media/image2.png', 'png'),
+        ]);
+
+        expect(markdown).toBe([
+            '# Learning to Draw',
+            '## Method',
+            'We & they draw <fast>.\tDone',
+            'Figure 1: The pipeline.',
+            '### Results',
+        ].join('\n\n'));
+        // The image whose file is missing from the archive is skipped
+        expect(figures).toEqual([
+            { caption: 'Figure 1: The pipeline.', path: 'word/media/image1.png' },
+            { caption: '', path: 'word/media/image2.png' },
+        ]);
+    });
+
+    it('reads documents without relationships', async () => {
+        const { text: markdown, figures } = await readDocx([
+            entry('word/document.xml', documentXml([paragraph(text('Only text') + image('rId5'))])),
+        ]);
+        expect(markdown).toBe('Only text');
+        expect(figures).toEqual([]);
+    });
+
+    it('rejects archives that are not Word documents', async () => {
+        await expect(readDocx([entry('main.tex', '')]))
+            .rejects.toThrow('Not a Word document (word/document.xml is missing)');
+    });
+});
@@ -0,0 +1,91 @@
+import type { ArchiveEntry } from './archive';
+
+/**
+ * Word (.docx) import: paragraph text with headings as markdown, plus the
+ * embedded images paired with the caption paragraph that follows them.
+ */
+
+export interface DocxFigure {
+    caption: string;
+    path: string; // Archive path of the image, e.g. "word/media/image1.png"
+}
+
+export interface DocxConversion {
+    text: string;
+    figures: DocxFigure[];
+}
+
+const PARAGRAPH_PATTERN = /<w:p[ >][\s\S]*?<\/w:p>/g;
+const STYLE_PATTERN = /<w:pStyle w:val="([^"]*)"/;
+const RUN_TEXT_PATTERN = /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:(tab|br)\/>/g;
+const EMBED_PATTERN = /r:embed="([^"]+)"/g;
+
+function decodeXml(text: string): string {
+    return text
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+        .replace(/&#x([0-9a-f]+);/gi, (_, code: string) => String.fromCodePoint(parseInt(code, 16)))
+        .replace(/&amp;/g, '&');
+}
+
+// "Heading2" / "heading 2" -> "###"; the document title is "#"
+function headingPrefix(style: string): string | null {
+    if (/^title$/i.test(style)) return '#';
+    const heading = style.match(/^heading\s*(\d)$/i);
+    return heading ? '#'.repeat(Math.min(Number(heading[1]) + 1, 6)) : null;
+}
+
+export async function readDocx(entries: ArchiveEntry[]): Promise<DocxConversion> {
+    const byPath = new Map(entries.map((e) => [e.path, e]));
+    const documentEntry = byPath.get('word/document.xml');
+    if (!documentEntry) throw new Error('Not a Word document (word/document.xml is missing)');
+    const decoder = new TextDecoder();
+    const xml = decoder.decode(await documentEntry.read());
+
+    // Relationship ids point embedded images at files under word/
+    const rels = new Map<string, string>();
+    const relsEntry = byPath.get('word/_rels/document.xml.rels');
+    if (relsEntry) {
+        const relsXml = decoder.decode(await relsEntry.read());
+        for (const rel of relsXml.matchAll(/<Relationship\s[^>]*>/g)) {
+            const id = rel[0].match(/Id="([^"]+)"/)?.[1];
+            const target = rel[0].match(/Target="([^"]+)"/)?.[1];
+            if (id && target) rels.set(id, target.startsWith('/') ? target.slice(1) : `word/${target}`);
+        }
+    }
+
+    const blocks: string[] = [];
+    const figures: DocxFigure[] = [];
+    let uncaptioned: DocxFigure[] = [];
+
+    for (const paragraph of xml.matchAll(PARAGRAPH_PATTERN)) {
+        const content = paragraph[0];
+        const style = content.match(STYLE_PATTERN)?.[1] ?? '';
+        const text = decodeXml(
+            [...content.matchAll(RUN_TEXT_PATTERN)]
+                .map((run) => (run[2] === 'tab' ? '\t' : run[2] === 'br' ? '\n' : run[1]))
+                .join('')
+        ).trim();
+
+        for (const embed of content.matchAll(EMBED_PATTERN)) {
+            const path = rels.get(embed[1]);
+            if (!path || !byPath.has(path)) continue;
+            const figure = { caption: '', path };
+            figures.push(figure);
+            uncaptioned.push(figure);
+        }
+
+        if (!text) continue;
+        if (/^caption$/i.test(style)) {
+            for (const figure of uncaptioned) figure.caption = text;
+            uncaptioned = [];
+        }
+        const prefix = headingPrefix(style);
+        blocks.push(prefix ? `${prefix} ${text}` : text);
+    }
+
+    return { text: blocks.join('\n\n'), figures };
+}
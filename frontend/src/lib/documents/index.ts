@@ -0,0 +1,104 @@
+import { importPdf } from '@/lib/pdf';
+import { ArchiveEntry, readArchive, readZip } from './archive';
+import { readDocx } from './docx';
+import { latexToText, readLatexProject, resolveProjectPath } from './latex';
+
+/**
+ * Text documents and LaTeX projects for the Architect step: .tex, .md,
+ * .docx, and .zip / .tar / .tar.gz project exports (e.g. from Overleaf or
+ * arXiv source downloads).
+ */
+
+export interface ImportedFigure {
+    caption: string;
+    image: Blob | string; // Blob, or a data URL for rendered PDF figures
+}
+
+export interface ImportedDocument {
+    text: string;
+    figures: ImportedFigure[]; // Candidate reference images
+    sourcePath?: string; // Main .tex file, for archives
+}
+
+export const DOCUMENT_EXTENSIONS = ['.tex', '.md', '.markdown', '.txt', '.docx', '.zip', '.tar', '.tar.gz', '.tgz'];
+
+// Enough to show the paper's own figures without flooding the picker
+const MAX_FIGURES = 12;
+const GRAPHIC_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.pdf', '.gif', '.webp', '.svg'];
+const IMAGE_MIME_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    svg: 'image/svg+xml',
+};
+
+export function isDocumentFile(name: string): boolean {
+    const lower = name.toLowerCase();
+    return DOCUMENT_EXTENSIONS.some((ext) => lower.endsWith(ext));
+}
+
+// Figures are often PDFs in LaTeX projects; those are rendered to PNG
+async function toFigureImage(path: string, data: Uint8Array): Promise<Blob | string | null> {
+    const ext = path.split('.').pop()!.toLowerCase();
+    if (IMAGE_MIME_TYPES[ext]) return new Blob([data as BlobPart], { type: IMAGE_MIME_TYPES[ext] });
+    if (ext === 'pdf') {
+        const file = new File([data as BlobPart], path.split('/').pop()!, { type: 'application/pdf' });
+        const { images } = await importPdf(file, { mode: 'images', pageRange: '1' });
+        return images[0] ?? null;
+    }
+    return null;
+}
+
+async function importLatexEntries(entries: ArchiveEntry[]): Promise<ImportedDocument> {
+    const { mainPath, source } = await readLatexProject(entries);
+    const { text, figures, graphicsPaths } = latexToText(source);
+    const byPath = new Map(entries.map((e) => [e.path, e]));
+    const base = mainPath.slice(0, mainPath.lastIndexOf('/') + 1);
+
+    const imported: ImportedFigure[] = [];
+    for (const figure of figures) {
+        for (const graphic of figure.graphics) {
+            if (imported.length >= MAX_FIGURES) break;
+            const path = ['', ...graphicsPaths]
+                .map((dir) => resolveProjectPath(base + dir, graphic, GRAPHIC_EXTENSIONS, (p) => byPath.has(p)))
+                .find(Boolean);
+            if (!path) continue;
+            try {
+                const image = await toFigureImage(path, await byPath.get(path)!.read());
+                if (image) imported.push({ caption: figure.caption, image });
+            } catch (error) {
+                // One unreadable figure shouldn't fail the whole import
+                console.warn(`Skipping figure ${path}:`, error);
+            }
+        }
+    }
+    return { text, figures: imported, sourcePath: mainPath };
+}
+
+async function importDocxEntries(entries: ArchiveEntry[]): Promise<ImportedDocument> {
+    const { text, figures } = await readDocx(entries);
+    const byPath = new Map(entries.map((e) => [e.path, e]));
+    const imported: ImportedFigure[] = [];
+    for (const figure of figures.slice(0, MAX_FIGURES)) {
+        const image = await toFigureImage(figure.path, await byPath.get(figure.path)!.read());
+        if (image) imported.push({ caption: figure.caption, image });
+    }
+    return { text, figures: imported };
+}
+
+export async function importDocument(file: File): Promise<ImportedDocument> {
+    const name = file.name.toLowerCase();
+    if (name.endsWith('.tex')) {
+        const { text } = latexToText(await file.text());
+        return { text, figures: [] };
+    }
+    if (name.endsWith('.docx')) {
+        return importDocxEntries(readZip(await file.arrayBuffer()));
+    }
+    if (name.endsWith('.zip') || name.endsWith('.tar') || name.endsWith('.tar.gz') || name.endsWith('.tgz')) {
+        return importLatexEntries(await readArchive(file));
+    }
+    return { text: await file.text(), figures: [] };
+}
@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import type { ArchiveEntry } from './archive';
+import { latexToText, readBraced, readLatexProject, resolveProjectPath } from './latex';
+
+function entry(path: string, text: string): ArchiveEntry {
+    const data = new TextEncoder().encode(text);
+    return { path, size: data.length, read: async () => data };
+}
+
+function body(content: string, preamble = ''): string {
+    return `\\documentclass{article}\n${preamble}\n\\begin{document}\n${content}\n\\end{document}`;
+}
+
+describe('readBraced', () => {
+    it('reads nested groups and skips escaped braces', () => {
+        const text = 'x{a {b} \\} c}d';
+        expect(readBraced(text, 1)).toEqual({ content: 'a {b} \\} c', end: 13 });
+        expect(readBraced(text, 0)).toBeNull();
+        expect(readBraced('{open', 0)).toBeNull();
+    });
+});
+
+describe('latexToText', () => {
+    it('converts the title, abstract, sections and inline markup', () => {
+        const { text } = latexToText(body([
+            '\\maketitle',
+            '\\begin{abstract}We \\emph{draw}~diagrams.\\end{abstract}',
+            '\\section{Method}\\label{sec:method}',
+            'See Section~\\ref{sec:method} and \\cite{doe}.\\footnote{A note.}',
+            '\\paragraph{Encoder.} It encodes.',
+            '\\begin{itemize}\\item First \\item[Second] Two\\end{itemize}',
+        ].join('\n'), '\\title{Learning \\textbf{to} Draw}'));
+
+        expect(text).toBe([
+            '# Learning to Draw',
+            '',
+            '## Abstract',
+            'We draw diagrams.',
+            '',
+            '## Method',
+            '',
+            'See Section sec:method and .',
+            '',
+            '**Encoder.** It encodes.',
+            '',
+            '- First',
+            '- Second: Two',
+        ].join('\n'));
+    });
+
+    it('expands macros with and without arguments', () => {
+        const preamble = [
+            '\\newcommand{\\method}{FooNet\\xspace}',
+            '\\newcommand{\\ie}{i.e.,}',
+            '\\newcommand{\\pair}[2]{(#1, #2)}',
+            '\\renewcommand*\\note[2][Note]{#1: #2}',
+            '\\def\\twice#1{#1#1}',
+            '\\newcommand{\\best}[1]{\\textbf{\\method{} on #1}}',
+        ].join('\n');
+        const { text } = latexToText(body([
+            '\\method is fast, \\ie{} quick.',
+            '\\pair{a}{\\emph{b}} \\pair x y',
+            '\\note{plain} \\note[Tip]{bold}',
+            '\\twice{ab} \\best{CIFAR}',
+        ].join('\n'), preamble));
+
+        expect(text).toBe([
+            'FooNet is fast, i.e., quick.',
+            '(a, b) (x, y)',
+            'Note: plain Tip: bold',
+            'abab FooNet on CIFAR',
+        ].join('\n'));
+    });
+
+    it('unwraps or drops commands it does not know, but leaves math alone', () => {
+        const { text } = latexToText(body([
+            'Some \\textcolor{blue}{blue text}\\todo{fix this} and \\colorbox{yellow}{marked}.',
+            'A \\newterm{term} with \\LaTeX\\ and \\unknown[opt]{args}{twice}.',
+            '\\begin{quote}Quoted \\{braces\\}.\\end{quote}',
+            'Inline $\\mathbf{x} = \\frac{a}{b}$ and \\$5, line\\\\[2pt]break.',
+            '\\begin{equation} \\hat{y} = f(x)\\end{equation}',
+        ].join('\n')));
+
+        expect(text).toBe([
+            'Some blue text and marked.',
+            'A term with and argstwice.',
+            'Quoted {braces}.',
+            'Inline $\\mathbf{x} = \\frac{a}{b}$ and $5, line',
+            'break.',
+            '\\begin{equation} \\hat{y} = f(x)\\end{equation}',
+        ].join('\n'));
+    });
+
+    it('collects figure captions with nested braces and graphics paths', () => {
+        const { text, figures, graphicsPaths } = latexToText(body([
+            'Intro.',
+            '\\begin{figure*}[t]',
+            '\\centering',
+            '\\includegraphics[width=\\linewidth]{figs/overview}',
+            '\\caption[Short]{The \\textbf{overall {pipeline}} of \\method{}.}',
+            '\\label{fig:overview}',
+            '\\end{figure*}',
+            '\\begin{table}\\caption{Results}\\end{table}',
+            '\\begin{figure}\\includegraphics{a.png}\\end{figure}',
+        ].join('\n'), '\\graphicspath{{figs/}{images/}}\n\\newcommand{\\method}{FooNet}'));
+
+        expect(figures).toEqual([
+            { caption: 'The overall pipeline of FooNet.', label: 'fig:overview', graphics: ['figs/overview'] },
+            { caption: 'Results', label: '', graphics: [] },
+            { caption: '', label: '', graphics: ['a.png'] },
+        ]);
+        expect(graphicsPaths).toEqual(['figs/', 'images/']);
+        expect(text).toBe('Intro.\n\n## Figure and Table Captions\n\nThe overall pipeline of FooNet.\n\nResults');
+    });
+});
+
+describe('resolveProjectPath', () => {
+    const files = new Set(['paper/sections/method.tex', 'paper/figs/a.pdf']);
+    const exists = (p: string) => files.has(p);
+
+    it('resolves relative paths and tries each extension', () => {
+        expect(resolveProjectPath('paper/', 'sections/method', ['.tex'], exists)).toBe('paper/sections/method.tex');
+        expect(resolveProjectPath('paper/sections/', '../figs/./a', ['.png', '.pdf'], exists)).toBe('paper/figs/a.pdf');
+        expect(resolveProjectPath('paper/', 'missing', ['.tex'], exists)).toBeNull();
+    });
+});
+
+describe('readLatexProject', () => {
+    it('picks the main file and inlines nested inputs', async () => {
+        const { mainPath, source } = await readLatexProject([
+            entry('src/notes.tex', '\\documentclass{article}\nNotes'),
+            entry('src/main.tex', body('\\input{sections/intro}\n% \\input{sections/old}\n\\include{sections/method.tex}')),
+            entry('src/sections/intro.tex', 'Intro \\input{sections/detail}'),
+            entry('src/sections/detail.tex', 'Detail'),
+            entry('src/sections/method.tex', 'Method'),
+            entry('src/sections/old.tex', 'Old'),
+        ]);
+
+        expect(mainPath).toBe('src/main.tex');
+        expect(source).toContain('Intro \nDetail\n');
+        expect(source).toContain('\nMethod\n');
+        expect(source).not.toContain('Old');
+    });
+
+    it('drops missing and self-referencing inputs', async () => {
+        const { source } = await readLatexProject([
+            entry('paper.tex', body('A \\input{missing} B \\input{loop}')),
+            entry('loop.tex', 'Loop \\input{loop}'),
+        ]);
+        expect(latexToText(source).text).toBe('A B\nLoop');
+    });
+
+    it('fails without a \\documentclass file', async () => {
+        await expect(readLatexProject([entry('intro.tex', '% \\documentclass{article}')]))
+            .rejects.toThrow('No .tex file with \\documentclass found in the archive');
+    });
+});
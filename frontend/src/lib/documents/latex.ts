@@ -0,0 +1,346 @@
+import type { ArchiveEntry } from './archive';
+
+/**
+ * LaTeX source handling: find the main file of a project, inline its
+ * \input / \include files, and turn the body into markdown-like text the
+ * logic model reads easily. Math is left as LaTeX.
+ */
+
+export interface LatexFigure {
+    caption: string;
+    label: string;
+    graphics: string[]; // \includegraphics paths, as written
+}
+
+export interface LatexConversion {
+    text: string;
+    figures: LatexFigure[];
+    graphicsPaths: string[]; // Directories from \graphicspath
+}
+
+interface LatexMacro {
+    params: number;
+    optionalDefault: string | null; // Set when the first argument is optional
+    body: string; // With #1..#n for the arguments
+}
+
+const MAX_INPUT_DEPTH = 10;
+// Skip generated or vendored .tex files that would never be the paper itself
+const MAX_TEX_FILE_BYTES = 5 * 1024 * 1024;
+const MAIN_FILE_NAMES = ['main.tex', 'paper.tex', 'ms.tex', 'manuscript.tex'];
+
+const OPTIONAL_ARGUMENT_PATTERN = /\s*\[([^\]]*)\]/y;
+// An undelimited argument is a single token: a command or one character
+const TOKEN_ARGUMENT_PATTERN = /\s*(\\[a-zA-Z]+|\\?[^\s{}\\])/y;
+// `\\` and `\$` come first so their backslashes and dollars aren't read as math delimiters
+const MATH_PATTERN = /\\\\|\\\$|\$\$[\s\S]*?\$\$|\$(?:\\.|[^$\\])+\$|\\\([\s\S]*?\\\)|\\\[[\s\S]*?\\\]|\\begin\{((?:equation|align|alignat|gather|multline|eqnarray|displaymath|math)\*?)\}[\s\S]*?\\end\{\1\}/g;
+const FIGURE_ENV_PATTERN = /\\begin\{(figure\*?|wrapfigure|table\*?)\}([\s\S]*?)\\end\{\1\}/g;
+const INCLUDE_GRAPHICS_PATTERN = /\\includegraphics\s*(?:\[[^\]]*\])?\s*\{([^}]+)\}/g;
+const SECTION_COMMANDS: Record<string, string> = {
+    chapter: '#',
+    section: '##',
+    subsection: '###',
+    subsubsection: '####',
+};
+const TEXT_FORMAT_COMMANDS = [
+    'textbf', 'textit', 'emph', 'underline', 'texttt', 'textsc', 'textsf', 'textrm', 'textnormal', 'mbox', 'text',
+];
+const DROPPED_COMMANDS = [
+    'label', 'vspace', 'hspace', 'bibliographystyle', 'bibliography', 'thanks', 'footnote', 'affil', 'email',
+    'addbibresource', 'nocite', 'pagestyle', 'thispagestyle', 'setlength', 'setcounter',
+    'todo', 'marginpar', 'color', 'includegraphics',
+];
+const DROPPED_WORDS = [
+    'maketitle', 'centering', 'noindent', 'clearpage', 'newpage', 'cleardoublepage', 'tableofcontents',
+    'raggedright', 'small', 'footnotesize', 'normalsize', 'large', 'Large', 'par', 'medskip',
+    'smallskip', 'bigskip', 'hline', 'toprule', 'midrule', 'bottomrule',
+];
+
+/** Contents of the brace group opening at `open`, allowing nested braces */
+export function readBraced(text: string, open: number): { content: string; end: number } | null {
+    if (text[open] !== '{') return null;
+    let depth = 0;
+    for (let i = open; i < text.length; i++) {
+        if (text[i] === '\\') {
+            i++;
+        } else if (text[i] === '{') {
+            depth++;
+        } else if (text[i] === '}' && --depth === 0) {
+            return { content: text.slice(open + 1, i), end: i + 1 };
+        }
+    }
+    return null;
+}
+
+export function stripLatexComments(text: string): string {
+    return text
+        .split('\n')
+        .map((line) => line.replace(/(^|[^\\])%.*$/, '$1'))
+        .join('\n');
+}
+
+/**
+ * Replace each `\command[opt]{arg}` with `replace(arg)`, handling nested
+ * braces inside the argument.
+ */
+function replaceCommand(text: string, names: string[], replace: (arg: string) => string): string {
+    const pattern = new RegExp(`\\\\(${names.join('|')})\\*?\\s*(?:\\[[^\\]]*\\])?\\s*\\{`, 'g');
+    let result = '';
+    let last = 0;
+    for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+        const group = readBraced(text, match.index + match[0].length - 1);
+        if (!group) continue;
+        result += text.slice(last, match.index) + replace(group.content);
+        last = group.end;
+        pattern.lastIndex = group.end;
+    }
+    return result + text.slice(last);
+}
+
+/**
+ * \newcommand, \providecommand and \def macros, and the source with their
+ * definitions cut out so they aren't expanded in place.
+ */
+function collectMacros(source: string): { macros: Map<string, LatexMacro>; rest: string } {
+    const macros = new Map<string, LatexMacro>();
+    const pattern = /\\(?:(?:(?:re)?newcommand|providecommand)\*?\s*\{?\\([a-zA-Z]+)\}?\s*(?:\[(\d)\])?\s*(?:\[([^\]]*)\])?|def\s*\\([a-zA-Z]+)((?:#\d)*))\s*\{/g;
+    let rest = '';
+    let last = 0;
+    for (let match = pattern.exec(source); match; match = pattern.exec(source)) {
+        const body = readBraced(source, match.index + match[0].length - 1);
+        if (!body) continue;
+        macros.set(match[1] ?? match[4], {
+            params: match[1] ? Number(match[2] ?? 0) : match[5].length / 2,
+            optionalDefault: match[1] && match[2] && match[3] !== undefined ? match[3] : null,
+            body: body.content,
+        });
+        rest += source.slice(last, match.index);
+        last = body.end;
+        pattern.lastIndex = body.end;
+    }
+    return { macros, rest: rest + source.slice(last) };
+}
+
+// Read the arguments of a macro used at `start` and substitute them into its body
+function applyMacro(text: string, start: number, macro: LatexMacro): { text: string; end: number } | null {
+    // "\ie{}" is the usual way to keep the space after an argument-free macro
+    if (macro.params === 0) return { text: macro.body, end: text.startsWith('{}', start) ? start + 2 : start };
+
+    const args: string[] = [];
+    let i = start;
+    if (macro.optionalDefault !== null) {
+        OPTIONAL_ARGUMENT_PATTERN.lastIndex = i;
+        const optional = OPTIONAL_ARGUMENT_PATTERN.exec(text);
+        args.push(optional ? optional[1] : macro.optionalDefault);
+        if (optional) i = OPTIONAL_ARGUMENT_PATTERN.lastIndex;
+    }
+    while (args.length < macro.params) {
+        while (/\s/.test(text.charAt(i))) i++;
+        if (text[i] === '{') {
+            const group = readBraced(text, i);
+            if (!group) return null;
+            args.push(group.content);
+            i = group.end;
+            continue;
+        }
+        TOKEN_ARGUMENT_PATTERN.lastIndex = i;
+        const token = TOKEN_ARGUMENT_PATTERN.exec(text);
+        if (!token) return null;
+        args.push(token[1]);
+        i = TOKEN_ARGUMENT_PATTERN.lastIndex;
+    }
+    return { text: macro.body.replace(/#(\d)/g, (param, n: string) => args[Number(n) - 1] ?? param), end: i };
+}
+
+function expandMacros(text: string, macros: Map<string, LatexMacro>): string {
+    if (macros.size === 0) return text;
+    const pattern = new RegExp(`\\\\(${[...macros.keys()].join('|')})(?![a-zA-Z])`, 'g');
+    // A second pass covers macros defined in terms of other macros
+    let result = text;
+    for (let pass = 0; pass < 2; pass++) {
+        let expanded = '';
+        let last = 0;
+        for (let match = pattern.exec(result); match; match = pattern.exec(result)) {
+            const call = applyMacro(result, match.index + match[0].length, macros.get(match[1])!);
+            if (!call) continue;
+            expanded += result.slice(last, match.index) + call.text;
+            last = call.end;
+            pattern.lastIndex = call.end;
+        }
+        result = expanded + result.slice(last);
+    }
+    return result;
+}
+
+function extractFigures(body: string): LatexFigure[] {
+    const figures: LatexFigure[] = [];
+    for (const match of body.matchAll(FIGURE_ENV_PATTERN)) {
+        const content = match[2];
+        const caption = content.match(/\\caption\s*(?:\[[^\]]*\])?\s*\{/);
+        const group = caption && caption.index !== undefined
+            ? readBraced(content, caption.index + caption[0].length - 1)
+            : null;
+        figures.push({
+            caption: cleanInline(group?.content ?? ''),
+            label: content.match(/\\label\{([^}]*)\}/)?.[1] ?? '',
+            graphics: [...content.matchAll(INCLUDE_GRAPHICS_PATTERN)].map((g) => g[1].trim()),
+        });
+    }
+    return figures;
+}
+
+// Inline markup to plain text, for captions and titles
+function cleanInline(text: string): string {
+    return finishText(replaceCommand(text, TEXT_FORMAT_COMMANDS, (arg) => arg))
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+// Apply `transform` to the text between math spans, leaving the math as written
+function outsideMath(text: string, transform: (text: string) => string): string {
+    let result = '';
+    let last = 0;
+    for (const match of text.matchAll(MATH_PATTERN)) {
+        if (match[0] === '\\\\' || match[0] === '\\$') continue;
+        result += transform(text.slice(last, match.index)) + match[0];
+        last = match.index! + match[0].length;
+    }
+    return result + transform(text.slice(last));
+}
+
+// Commands nothing else handled: keep the text of their arguments, drop the rest
+function stripUnknownCommands(text: string): string {
+    const unwrapped = replaceCommand(text.replace(/\\(?:begin|end)\s*\{[^}]*\}/g, ''), ['[a-zA-Z]+'], (arg) => arg);
+    return unwrapped
+        .replace(/(\\\\)|\\(\s)|\\[a-zA-Z]+\*?(?:\[[^\]]*\])?/g, (_, lineBreak?: string, space?: string) => lineBreak ?? space ?? '')
+        .replace(/(\\[\\{}])|[{}]/g, (_, escaped?: string) => escaped ?? '');
+}
+
+function finishText(text: string): string {
+    const known = replaceCommand(text, DROPPED_COMMANDS, () => '')
+        .replace(/~?\\(?:cite|citep|citet|citeauthor|citeyear)\*?\s*(?:\[[^\]]*\])*\s*\{[^}]*\}/g, '')
+        .replace(/\\(?:auto|c|C|eq|page)?ref\*?\{([^}]*)\}/g, '$1')
+        .replace(/\\url\{([^}]*)\}/g, '$1')
+        .replace(/\\href\{([^}]*)\}\{([^}]*)\}/g, '$2 ($1)')
+        // The color argument goes; the colored text is unwrapped below
+        .replace(/\\(?:textcolor|colorbox)\s*(?:\[[^\]]*\])?\s*\{[^}]*\}/g, '')
+        .replace(new RegExp(`\\\\(?:${DROPPED_WORDS.join('|')})(?![a-zA-Z])\\s*`, 'g'), '');
+    return outsideMath(known, stripUnknownCommands)
+        .replace(/\\([&%$#_{}])/g, '$1')
+        .replace(/``|''/g, '"')
+        .replace(/~/g, ' ')
+        .replace(/\\\\(?:\[[^\]]*\])?/g, '\n');
+}
+
+/**
+ * Convert a (fully inlined) LaTeX document to markdown-like text, with the
+ * figure and table captions gathered into a final section as in PDF import.
+ */
+export function latexToText(source: string): LatexConversion {
+    const { macros, rest: clean } = collectMacros(stripLatexComments(source));
+    const begin = clean.indexOf('\\begin{document}');
+    const end = clean.indexOf('\\end{document}');
+    const preamble = begin === -1 ? '' : clean.slice(0, begin);
+    let body = expandMacros(begin === -1 ? clean : clean.slice(begin + '\\begin{document}'.length, end === -1 ? undefined : end), macros);
+
+    const graphicsPaths: string[] = [];
+    const graphicsPath = clean.match(/\\graphicspath\s*\{((?:\s*\{[^}]*\})+)\s*\}/);
+    if (graphicsPath) {
+        for (const dir of graphicsPath[1].matchAll(/\{([^}]*)\}/g)) graphicsPaths.push(dir[1]);
+    }
+
+    const figures = extractFigures(body);
+    body = body.replace(FIGURE_ENV_PATTERN, '');
+
+    const blocks: string[] = [];
+    const title = preamble.match(/\\title\s*(?:\[[^\]]*\])?\s*\{/);
+    if (title && title.index !== undefined) {
+        const group = readBraced(preamble, title.index + title[0].length - 1);
+        if (group) blocks.push(`# ${cleanInline(expandMacros(group.content, macros))}`);
+    }
+
+    body = body
+        .replace(/\\begin\{abstract\}/g, '\n## Abstract\n')
+        .replace(/\\end\{abstract\}/g, '\n')
+        // Sections after \appendix nest under one heading, as the section picker expects
+        .replace(/\\appendix(?![a-zA-Z])/g, '\n\n# Appendix\n\n')
+        .replace(/\\begin\{thebibliography\}(?:\{[^}]*\})?/g, '\n\n## References\n\n')
+        .replace(/\\end\{thebibliography\}/g, '')
+        .replace(/\\bibitem\s*(?:\[[^\]]*\])?\{[^}]*\}/g, '\n- ');
+    for (const [command, hashes] of Object.entries(SECTION_COMMANDS)) {
+        body = replaceCommand(body, [command], (arg) => `\n\n${hashes} ${cleanInline(arg)}\n\n`);
+    }
+    body = replaceCommand(body, ['paragraph', 'subparagraph'], (arg) => `\n\n**${cleanInline(arg)}** `);
+    body = replaceCommand(body, TEXT_FORMAT_COMMANDS, (arg) => arg);
+    body = body
+        .replace(/\s*\\item\s*(?:\[([^\]]*)\]\s*)?/g, (_, label?: string) => (label ? `\n- ${label}: ` : '\n- '))
+        .replace(/\\(?:begin|end)\{(?:itemize|enumerate|description|center|flushleft|flushright)\}/g, '');
+    body = finishText(body);
+    blocks.push(body);
+
+    const captions = figures.filter((f) => f.caption).map((f) => f.caption);
+    if (captions.length > 0) {
+        blocks.push('## Figure and Table Captions', ...captions);
+    }
+
+    const text = blocks
+        .join('\n\n')
+        .split('\n')
+        // Dropped commands leave runs of spaces behind
+        .map((line) => line.replace(/(\S) {2,}/g, '$1 ').trimEnd())
+        .join('\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+    return { text, figures, graphicsPaths };
+}
+
+function dirname(path: string): string {
+    const slash = path.lastIndexOf('/');
+    return slash === -1 ? '' : path.slice(0, slash + 1);
+}
+
+// Resolve "sections/method" against the main file's directory, like TeX does
+export function resolveProjectPath(base: string, path: string, extensions: string[], exists: (p: string) => boolean): string | null {
+    const parts: string[] = [];
+    for (const part of (base + path.trim()).split('/')) {
+        if (part === '..') parts.pop();
+        else if (part && part !== '.') parts.push(part);
+    }
+    const joined = parts.join('/');
+    for (const candidate of [joined, ...extensions.map((ext) => joined + ext)]) {
+        if (exists(candidate)) return candidate;
+    }
+    return null;
+}
+
+function inlineInputs(source: string, base: string, files: Map<string, string>, depth: number, seen: Set<string>): string {
+    return replaceCommand(stripLatexComments(source), ['input', 'include', 'subfile'], (arg) => {
+        const path = resolveProjectPath(base, arg, ['.tex'], (p) => files.has(p));
+        if (!path || seen.has(path) || depth >= MAX_INPUT_DEPTH) return '';
+        const content = inlineInputs(files.get(path)!, base, files, depth + 1, new Set(seen).add(path));
+        return `\n${content}\n`;
+    });
+}
+
+/**
+ * Read the .tex files of a project, pick the main file (the one with
+ * \documentclass, preferring common names) and inline everything it inputs.
+ */
+export async function readLatexProject(entries: ArchiveEntry[]): Promise<{ mainPath: string; source: string }> {
+    const files = new Map<string, string>();
+    for (const entry of entries) {
+        if (!entry.path.toLowerCase().endsWith('.tex') || entry.size > MAX_TEX_FILE_BYTES) continue;
+        files.set(entry.path, new TextDecoder().decode(await entry.read()));
+    }
+
+    const roots = [...files.keys()].filter((path) => /\\documentclass/.test(stripLatexComments(files.get(path)!)));
+    const byPreference = (path: string) => {
+        const index = MAIN_FILE_NAMES.indexOf(path.split('/').pop()!.toLowerCase());
+        return (index === -1 ? MAIN_FILE_NAMES.length : index) * 100 + path.split('/').length;
+    };
+    const mainPath = roots.sort((a, b) => byPreference(a) - byPreference(b))[0];
+    if (!mainPath) throw new Error('No .tex file with \\documentclass found in the archive');
+
+    const source = inlineInputs(files.get(mainPath)!, dirname(mainPath), files, 0, new Set([mainPath]));
+    return { mainPath, source };
+}
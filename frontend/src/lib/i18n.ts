@@ -4,11 +4,44 @@ export const translations = {
         appTitle: 'Academic Illustrator',
         settings: 'Settings',
         resetProject: 'Reset Project',
+        projects: 'Projects',
+        newProject: 'New Project',
+        untitledProject: 'Untitled Project',
+        renameProject: 'Rename',
+        deleteProject: 'Delete',
+        projectNamePrompt: 'Project name',
+        projectCreated: 'Project created',
+        deleteProjectConfirm: 'Delete this project with its schemas and render history?',
+        projectsLockedWhileRunning: 'Projects can be switched once the running request finishes',
 
         // Settings Modal
         settingsTitle: 'Model Configuration',
         logicModel: 'Logic Model (Step 1)',
         visionModel: 'Vision Model (Step 2)',
+        provider: 'Provider',
+        prompts: 'Prompts',
+        promptStageArchitect: 'Architect',
+        promptStageRenderer: 'Renderer',
+        promptStageRendererWithReferences: 'Renderer + References',
+        templateName: 'Template Name',
+        newTemplate: 'New Template',
+        duplicateTemplate: 'Duplicate Template',
+        deleteTemplate: 'Delete Template',
+        useTemplate: 'Use',
+        templateActive: 'In Use',
+        requiredPlaceholders: 'Required placeholders',
+        missingPlaceholders: 'Missing placeholders',
+        unknownPlaceholders: 'Unknown placeholders (left as-is)',
+        versionNote: 'Version note (optional)',
+        saveVersion: 'Save Version',
+        versionSaved: 'New template version saved',
+        versionHistory: 'Version History',
+        restoreVersion: 'Restore',
+        builtInTemplate: 'Built-in',
+        importTemplates: 'Import JSON',
+        exportTemplates: 'Export JSON',
+        templatesImported: 'Templates imported',
+        templatesImportFailed: 'Import failed',
         baseUrl: 'Base URL',
         apiKey: 'API Key',
         modelName: 'Model Name',
@@ -25,29 +58,149 @@ export const translations = {
 
         // Step 1
         paperPlaceholder: 'Paste your paper abstract or method description here, or upload a document',
+        pdfModeText: 'Text',
+        pdfModeImages: 'Page images',
+        pdfModeBoth: 'Text + images',
+        pdfPagesPlaceholder: 'All pages',
+        pdfImportHint: 'How attached PDFs are sent to the logic model, and which pages (e.g. 1-8, 12)',
+        pdfNoText: 'No text layer found in the PDF; using page images instead',
+        pdfText: 'PDF text',
+        pdfPages: 'pages',
+        paperSections: 'Sections',
+        paperSectionsHint: 'Only checked sections are sent to the logic model. References and appendices are left out by default.',
+        sectionPreamble: 'Text before the first heading',
+        selectAll: 'All',
+        selectNone: 'None',
+        tokens: 'tokens',
+        sourceFigures: 'Figures from your sources',
+        sourceFiguresHint: 'Figures found in uploaded LaTeX projects and Word files. Add them as style references for rendering.',
+        sourceFiguresFound: 'Found {count} figures in the source',
+        useAsReference: 'Use as reference',
+        figureAdded: 'Added',
+        estimateInput: 'Input',
+        estimateImages: 'Images',
+        estimateOutput: 'Expected output',
+        estimateUnknownPrice: 'No price known for this model; cost not estimated',
+        overBudget: 'Over the per-request budget',
+        sendAnyway: 'Send anyway?',
+        budget: 'Budget',
+        budgetHint: 'Limits for a single model request, checked before it is sent. Use 0 for no limit. Costs are estimated from list prices.',
+        maxTokensPerRequest: 'Max input tokens per request',
+        maxCostPerRequest: 'Max cost per request (USD)',
+        budgetMode: 'When a request is over budget',
+        budgetWarn: 'Warn and ask',
+        budgetBlock: 'Block',
+        usage: 'Usage',
+        usageCalls: 'calls',
+        usageTokensInOut: 'Tokens in / out',
+        usageLatency: 'Avg latency',
+        usageCost: 'Cost',
+        usageUnpriced: 'calls without a known price',
+        usageTotal: 'Total',
+        usagePerDay: 'Per day',
+        usagePerModel: 'Per model',
+        usageEmpty: 'No model calls recorded yet.',
+        usageLoading: 'Loading usage...',
+        usageClearConfirm: 'Delete all usage records?',
+        usageHint: 'Every schema generation, refinement, render and edit is recorded in this browser. Token counts come from the provider; costs are estimated from list prices.',
+        requestSettings: 'Requests',
+        retryHint: 'Rate limits (429), gateway errors (5xx) and timeouts are retried with exponential backoff, waiting as long as Retry-After asks. When a model keeps failing, its fallbacks are tried in order.',
+        maxRetries: 'Retries per model',
+        requestTimeout: 'Timeout per attempt (s, 0 = none)',
+        retryBaseDelay: 'First retry delay (s)',
+        retryMaxDelay: 'Longest wait before a retry (s)',
+        retryingIn: 'Retrying {model} in {seconds}s',
+        fallingBack: 'Switching to fallback model {model}',
+        fallbackModels: 'Fallback models',
+        fallbackHint: 'Tried in order when the model above fails after its retries.',
+        fallback: 'Fallback',
+        addFallback: 'Add',
+        removeFallback: 'Remove',
+        moveUp: 'Move up',
         generateBlueprint: 'Generate Blueprint',
         generating: 'Generating...',
+        livePreview: 'Live Preview',
+        generationCancelled: 'Generation cancelled',
 
         // Step 2
         sourceInput: 'Source Input',
         blueprintEditor: 'Blueprint Editor',
+        schemaOutline: 'Outline',
         referenceImages: 'Reference Images',
         addReference: 'Add reference diagrams for style guidance',
         dragDropImages: 'Drag & drop images here, or click to upload',
         renderImage: 'Render Image',
         rendering: 'Rendering...',
-        schemaError: 'Invalid Schema Format: Please preserve the BEGIN/END tags.',
+        schemaError: 'Fix the highlighted schema errors before rendering',
+        line: 'line',
+        wireframePreview: 'Preview',
+        previewEmpty: 'Add zones or visual elements to see a wireframe',
+        previewZones: 'zones',
+        previewElements: 'elements',
+        previewConnections: 'connections',
+        previewUnresolved: 'Connections with unknown endpoints',
+        schemaHistory: 'Schema History',
+        currentSchema: 'Current (editor)',
+        revisionByModel: 'Model',
+        revisionByUser: 'Edited',
+        restoredFrom: 'Restored from',
+        revisionRestored: 'Revision restored',
+        noRevisions: 'No revisions yet',
+        variantCount: 'Variants',
+        renderVariants: 'Render Variants',
+        variantModelsPlaceholder: 'Models (optional, comma-separated)',
+        variantModelsHint: 'Cycle through these vision models; empty uses the configured one',
+        variantTemperaturesPlaceholder: 'Temperatures, e.g. 0.4, 1',
+        variantTemperaturesHint: 'Cycle through these temperatures; empty uses the provider default',
+        close: 'Close',
 
         // Step 3
         generatedDiagram: 'Generated Diagram',
         chatRefinement: 'Chat Refinement',
         downloadImage: 'Download Image',
         exportSchema: 'Export Schema',
+        exportVector: 'Vector:',
+        exportVectorHint: 'Editable figure built from the blueprint, no model call',
         history: 'History',
         noImage: 'No image generated yet',
+        variants: 'Variants',
+        pickWinner: 'Pick',
+        starVariant: 'Star to keep in history',
+        discardVariant: 'Discard',
+        discardAllVariants: 'Discard all',
+        variantsHint: 'Pick a winner: it and the starred variants are saved to history, the rest are discarded. Variants are not kept across reloads; discarding them still saves the starred ones.',
+        variantPicked: 'Variant saved to history',
+        editRegion: 'Edit Region',
+        editRegionHint: 'Paint over the area to change, then describe the edit.',
+        brushSize: 'Brush',
+        clearMask: 'Clear mask',
+        editInstructionPlaceholder: "e.g. Replace this arrow label with 'Cross-Attention'",
+        applyEdit: 'Apply Edit',
+        applyingEdit: 'Editing...',
+        editApplied: 'Edit applied and saved to history',
+        chatPlaceholder: 'e.g. Make the encoder block blue and move the legend to the right',
+        chatEmpty: 'Describe a change; the blueprint is updated and the diagram re-rendered.',
+        clearChat: 'Clear chat',
+        refiningSchema: 'Updating blueprint...',
+        refinementDone: 'Blueprint updated and diagram re-rendered.',
 
         // Errors
         missingApiKey: 'Please configure your API key in Settings',
+        credentials: 'Credentials',
+        ownApiKey: 'My own API key',
+        serverKeyHint: 'The key for this profile stays on the server; the proxy adds it to each request.',
+        profileUnavailable: 'unavailable',
+        connectionOptions: 'Connection options',
+        customized: 'customized',
+        authScheme: 'Key header',
+        authDefault: 'Provider default',
+        authNone: 'No key',
+        extraHeaders: 'Extra headers',
+        extraHeadersHint: 'One per line, e.g. OpenAI-Organization: org-123',
+        queryParams: 'Query parameters',
+        queryParamsHint: 'One per line, e.g. api-version=2024-10-21 for Azure OpenAI',
+        useUrlAsIs: 'Use base URL as-is',
+        useUrlAsIsHint: 'No /v1 is added or removed; the endpoint path (e.g. /chat/completions) is still appended.',
         generationFailed: 'Generation failed. Please try again.',
     },
     zh: {
@@ -55,11 +208,44 @@ export const translations = {
         appTitle: '学术插图师',
         settings: '设置',
         resetProject: '重置项目',
+        projects: '项目',
+        newProject: '新建项目',
+        untitledProject: '未命名项目',
+        renameProject: '重命名',
+        deleteProject: '删除',
+        projectNamePrompt: '项目名称',
+        projectCreated: '已创建项目',
+        deleteProjectConfirm: '确定删除该项目及其所有架构和渲染历史？',
+        projectsLockedWhileRunning: '当前请求完成后才能切换项目',
 
         // Settings Modal
         settingsTitle: '模型配置',
         logicModel: '逻辑模型 (步骤 1)',
         visionModel: '视觉模型 (步骤 2)',
+        provider: '服务商',
+        prompts: '提示词',
+        promptStageArchitect: '架构师',
+        promptStageRenderer: '渲染器',
+        promptStageRendererWithReferences: '渲染器 + 参考图',
+        templateName: '模板名称',
+        newTemplate: '新建模板',
+        duplicateTemplate: '复制模板',
+        deleteTemplate: '删除模板',
+        useTemplate: '使用',
+        templateActive: '使用中',
+        requiredPlaceholders: '必需占位符',
+        missingPlaceholders: '缺少占位符',
+        unknownPlaceholders: '未知占位符（将原样保留）',
+        versionNote: '版本备注（可选）',
+        saveVersion: '保存版本',
+        versionSaved: '已保存新的模板版本',
+        versionHistory: '版本历史',
+        restoreVersion: '恢复',
+        builtInTemplate: '内置',
+        importTemplates: '导入 JSON',
+        exportTemplates: '导出 JSON',
+        templatesImported: '已导入模板',
+        templatesImportFailed: '导入失败',
         baseUrl: '接口地址',
         apiKey: 'API 密钥',
         modelName: '模型名称',
@@ -76,29 +262,149 @@ export const translations = {
 
         // Step 1
         paperPlaceholder: '在此粘贴您的论文摘要或方法描述,推荐直接上传文档',
+        pdfModeText: '文本',
+        pdfModeImages: '页面图片',
+        pdfModeBoth: '文本 + 图片',
+        pdfPagesPlaceholder: '全部页面',
+        pdfImportHint: '附加 PDF 发送给逻辑模型的方式及页码范围（如 1-8, 12）',
+        pdfNoText: 'PDF 中未找到文本层，改用页面图片',
+        pdfText: 'PDF 文本',
+        pdfPages: '页',
+        paperSections: '章节',
+        paperSectionsHint: '只有勾选的章节会发送给逻辑模型。参考文献和附录默认不发送。',
+        sectionPreamble: '第一个标题之前的内容',
+        selectAll: '全选',
+        selectNone: '全不选',
+        tokens: 'tokens',
+        sourceFigures: '源文件中的图',
+        sourceFiguresHint: '从上传的 LaTeX 项目和 Word 文件中找到的图，可添加为渲染的风格参考。',
+        sourceFiguresFound: '在源文件中找到 {count} 张图',
+        useAsReference: '用作参考',
+        figureAdded: '已添加',
+        estimateInput: '输入',
+        estimateImages: '图片',
+        estimateOutput: '预计输出',
+        estimateUnknownPrice: '未知此模型价格，未估算费用',
+        overBudget: '超出单次请求预算',
+        sendAnyway: '仍然发送？',
+        budget: '预算',
+        budgetHint: '单次模型请求的上限，在发送前检查。0 表示不限制。费用按公开价格估算。',
+        maxTokensPerRequest: '单次请求最大输入 tokens',
+        maxCostPerRequest: '单次请求最大费用 (USD)',
+        budgetMode: '请求超出预算时',
+        budgetWarn: '提醒并确认',
+        budgetBlock: '阻止',
+        usage: '用量',
+        usageCalls: '次调用',
+        usageTokensInOut: '输入 / 输出 tokens',
+        usageLatency: '平均延迟',
+        usageCost: '费用',
+        usageUnpriced: '次调用价格未知',
+        usageTotal: '总计',
+        usagePerDay: '按天',
+        usagePerModel: '按模型',
+        usageEmpty: '尚无模型调用记录。',
+        usageLoading: '正在加载用量...',
+        usageClearConfirm: '删除所有用量记录？',
+        usageHint: '每次生成、修改、渲染和编辑都会记录在本浏览器中。Token 数来自服务商返回，费用按公开价格估算。',
+        requestSettings: '请求',
+        retryHint: '限流 (429)、网关错误 (5xx) 和超时会以指数退避重试，并遵循 Retry-After 要求的等待时间。模型持续失败时，按顺序尝试其备用模型。',
+        maxRetries: '每个模型的重试次数',
+        requestTimeout: '单次尝试超时 (秒，0 为不限)',
+        retryBaseDelay: '首次重试延迟 (秒)',
+        retryMaxDelay: '重试前最长等待 (秒)',
+        retryingIn: '{seconds} 秒后重试 {model}',
+        fallingBack: '切换到备用模型 {model}',
+        fallbackModels: '备用模型',
+        fallbackHint: '上方模型重试后仍失败时，按顺序尝试。',
+        fallback: '备用',
+        addFallback: '添加',
+        removeFallback: '删除',
+        moveUp: '上移',
         generateBlueprint: '生成蓝图',
         generating: '生成中...',
+        livePreview: '实时预览',
+        generationCancelled: '已取消生成',
 
         // Step 2
         sourceInput: '源输入',
         blueprintEditor: '蓝图编辑器',
+        schemaOutline: '大纲',
         referenceImages: '参考图片',
         addReference: '添加参考图表用于风格指导',
         dragDropImages: '拖拽图片到此处，或点击上传',
         renderImage: '渲染图像',
         rendering: '渲染中...',
-        schemaError: '无效的架构格式：请保留 BEGIN/END 标签。',
+        schemaError: '请先修复架构中标出的错误再渲染',
+        line: '行',
+        wireframePreview: '预览',
+        previewEmpty: '添加区域或视觉元素后即可查看线框图',
+        previewZones: '个区域',
+        previewElements: '个元素',
+        previewConnections: '条连接',
+        previewUnresolved: '端点未定义的连接',
+        schemaHistory: '架构历史',
+        currentSchema: '当前（编辑器）',
+        revisionByModel: '模型',
+        revisionByUser: '编辑',
+        restoredFrom: '恢复自',
+        revisionRestored: '已恢复该版本',
+        noRevisions: '暂无历史版本',
+        variantCount: '变体数',
+        renderVariants: '渲染多个变体',
+        variantModelsPlaceholder: '模型（可选，逗号分隔）',
+        variantModelsHint: '依次使用这些视觉模型；留空则使用已配置的模型',
+        variantTemperaturesPlaceholder: '温度，例如 0.4, 1',
+        variantTemperaturesHint: '依次使用这些温度；留空则使用服务商默认值',
+        close: '关闭',
 
         // Step 3
         generatedDiagram: '生成的图表',
         chatRefinement: '对话优化',
         downloadImage: '下载图片',
         exportSchema: '导出架构',
+        exportVector: '矢量图：',
+        exportVectorHint: '根据蓝图在本地生成的可编辑图形，不调用模型',
         history: '历史记录',
         noImage: '尚未生成图像',
+        variants: '变体',
+        pickWinner: '选用',
+        starVariant: '加星以保存到历史记录',
+        discardVariant: '丢弃',
+        discardAllVariants: '全部丢弃',
+        variantsHint: '选出最佳结果：它和加星的变体会保存到历史记录，其余将被丢弃。变体不会在刷新后保留；全部丢弃时加星的变体仍会保存到历史记录。',
+        variantPicked: '变体已保存到历史记录',
+        editRegion: '局部编辑',
+        editRegionHint: '涂抹需要修改的区域，然后描述修改内容。',
+        brushSize: '画笔',
+        clearMask: '清除蒙版',
+        editInstructionPlaceholder: '例如：把这个箭头的标签改为 “Cross-Attention”',
+        applyEdit: '应用修改',
+        applyingEdit: '编辑中...',
+        editApplied: '修改已应用并保存到历史记录',
+        chatPlaceholder: '例如：把编码器模块改成蓝色，并把图例移到右侧',
+        chatEmpty: '描述想要的修改，蓝图会被更新并重新渲染图表。',
+        clearChat: '清空对话',
+        refiningSchema: '正在更新蓝图...',
+        refinementDone: '蓝图已更新，图表已重新渲染。',
 
         // Errors
         missingApiKey: '请在设置中配置您的 API 密钥',
+        credentials: '凭据',
+        ownApiKey: '使用自己的 API 密钥',
+        serverKeyHint: '该配置的密钥保存在服务器上，由代理在每次请求时添加。',
+        profileUnavailable: '不可用',
+        connectionOptions: '连接选项',
+        customized: '已自定义',
+        authScheme: '密钥请求头',
+        authDefault: '服务商默认',
+        authNone: '不发送密钥',
+        extraHeaders: '额外请求头',
+        extraHeadersHint: '每行一个，例如 OpenAI-Organization: org-123',
+        queryParams: '查询参数',
+        queryParamsHint: '每行一个，例如 Azure OpenAI 的 api-version=2024-10-21',
+        useUrlAsIs: '按原样使用 Base URL',
+        useUrlAsIsHint: '不会添加或去除 /v1，但仍会追加接口路径（如 /chat/completions）。',
         generationFailed: '生成失败，请重试。',
     },
 } as const;
@@ -0,0 +1,234 @@
+import { useEffect, useState } from 'react';
+import { imageBlobStorage } from '@/lib/storage';
+
+/**
+ * Reference to an image held by the app state. Either `idb:<sha256>` for an
+ * image stored as a Blob in IndexedDB, or a remote http(s) URL we could not
+ * download (e.g. blocked by CORS). Data URLs are never kept in state.
+ */
+export type ImageRef = string;
+
+const REF_PREFIX = 'idb:';
+
+// Object URLs are created on first use and kept for the session
+const objectUrlCache = new Map<string, string>();
+
+export function isStoredImageRef(ref: string): boolean {
+    return ref.startsWith(REF_PREFIX);
+}
+
+function toHex(buffer: ArrayBuffer): string {
+    return Array.from(new Uint8Array(buffer))
+        .map((b) => b.toString(16).padStart(2, '0'))
+        .join('');
+}
+
+// crypto.subtle is only available in secure contexts (https / localhost)
+function fallbackHash(bytes: Uint8Array): string {
+    let h1 = 0x811c9dc5;
+    let h2 = 0x01000193;
+    for (let i = 0; i < bytes.length; i++) {
+        h1 = Math.imul(h1 ^ bytes[i], 0x01000193) >>> 0;
+        h2 = Math.imul(h2 ^ bytes[i], 0x5bd1e995) >>> 0;
+    }
+    return `fnv-${h1.toString(16)}${h2.toString(16)}-${bytes.length}`;
+}
+
+async function hashBlob(blob: Blob): Promise<string> {
+    const buffer = await blob.arrayBuffer();
+    if (typeof crypto !== 'undefined' && crypto.subtle) {
+        return toHex(await crypto.subtle.digest('SHA-256', buffer));
+    }
+    return fallbackHash(new Uint8Array(buffer));
+}
+
+export function dataUrlToBlob(dataUrl: string): Blob {
+    const match = dataUrl.match(/^data:([^;,]+)?(;base64)?,([\s\S]*)$/);
+    if (!match) throw new Error('Invalid data URL');
+    const mimeType = match[1] || 'application/octet-stream';
+    if (!match[2]) {
+        return new Blob([decodeURIComponent(match[3])], { type: mimeType });
+    }
+    const binary = atob(match[3]);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return new Blob([bytes], { type: mimeType });
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+}
+
+/**
+ * Store an image (Blob, File, data URL or remote URL) and return its
+ * reference. Identical images share one entry.
+ */
+export async function storeImage(source: Blob | string): Promise<ImageRef> {
+    let blob: Blob;
+    if (typeof source !== 'string') {
+        blob = source;
+    } else if (source.startsWith('data:')) {
+        blob = dataUrlToBlob(source);
+    } else if (isStoredImageRef(source)) {
+        return source;
+    } else {
+        try {
+            const response = await fetch(source);
+            if (!response.ok) throw new Error(response.statusText);
+            blob = await response.blob();
+        } catch (error) {
+            console.warn('Could not download image, keeping remote URL:', error);
+            return source;
+        }
+    }
+
+    const hash = await hashBlob(blob);
+    await imageBlobStorage.put(hash, blob);
+    return `${REF_PREFIX}${hash}`;
+}
+
+const MIME_EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+    'image/gif': 'gif',
+    'image/svg+xml': 'svg',
+    'image/avif': 'avif',
+};
+
+/**
+ * File extension for an image MIME type, defaulting to png.
+ */
+export function extensionForMimeType(mimeType: string | null | undefined): string {
+    return (mimeType && MIME_EXTENSIONS[mimeType.split(';')[0].trim().toLowerCase()]) || 'png';
+}
+
+export async function loadImageBlob(ref: ImageRef): Promise<Blob | null> {
+    if (!isStoredImageRef(ref)) return null;
+    return imageBlobStorage.get(ref.slice(REF_PREFIX.length));
+}
+
+/**
+ * Return an object URL (or the remote URL) for displaying an image ref.
+ */
+export async function resolveImageUrl(ref: ImageRef): Promise<string | null> {
+    if (!isStoredImageRef(ref)) return ref;
+    const cached = objectUrlCache.get(ref);
+    if (cached) return cached;
+
+    const blob = await loadImageBlob(ref);
+    if (!blob) return null;
+    const url = URL.createObjectURL(blob);
+    objectUrlCache.set(ref, url);
+    return url;
+}
+
+/**
+ * Return a data URL for an image ref, for sending to model APIs.
+ */
+export async function loadImageDataUrl(ref: ImageRef): Promise<string> {
+    if (!isStoredImageRef(ref)) return ref;
+    const blob = await loadImageBlob(ref);
+    if (!blob) throw new Error('Image not found in local storage');
+    return blobToDataUrl(blob);
+}
+
+export function loadImageDataUrls(refs: ImageRef[]): Promise<string[]> {
+    return Promise.all(refs.map(loadImageDataUrl));
+}
+
+/**
+ * Delete stored images that no longer appear in `liveRefs`.
+ */
+export async function pruneImages(liveRefs: Iterable<ImageRef>): Promise<number> {
+    const live = new Set(
+        Array.from(liveRefs).filter(isStoredImageRef).map((ref) => ref.slice(REF_PREFIX.length))
+    );
+    const stale = (await imageBlobStorage.keys()).filter((hash) => !live.has(hash));
+    await Promise.all(stale.map((hash) => imageBlobStorage.delete(hash)));
+    stale.forEach((hash) => {
+        const ref = `${REF_PREFIX}${hash}`;
+        const url = objectUrlCache.get(ref);
+        if (url) {
+            URL.revokeObjectURL(url);
+            objectUrlCache.delete(ref);
+        }
+    });
+    return stale.length;
+}
+
+/**
+ * Resolve an image ref to a displayable URL, or null while loading.
+ */
+export function useImageUrl(ref: ImageRef | null | undefined): string | null {
+    const [resolved, setResolved] = useState<{ ref: string; url: string | null } | null>(null);
+
+    useEffect(() => {
+        if (!ref || !isStoredImageRef(ref) || objectUrlCache.has(ref)) return;
+        let cancelled = false;
+        resolveImageUrl(ref)
+            .then((url) => {
+                if (!cancelled) setResolved({ ref, url });
+            })
+            .catch(console.error);
+        return () => {
+            cancelled = true;
+        };
+    }, [ref]);
+
+    if (!ref) return null;
+    if (!isStoredImageRef(ref)) return ref;
+    return objectUrlCache.get(ref) ?? (resolved?.ref === ref ? resolved.url : null);
+}
+
+export interface ImageDimensions {
+    width: number;
+    height: number;
+}
+
+// Used until an image is measured, and for remote images we can't read
+const FALLBACK_DIMENSIONS: ImageDimensions = { width: 1024, height: 1024 };
+const dimensionsCache = new Map<ImageRef, ImageDimensions>();
+
+export async function measureImage(ref: ImageRef): Promise<ImageDimensions> {
+    const cached = dimensionsCache.get(ref);
+    if (cached) return cached;
+    const blob = await loadImageBlob(ref);
+    if (!blob) return FALLBACK_DIMENSIONS;
+    const bitmap = await createImageBitmap(blob);
+    const dimensions = { width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+    dimensionsCache.set(ref, dimensions);
+    return dimensions;
+}
+
+/**
+ * Pixel dimensions of each image ref, for token estimates. Images not yet
+ * measured report a 1024x1024 placeholder.
+ */
+export function useImageDimensions(refs: ImageRef[]): ImageDimensions[] {
+    const [, setMeasured] = useState(0);
+    const key = refs.join('\n');
+
+    useEffect(() => {
+        const missing = key.split('\n').filter((ref) => ref && !dimensionsCache.has(ref));
+        if (missing.length === 0) return;
+        let cancelled = false;
+        Promise.all(missing.map((ref) => measureImage(ref).catch(() => FALLBACK_DIMENSIONS)))
+            .then(() => {
+                if (!cancelled) setMeasured((n) => n + 1);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [key]);
+
+    return refs.map((ref) => dimensionsCache.get(ref) ?? FALLBACK_DIMENSIONS);
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { defaultSectionSelection, joinSections, splitPaperSections } from './paperSections';
+
+// [key, title, level] of each section
+function outline(text: string) {
+    return splitPaperSections(text).map(({ key, title, level }) => [key, title, level]);
+}
+
+describe('splitPaperSections', () => {
+    it('splits at markdown headings, ranking the outermost level 1', () => {
+        const text = [
+            'Draft notes',
+            '## Method ##',
+            'We propose.',
+            '### **Encoder**',
+            'It encodes.',
+            '```',
+            '## not a heading',
+            '```',
+            '## Results',
+        ].join('\n');
+
+        expect(outline(text)).toEqual([
+            ['(preamble)', '', 1],
+            ['method', 'Method', 1],
+            ['encoder', 'Encoder', 2],
+            ['results', 'Results', 1],
+        ]);
+        const sections = splitPaperSections(text);
+        expect(sections[0].text).toBe('Draft notes');
+        expect(sections[2].text).toBe('### **Encoder**\nIt encodes.\n```\n## not a heading\n```');
+        expect(sections[2].tokens).toBeGreaterThan(0);
+    });
+
+    it('reads LaTeX sectioning commands with nested braces and markup', () => {
+        const text = [
+            '\\documentclass{article}',
+            '\\begin{abstract}We draw.\\end{abstract}',
+            '\\section{The \\emph{Fast} Model~\\cite{x}}',
+            '% \\section{Commented out}',
+            '\\subsection*[Short]{A {Nested} Title}',
+            '\\section{Setup \\{v2\\}}',
+            '\\appendix',
+            '\\section{Proofs}',
+            '\\bibliography{refs}',
+        ].join('\n');
+
+        expect(outline(text)).toEqual([
+            ['(preamble)', '', 1],
+            ['the fast model', 'The Fast Model', 2],
+            ['a nested title', 'A Nested Title', 3],
+            ['setup v2', 'Setup v2', 2],
+            ['appendix', 'Appendix', 1],
+            ['proofs', 'Proofs', 2],
+            ['references', 'References', 2],
+        ]);
+        // The abstract environment has no heading of its own and stays with the preamble
+        expect(splitPaperSections(text)[0].text).toContain('We draw.');
+    });
+
+    it('finds the bare headings of text rebuilt from a PDF', () => {
+        const text = [
+            'Learning to Draw',
+            'Abstract',
+            'We draw.',
+            '1 Introduction',
+            'Diagrams help.',
+            '3.2 Results',
+            'They do.',
+            'Results',
+            'Again.',
+            'Conclusion.',
+        ].join('\n');
+
+        expect(outline(text)).toEqual([
+            ['(preamble)', '', 1],
+            ['abstract', 'Abstract', 1],
+            ['1 introduction', '1 Introduction', 1],
+            ['3.2 results', '3.2 Results', 2],
+            ['results', 'Results', 1],
+        ]);
+    });
+
+    it('keeps keys unique when titles repeat', () => {
+        expect(outline('# Notes\na\n# Notes\nb\n# notes').map(([key]) => key))
+            .toEqual(['notes', 'notes#2', 'notes#3']);
+    });
+
+    it('returns nothing for blank text', () => {
+        expect(splitPaperSections('\n  \n')).toEqual([]);
+    });
+});
+
+describe('defaultSectionSelection', () => {
+    it('leaves out references, acknowledgments and appendices with their subsections', () => {
+        const sections = splitPaperSections([
+            '# Method', 'a',
+            '# Acknowledgments', 'b',
+            '# Appendix', 'c',
+            '## A.1 Proofs', 'd',
+            '# Limitations', 'e',
+            '# References', 'f',
+        ].join('\n'));
+
+        expect(defaultSectionSelection(sections)).toEqual([true, false, false, false, true, false]);
+    });
+});
+
+describe('joinSections', () => {
+    it('joins section text with blank lines', () => {
+        const sections = splitPaperSections('Intro text\n# Method\nWe propose.');
+        expect(joinSections(sections)).toBe('Intro text\n\n# Method\nWe propose.');
+    });
+});
@@ -0,0 +1,125 @@
+import { readBraced } from '@/lib/documents/latex';
+import { SECTION_NAME_PATTERN } from '@/lib/pdf';
+import { estimateTokens } from '@/lib/tokens';
+
+/**
+ * Split paper text into sections at markdown headings, LaTeX sectioning
+ * commands, or bare well-known section names ("Abstract", "3 Method"), so
+ * the Architect step can send only the parts that matter.
+ */
+
+export interface PaperSection {
+    key: string; // Normalized title, suffixed for repeats; survives edits elsewhere in the text
+    title: string; // Empty for the text before the first heading
+    level: number; // 1 for the outermost heading style used
+    text: string; // Heading line included
+    tokens: number;
+}
+
+const MARKDOWN_HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const LATEX_HEADING_PATTERN = /^\s*\\(part|chapter|section|subsection|subsubsection|paragraph)\*?\s*(?:\[[^\]]*\])?\s*\{/;
+const LATEX_LEVELS: Record<string, number> = {
+    part: 1,
+    chapter: 2,
+    section: 3,
+    subsection: 4,
+    subsubsection: 5,
+    paragraph: 6,
+};
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+// Sections left out unless picked: they rarely shape the method diagram
+const DEFAULT_EXCLUDED_PATTERN = /^(?:[IVX]+\.?\s+|[A-Z]?\d+(?:\.\d+)*\.?\s+)?(?:references|bibliography|acknowledg(?:e)?ments?|appendix|supplementary)/i;
+
+// "The \emph{Fast} Model~\cite{x}" -> "The Fast Model"
+function stripLatex(text: string): string {
+    return text
+        .replace(/\\(?:cite|ref|label)\w*\{[^}]*\}/g, '')
+        .replace(/\\[a-zA-Z]+\*?\{([^}]*)\}/g, '$1')
+        .replace(/\\[a-zA-Z]+\*?/g, '')
+        .replace(/\\([{}%&_#$])/g, '$1')
+        .replace(/[{}~]/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+function matchHeading(line: string): { title: string; level: number } | null {
+    const markdown = line.match(MARKDOWN_HEADING_PATTERN);
+    if (markdown) return { title: markdown[2].replace(/\*\*/g, '').trim(), level: markdown[1].length };
+
+    const latex = line.match(LATEX_HEADING_PATTERN);
+    if (latex) {
+        const title = readBraced(line, latex[0].length - 1);
+        if (title) return { title: stripLatex(title.content), level: LATEX_LEVELS[latex[1]] };
+    }
+
+    // Everything after \appendix is appendix material, one level above \section
+    if (/^\s*\\appendix\b/.test(line)) return { title: 'Appendix', level: LATEX_LEVELS.chapter };
+    if (/^\s*\\(?:bibliography\{|begin\{thebibliography\})/.test(line)) {
+        return { title: 'References', level: LATEX_LEVELS.section };
+    }
+
+    const bare = line.trim();
+    if (SECTION_NAME_PATTERN.test(bare)) {
+        // "3.2 Results" nests under "3 Method"
+        const number = bare.match(/^(\d+(?:\.\d+)*)\s/);
+        return { title: bare, level: number ? number[1].split('.').length + 6 : 7 };
+    }
+    return null;
+}
+
+export function splitPaperSections(text: string): PaperSection[] {
+    const lines = text.split(/\r?\n/);
+    const sections: Omit<PaperSection, 'key' | 'tokens'>[] = [];
+    let current: { title: string; level: number; lines: string[] } = { title: '', level: 0, lines: [] };
+    let inFence = false;
+
+    const push = () => {
+        const body = current.lines.join('\n');
+        if (current.title || body.trim()) {
+            sections.push({ title: current.title, level: current.level, text: body.trim() });
+        }
+    };
+
+    for (const line of lines) {
+        if (FENCE_PATTERN.test(line)) inFence = !inFence;
+        const heading = inFence || line.trimStart().startsWith('%') ? null : matchHeading(line);
+        if (heading) {
+            push();
+            current = { ...heading, lines: [] };
+        }
+        current.lines.push(line);
+    }
+    push();
+
+    // Rank heading levels so the outermost style in use is level 1
+    const levels = [...new Set(sections.filter((s) => s.title).map((s) => s.level))].sort((a, b) => a - b);
+    const seen = new Map<string, number>();
+    return sections.map((section) => {
+        const base = section.title.toLowerCase().replace(/\s+/g, ' ') || '(preamble)';
+        const count = (seen.get(base) ?? 0) + 1;
+        seen.set(base, count);
+        return {
+            ...section,
+            key: count > 1 ? `${base}#${count}` : base,
+            level: section.title ? levels.indexOf(section.level) + 1 : 1,
+            tokens: estimateTokens(section.text),
+        };
+    });
+}
+
+/**
+ * Initial checklist state: everything except references, acknowledgments
+ * and appendices, including their subsections.
+ */
+export function defaultSectionSelection(sections: PaperSection[]): boolean[] {
+    let excludedLevel: number | null = null;
+    return sections.map((section) => {
+        if (excludedLevel !== null && section.title && section.level <= excludedLevel) excludedLevel = null;
+        if (excludedLevel === null && DEFAULT_EXCLUDED_PATTERN.test(section.title)) excludedLevel = section.level;
+        return excludedLevel === null;
+    });
+}
+
+export function joinSections(sections: PaperSection[]): string {
+    return sections.map((s) => s.text).filter(Boolean).join('\n\n');
+}
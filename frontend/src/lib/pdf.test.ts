@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { parsePageRange, PdfTextItem, rebuildPdfText } from './pdf';
+
+describe('parsePageRange', () => {
+    it('selects every page for an empty range', () => {
+        expect(parsePageRange('', 3)).toEqual([1, 2, 3]);
+        expect(parsePageRange('   ', 2)).toEqual([1, 2]);
+    });
+
+    it('expands, sorts and de-duplicates pages and ranges', () => {
+        expect(parsePageRange('7, 1-3; 2–4', 10)).toEqual([1, 2, 3, 4, 7]);
+        expect(parsePageRange('-2, 9-', 10)).toEqual([1, 2, 9, 10]);
+    });
+
+    it('clips ranges to the document', () => {
+        expect(parsePageRange('0-2, 4-99', 5)).toEqual([1, 2, 4, 5]);
+    });
+
+    it('rejects ranges that select no pages', () => {
+        expect(() => parsePageRange('8-9', 5)).toThrow('Page range "8-9" selects no pages (the document has 5)');
+        expect(() => parsePageRange('0', 5)).toThrow('selects no pages');
+    });
+
+    it('rejects reversed ranges', () => {
+        expect(() => parsePageRange('1, 5-3', 10)).toThrow('Invalid page range: "5-3" (start is after end)');
+    });
+
+    it.each(['a', '1-2-3', '-', '1.5', '2 4'])('rejects "%s"', (input) => {
+        expect(() => parsePageRange(input, 10)).toThrow(`Invalid page range: "${input}"`);
+    });
+});
+
+// One text item per line unless `x` places it after an earlier item on the same baseline
+function item(str: string, y: number, options: Partial<PdfTextItem> = {}): PdfTextItem {
+    const size = options.size ?? 10;
+    return { str, x: 50, y, width: str.length * size * 0.5, size, hasEOL: true, ...options };
+}
+
+describe('rebuildPdfText', () => {
+    it('returns nothing for pages without text', () => {
+        expect(rebuildPdfText([[], [item('', 700)]])).toBe('');
+    });
+
+    it('rebuilds the title, headings, paragraphs and captions', () => {
+        const page1 = [
+            item('Learning to Draw', 720, { size: 18 }),
+            item('Ada Lovelace', 700, { size: 11 }),
+            item('Abstract', 670),
+            item('We draw diagrams from papers with a hyph-', 655),
+            item('enated line break.', 643),
+            item('1 Introduction', 610, { size: 12 }),
+            // A line split into items, once with a visible gap and once without
+            item('Diagrams ', 595, { hasEOL: false }),
+            item('are', 595, { x: 100, width: 15, hasEOL: false }),
+            item('n\'t', 595, { x: 115, hasEOL: false }),
+            item(' easy.', 595, { x: 130 }),
+            item('Figure 1: The pipeline, from', 560),
+            item('paper to picture.', 548),
+            item('A new paragraph after the figure.', 500),
+        ];
+        const page2 = [
+            item('2 Method', 720),
+            item('We parse the paper first.', 705),
+            item('Table 2. Results.', 680),
+        ];
+
+        expect(rebuildPdfText([page1, page2]).split('\n\n')).toEqual([
+            '# Learning to Draw',
+            'Ada Lovelace',
+            '## Abstract',
+            'We draw diagrams from papers with a hyphenated line break.',
+            '## 1 Introduction',
+            'Diagrams aren\'t easy.',
+            'A new paragraph after the figure.',
+            '## 2 Method',
+            'We parse the paper first.',
+            '## Figure and Table Captions',
+            'Figure 1: The pipeline, from paper to picture.',
+            'Table 2. Results.',
+        ]);
+    });
+
+    it('starts the abstract from an inline "Abstract—" lead', () => {
+        const text = rebuildPdfText([[
+            item('Abstract—We study diagrams.', 700),
+            item('They help readers.', 688),
+        ]]);
+        expect(text).toBe('## Abstract\n\nWe study diagrams. They help readers.');
+    });
+
+    it('does not take sentences or contents entries for headings', () => {
+        const text = rebuildPdfText([[
+            item('Introduction', 700),
+            item('Body text that is long enough to set the body size.', 688),
+            item('Large emphasised sentence.', 660, { size: 14 }),
+            item('3 Results . . . . . 12', 620, { size: 14 }),
+            item('4 Evaluation', 590),
+        ]]);
+        expect(text.split('\n\n')).toEqual([
+            '## Introduction',
+            'Body text that is long enough to set the body size.',
+            'Large emphasised sentence.',
+            '3 Results . . . . . 12',
+            '## 4 Evaluation',
+        ]);
+    });
+
+    it('drops running headers and page numbers repeated across pages', () => {
+        const page = (n: number, body: string) => [
+            item(`Preprint, page ${n}`, 780),
+            item(body, 700),
+            item(String(n), 40),
+        ];
+        expect(rebuildPdfText([page(1, 'First page.'), page(2, 'Second page.'), page(3, 'Third page.')]))
+            .toBe('First page.\n\nSecond page.\n\nThird page.');
+    });
+});
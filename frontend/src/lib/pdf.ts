@@ -0,0 +1,318 @@
+/**
+ * PDF import for the Architect step. Pages can be sent to the logic model as
+ * extracted text (rebuilt into sections from the pdfjs text layer), as
+ * rendered page images, or both.
+ */
+
+export type PdfImportMode = 'text' | 'images' | 'both';
+
+export interface PdfImportOptions {
+    mode: PdfImportMode;
+    pageRange: string; // "1-4, 7"; empty for all pages
+}
+
+export interface PdfImportResult {
+    pageCount: number;
+    pages: number[]; // 1-based pages that were imported
+    text: string; // Empty unless text was requested
+    images: string[]; // PNG data URLs, empty unless images were requested
+}
+
+/** The parts of a pdfjs TextItem the text rebuild uses */
+export interface PdfTextItem {
+    str: string;
+    x: number;
+    y: number; // Baseline, growing upwards
+    width: number;
+    size: number;
+    hasEOL: boolean;
+}
+
+const RENDER_SCALE = 2;
+
+// PDF.js is loaded on demand; it needs the browser
+let pdfjsLib: typeof import('pdfjs-dist') | null = null;
+
+export async function loadPdfJs() {
+    if (pdfjsLib) return pdfjsLib;
+    if (typeof window === 'undefined') return null;
+
+    const pdfjs = await import('pdfjs-dist');
+    pdfjs.GlobalWorkerOptions.workerSrc = '/pdf.worker.min.mjs';
+    pdfjsLib = pdfjs;
+    return pdfjs;
+}
+
+/**
+ * Expand "1-3, 5, 9-" into sorted page numbers within [1, pageCount]. An
+ * empty range selects every page.
+ */
+export function parsePageRange(input: string, pageCount: number): number[] {
+    if (!input.trim()) return Array.from({ length: pageCount }, (_, i) => i + 1);
+
+    const pages = new Set<number>();
+    for (const token of input.split(/[,;]/).map((t) => t.trim()).filter(Boolean)) {
+        const match = token.match(/^(\d+)?\s*(?:(-|–)\s*(\d+)?)?$/);
+        if (!match || (!match[1] && !match[3])) {
+            throw new Error(`Invalid page range: "${token}"`);
+        }
+        const from = match[1] ? Number(match[1]) : 1;
+        const to = match[2] ? (match[3] ? Number(match[3]) : pageCount) : from;
+        // "5-3" would otherwise select nothing without a word
+        if (match[3] && from > to) {
+            throw new Error(`Invalid page range: "${token}" (start is after end)`);
+        }
+        for (let page = Math.max(from, 1); page <= Math.min(to, pageCount); page++) {
+            pages.add(page);
+        }
+    }
+    if (pages.size === 0) {
+        throw new Error(`Page range "${input}" selects no pages (the document has ${pageCount})`);
+    }
+    return [...pages].sort((a, b) => a - b);
+}
+
+// ---------------------------------------------------------------------------
+// Text rebuild
+// ---------------------------------------------------------------------------
+
+interface TextLine {
+    text: string;
+    x: number;
+    y: number;
+    size: number;
+    page: number;
+}
+
+export const SECTION_NAME_PATTERN = /^(?:[IVX]+\.?\s+|\d+(?:\.\d+)*\.?\s+)?(?:abstract|introduction|related work|background|preliminaries|method(?:s|ology)?|approach|proposed method|experiments?|experimental (?:setup|results)|evaluation|results|discussion|conclusions?|limitations|references|bibliography|acknowledg(?:e)?ments?|appendix)$/i;
+const NUMBERED_HEADING_PATTERN = /^(?:\d+(?:\.\d+)*\.?|[IVX]+\.)\s+[A-Z][^.]*$/;
+const INLINE_ABSTRACT_PATTERN = /^abstract\s*[—–:.-]\s*/i;
+const CAPTION_PATTERN = /^(?:fig(?:ure)?\.?|table)\s*\d+\s*[.:|]/i;
+const MAX_HEADING_LENGTH = 80;
+
+function groupLines(items: PdfTextItem[], page: number): TextLine[] {
+    const lines: TextLine[] = [];
+    let current: TextLine | null = null;
+    let lastEnd = 0;
+
+    for (const item of items) {
+        if (!item.str && !item.hasEOL) continue;
+        const sameLine = current && Math.abs(item.y - current.y) < Math.max(current.size, item.size) * 0.5;
+        if (item.str) {
+            if (current && sameLine) {
+                // Items often split mid-line without a space; infer one from the gap
+                const gap = item.x - lastEnd;
+                const needsSpace = gap > item.size * 0.15 && !current.text.endsWith(' ') && !item.str.startsWith(' ');
+                current.text += (needsSpace ? ' ' : '') + item.str;
+                current.size = Math.max(current.size, item.size);
+            } else {
+                current = { text: item.str, x: item.x, y: item.y, size: item.size, page };
+                lines.push(current);
+            }
+            lastEnd = item.x + item.width;
+        }
+        if (item.hasEOL) current = null;
+    }
+
+    return lines
+        .map((line) => ({ ...line, text: line.text.replace(/\s+/g, ' ').trim() }))
+        .filter((line) => line.text);
+}
+
+// Font size covering the most characters: the body text
+function bodyFontSize(lines: TextLine[]): number {
+    const weights = new Map<number, number>();
+    for (const line of lines) {
+        const size = Math.round(line.size * 2) / 2;
+        weights.set(size, (weights.get(size) ?? 0) + line.text.length);
+    }
+    let best = 0;
+    let bestWeight = -1;
+    for (const [size, weight] of weights) {
+        if (weight > bestWeight) {
+            best = size;
+            bestWeight = weight;
+        }
+    }
+    return best;
+}
+
+// Running headers, footers and page numbers repeat on most pages
+function isPageFurniture(line: TextLine, repeated: Set<string>): boolean {
+    if (/^\d+$/.test(line.text)) return true;
+    return repeated.has(line.text.replace(/\d+/g, '#'));
+}
+
+function findRepeatedLines(lines: TextLine[], pageCount: number): Set<string> {
+    const repeated = new Set<string>();
+    if (pageCount < 3) return repeated;
+    const pagesByText = new Map<string, Set<number>>();
+    for (const line of lines) {
+        const key = line.text.replace(/\d+/g, '#');
+        if (!pagesByText.has(key)) pagesByText.set(key, new Set());
+        pagesByText.get(key)!.add(line.page);
+    }
+    for (const [text, pages] of pagesByText) {
+        if (pages.size > pageCount / 2) repeated.add(text);
+    }
+    return repeated;
+}
+
+function isHeading(line: TextLine, bodySize: number): boolean {
+    const text = line.text;
+    if (text.length > MAX_HEADING_LENGTH || CAPTION_PATTERN.test(text)) return false;
+    // Table-of-contents entries with dot leaders
+    if (/\.\s?\.\s?\./.test(text)) return false;
+    if (SECTION_NAME_PATTERN.test(text)) return true;
+    if (/[.,;]$/.test(text)) return false;
+    return line.size >= bodySize * 1.15 || (NUMBERED_HEADING_PATTERN.test(text) && line.size >= bodySize);
+}
+
+function joinLines(lines: string[]): string {
+    return lines.reduce((text, line) => {
+        if (!text) return line;
+        // Re-join words hyphenated across a line break
+        if (/[a-z]-$/.test(text) && /^[a-z]/.test(line)) return text.slice(0, -1) + line;
+        return `${text} ${line}`;
+    }, '');
+}
+
+/**
+ * Rebuild readable markdown from the text items of each page: the title,
+ * `##` section headings, paragraphs, and the figure and table captions
+ * gathered into a final section. Items are read in content-stream order,
+ * which follows the columns of typical two-column papers.
+ */
+export function rebuildPdfText(pages: PdfTextItem[][]): string {
+    const allLines = pages.flatMap((items, i) => groupLines(items, i + 1));
+    const repeated = findRepeatedLines(allLines, pages.length);
+    const lines = allLines.filter((line) => !isPageFurniture(line, repeated));
+    if (lines.length === 0) return '';
+
+    const bodySize = bodyFontSize(lines);
+    const blocks: string[] = [];
+    const captions: string[] = [];
+    let paragraph: string[] = [];
+    let inCaption = false;
+
+    const flush = () => {
+        if (paragraph.length === 0) return;
+        const text = joinLines(paragraph);
+        if (inCaption) captions.push(text);
+        else blocks.push(text);
+        paragraph = [];
+        inCaption = false;
+    };
+
+    // Title, authors and affiliations come before the first named section
+    const frontMatterEnd = Math.max(
+        lines.findIndex((l) => SECTION_NAME_PATTERN.test(l.text) || INLINE_ABSTRACT_PATTERN.test(l.text)),
+        0
+    );
+    const frontMatter = lines.slice(0, frontMatterEnd).filter((l) => l.page === lines[0].page);
+
+    // The largest front-matter text is the title
+    const titleSize = Math.max(0, ...frontMatter.map((l) => l.size));
+    const titleLines = titleSize >= bodySize * 1.3 ? frontMatter.filter((l) => l.size >= titleSize * 0.95) : [];
+    if (titleLines.length > 0) blocks.push(`# ${joinLines(titleLines.map((l) => l.text))}`);
+
+    let previous: TextLine | null = null;
+    lines.forEach((line, index) => {
+        if (titleLines.includes(line)) return;
+
+        const inlineAbstract = line.text.match(INLINE_ABSTRACT_PATTERN);
+        if (inlineAbstract) {
+            flush();
+            blocks.push('## Abstract');
+            paragraph.push(line.text.slice(inlineAbstract[0].length));
+            previous = line;
+            return;
+        }
+
+        // Author names are often set larger than body text; only named sections count there
+        if (index >= frontMatterEnd ? isHeading(line, bodySize) : SECTION_NAME_PATTERN.test(line.text)) {
+            flush();
+            blocks.push(`## ${line.text}`);
+            previous = line;
+            return;
+        }
+
+        if (CAPTION_PATTERN.test(line.text)) {
+            flush();
+            inCaption = true;
+        } else if (previous) {
+            // A new paragraph starts after a wide vertical gap, or on a new column or page
+            const gap = previous.y - line.y;
+            const newBlock = line.page !== previous.page || gap < 0 || gap > Math.max(previous.size, line.size) * 1.8;
+            if (newBlock) flush();
+        }
+        paragraph.push(line.text);
+        previous = line;
+    });
+    flush();
+
+    if (captions.length > 0) {
+        blocks.push('## Figure and Table Captions', ...captions);
+    }
+    return blocks.join('\n\n');
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+/**
+ * Import the selected pages of a PDF as rebuilt text, rendered page images,
+ * or both.
+ */
+export async function importPdf(file: File, options: PdfImportOptions): Promise<PdfImportResult> {
+    const pdfjs = await loadPdfJs();
+    if (!pdfjs) throw new Error('PDF.js not available');
+
+    const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+    const pageCount = pdf.numPages;
+    const pages = parsePageRange(options.pageRange, pageCount);
+    const wantText = options.mode !== 'images';
+    const wantImages = options.mode !== 'text';
+    const pageItems: PdfTextItem[][] = [];
+    const images: string[] = [];
+
+    for (const pageNumber of pages) {
+        const page = await pdf.getPage(pageNumber);
+
+        if (wantText) {
+            const content = await page.getTextContent();
+            pageItems.push(content.items.flatMap((item) => 'str' in item ? [{
+                str: item.str,
+                x: item.transform[4],
+                y: item.transform[5],
+                width: item.width,
+                // Vertical scale of the text matrix; `height` is 0 for some fonts
+                size: Math.hypot(item.transform[2], item.transform[3]) || item.height,
+                hasEOL: item.hasEOL,
+            }] : []));
+        }
+
+        if (wantImages) {
+            const viewport = page.getViewport({ scale: RENDER_SCALE });
+            const canvas = document.createElement('canvas');
+            canvas.width = viewport.width;
+            canvas.height = viewport.height;
+            await page.render({
+                canvasContext: canvas.getContext('2d')!,
+                viewport,
+            } as Parameters<typeof page.render>[0]).promise;
+            images.push(canvas.toDataURL('image/png'));
+        }
+
+        page.cleanup();
+    }
+    await pdf.destroy();
+
+    return {
+        pageCount,
+        pages,
+        text: wantText ? rebuildPdfText(pageItems) : '',
+        images,
+    };
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import {
+    createBuiltInTemplates,
+    exportPromptTemplates,
+    fillPromptTemplate,
+    findMissingPlaceholders,
+    findUnknownPlaceholders,
+    parsePromptTemplateExport,
+    PromptTemplate,
+} from './prompts';
+
+function template(overrides: Partial<PromptTemplate> = {}): PromptTemplate {
+    return {
+        id: 'venue-acl',
+        name: 'ACL style',
+        stage: 'architect',
+        builtIn: false,
+        versions: [
+            { id: 'v1', content: 'Old draft', createdAt: 1 },
+            { id: 'v2', content: 'Summarize for ACL:\n{paper_content}', createdAt: 2 },
+        ],
+        ...overrides,
+    };
+}
+
+describe('placeholder validation', () => {
+    it('reports the placeholders a stage needs but the template lacks', () => {
+        expect(findMissingPlaceholders('architect', 'Read {paper_content}')).toEqual([]);
+        expect(findMissingPlaceholders('renderer', 'Draw {paper_content}')).toEqual(['{visual_schema_content}']);
+    });
+
+    it('reports placeholders the stage cannot fill, once each', () => {
+        expect(findUnknownPlaceholders('renderer', '{visual_schema_content} {venue} {venue} {Not_A_Placeholder}'))
+            .toEqual(['{venue}']);
+    });
+
+    it('accepts every built-in template', () => {
+        for (const builtIn of createBuiltInTemplates()) {
+            const content = builtIn.versions[0].content;
+            expect(findMissingPlaceholders(builtIn.stage, content)).toEqual([]);
+            expect(findUnknownPlaceholders(builtIn.stage, content)).toEqual([]);
+        }
+    });
+});
+
+describe('fillPromptTemplate', () => {
+    it('replaces every occurrence and leaves other braces alone', () => {
+        const filled = fillPromptTemplate('{paper_content}\n---\n{paper_content} {"json": true} {other}', {
+            paper_content: 'Text',
+        });
+        expect(filled).toBe('Text\n---\nText {"json": true} {other}');
+    });
+
+    it('does not expand placeholders inside substituted values', () => {
+        const filled = fillPromptTemplate('{a} {b}', { a: '{b}', b: 'B' });
+        expect(filled).toBe('{b} B');
+    });
+});
+
+describe('parsePromptTemplateExport', () => {
+    it('reads back an export', () => {
+        const templates = [template()];
+        expect(parsePromptTemplateExport(exportPromptTemplates(templates))).toEqual(templates);
+    });
+
+    it.each([
+        ['invalid JSON', '{', 'Not a valid JSON file'],
+        ['null', 'null', 'Not a prompt template export'],
+        ['a bare array', '[]', 'Not a prompt template export'],
+        ['a string', '"templates"', 'Not a prompt template export'],
+        ['another format', '{"format":"other","templates":[]}', 'Not a prompt template export'],
+    ])('rejects %s', (_, json, message) => {
+        expect(() => parsePromptTemplateExport(json)).toThrow(message);
+    });
+
+    it('rejects templates with a bad stage, no versions or missing placeholders', () => {
+        const file = (t: unknown) => JSON.stringify({ format: 'aia-prompt-templates', version: 1, templates: [t] });
+
+        expect(() => parsePromptTemplateExport(file(template({ stage: 'critic' as never }))))
+            .toThrow('Template ACL style has no valid name or stage');
+        expect(() => parsePromptTemplateExport(file(null))).toThrow('Template #1 has no valid name or stage');
+        expect(() => parsePromptTemplateExport(file(template({ versions: [] })))).toThrow('Template ACL style has no versions');
+        // Only the current (last) version has to be complete
+        expect(() => parsePromptTemplateExport(file(template({ stage: 'renderer' }))))
+            .toThrow('Template ACL style is missing {visual_schema_content}');
+    });
+});
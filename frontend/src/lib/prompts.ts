@@ -0,0 +1,219 @@
+/**
+ * Prompt template library. The built-in templates below are the defaults;
+ * users can add their own per stage, edit them (every save is a new version)
+ * and import/export them as JSON from the Settings modal.
+ */
+
+export type PromptStage = 'architect' | 'renderer' | 'rendererWithReferences';
+
+export const PROMPT_STAGES: PromptStage[] = ['architect', 'renderer', 'rendererWithReferences'];
+
+// Placeholders each stage's template must contain
+export const PROMPT_PLACEHOLDERS: Record<PromptStage, string[]> = {
+    architect: ['{paper_content}'],
+    renderer: ['{visual_schema_content}'],
+    rendererWithReferences: ['{visual_schema_content}'],
+};
+
+export interface PromptTemplateVersion {
+    id: string;
+    content: string;
+    createdAt: number;
+    note?: string;
+}
+
+export interface PromptTemplate {
+    id: string;
+    name: string;
+    stage: PromptStage;
+    builtIn: boolean;
+    versions: PromptTemplateVersion[]; // Oldest first; the last one is current
+}
+
+export type PromptTemplateSet = Record<PromptStage, string>;
+
+export interface PromptTemplateExport {
+    format: 'aia-prompt-templates';
+    version: 1;
+    templates: PromptTemplate[];
+}
+
+// Built-in prompt templates (moved from backend)
+export const ARCHITECT_PROMPT_TEMPLATE = `You are an expert academic diagram architect. Analyze the following paper content and generate a detailed Visual Schema that describes a publication-quality academic diagram.
+
+The Visual Schema should include:
+1. Layout structure (zones, panels, sections)
+2. Visual elements (shapes, icons, connections)
+3. Color scheme
+4. Text labels and annotations
+5. Flow/direction indicators
+
+Paper Content:
+{paper_content}
+
+Generate a comprehensive Visual Schema in the following format:
+
+---BEGIN PROMPT---
+[DIAGRAM TITLE]
+A clear, descriptive title for the diagram
+
+[OVERALL LAYOUT]
+Describe the overall structure and organization
+
+[ZONES/SECTIONS]
+Detail each zone or section with:
+- Position and size
+- Background color/style
+- Content description
+
+[VISUAL ELEMENTS]
+List all visual elements with:
+- Type (box, arrow, icon, etc.)
+- Position
+- Style (color, border, shadow)
+- Content/label
+
+[CONNECTIONS]
+Describe connections between elements:
+- From/To
+- Arrow style
+- Labels
+
+[COLOR PALETTE]
+List the main colors used
+
+[KEY TEXT LABELS]
+Important text annotations
+---END PROMPT---`;
+
+export const RENDERER_PROMPT_TEMPLATE = `You are an expert academic diagram renderer. Based on the following Visual Schema, generate a high-quality academic diagram suitable for CVPR/NeurIPS publications.
+
+{visual_schema_content}
+
+Create a clean, professional academic diagram with:
+- Clear visual hierarchy
+- Professional color scheme
+- Crisp lines and shapes
+- Readable text labels
+- Publication-quality aesthetics`;
+
+export const RENDERER_WITH_REFERENCES_TEMPLATE = `You are an expert academic diagram renderer. Based on the following Visual Schema and reference images, generate a high-quality academic diagram that matches the style of the references.
+
+{visual_schema_content}
+
+The reference images show the desired aesthetic style. Generate a diagram that:
+- Follows the layout and structure from the Visual Schema
+- Matches the visual style of the reference images
+- Has publication-quality aesthetics suitable for CVPR/NeurIPS`;
+
+// Chat refinement is not part of the template library; it must keep the schema format intact
+export const REFINE_SCHEMA_PROMPT_TEMPLATE = `You are an expert academic diagram architect. You are refining an existing Visual Schema together with the user over several turns.
+
+Current Visual Schema:
+{visual_schema_content}
+
+Conversation so far:
+{conversation}
+
+New request from the user:
+{instruction}
+
+Apply the request to the Visual Schema and change nothing else. Reply with one short sentence summarizing what you changed, followed by the complete updated Visual Schema, keeping the ---BEGIN PROMPT--- and ---END PROMPT--- markers and the same section structure.`;
+
+// Region edits are not part of the template library; mask-based endpoints only get {instruction}
+export const IMAGE_EDIT_PROMPT_TEMPLATE = `You are editing an existing academic diagram. The first image is the diagram. The second image is the same diagram with the region to change highlighted in red.
+
+Apply the following instruction ONLY inside the highlighted region:
+{instruction}
+
+Keep everything outside that region exactly as it is: layout, colors, text, line styles and resolution. Do not include the red highlight in the output.`;
+
+export const DEFAULT_PROMPT_TEMPLATES: PromptTemplateSet = {
+    architect: ARCHITECT_PROMPT_TEMPLATE,
+    renderer: RENDERER_PROMPT_TEMPLATE,
+    rendererWithReferences: RENDERER_WITH_REFERENCES_TEMPLATE,
+};
+
+export const BUILT_IN_TEMPLATE_IDS: Record<PromptStage, string> = {
+    architect: 'builtin-architect',
+    renderer: 'builtin-renderer',
+    rendererWithReferences: 'builtin-renderer-with-references',
+};
+
+export function createBuiltInTemplates(): PromptTemplate[] {
+    return PROMPT_STAGES.map((stage) => ({
+        id: BUILT_IN_TEMPLATE_IDS[stage],
+        name: 'Default (CVPR/NeurIPS)',
+        stage,
+        builtIn: true,
+        versions: [{ id: `${BUILT_IN_TEMPLATE_IDS[stage]}-v1`, content: DEFAULT_PROMPT_TEMPLATES[stage], createdAt: 0 }],
+    }));
+}
+
+export function getCurrentContent(template: PromptTemplate): string {
+    return template.versions[template.versions.length - 1]?.content ?? '';
+}
+
+/**
+ * Return the placeholders required by `stage` that `content` is missing
+ */
+export function findMissingPlaceholders(stage: PromptStage, content: string): string[] {
+    return PROMPT_PLACEHOLDERS[stage].filter((placeholder) => !content.includes(placeholder));
+}
+
+/**
+ * Return `{placeholders}` in `content` that no stage knows how to fill
+ */
+export function findUnknownPlaceholders(stage: PromptStage, content: string): string[] {
+    const found = content.match(/\{[a-z_]+\}/g) || [];
+    return Array.from(new Set(found)).filter((p) => !PROMPT_PLACEHOLDERS[stage].includes(p));
+}
+
+/**
+ * Fill `{placeholders}` in one pass, so placeholder-like text inside a value
+ * (a paper quoting `{visual_schema_content}`) is left as is
+ */
+export function fillPromptTemplate(template: string, values: Record<string, string>): string {
+    return template.replace(/\{([a-z_]+)\}/g, (placeholder, key: string) => (
+        Object.prototype.hasOwnProperty.call(values, key) ? values[key] : placeholder
+    ));
+}
+
+export function exportPromptTemplates(templates: PromptTemplate[]): string {
+    const payload: PromptTemplateExport = { format: 'aia-prompt-templates', version: 1, templates };
+    return JSON.stringify(payload, null, 2);
+}
+
+/**
+ * Parse and validate an exported template file. Throws on malformed input or
+ * when a template is missing its stage's required placeholders.
+ */
+export function parsePromptTemplateExport(json: string): PromptTemplate[] {
+    let payload: Partial<PromptTemplateExport> | null;
+    try {
+        payload = JSON.parse(json);
+    } catch {
+        throw new Error('Not a valid JSON file');
+    }
+
+    if (typeof payload !== 'object' || payload === null || Array.isArray(payload)
+        || payload.format !== 'aia-prompt-templates' || !Array.isArray(payload.templates)) {
+        throw new Error('Not a prompt template export');
+    }
+
+    return payload.templates.map((template, index) => {
+        const label = template?.name || `#${index + 1}`;
+        if (!template || typeof template.name !== 'string' || !PROMPT_STAGES.includes(template.stage)) {
+            throw new Error(`Template ${label} has no valid name or stage`);
+        }
+        if (!Array.isArray(template.versions) || template.versions.length === 0
+            || template.versions.some((v) => typeof v?.content !== 'string')) {
+            throw new Error(`Template ${label} has no versions`);
+        }
+        const missing = findMissingPlaceholders(template.stage, getCurrentContent(template));
+        if (missing.length > 0) {
+            throw new Error(`Template ${label} is missing ${missing.join(', ')}`);
+        }
+        return template;
+    });
+}
@@ -0,0 +1,92 @@
+import { configRequestFields, parseDataUrl, postViaProxy, streamViaProxy } from './proxy';
+import { readSSE } from './stream';
+import type { ModelConfig, ProviderAdapter } from './types';
+
+interface MessagesUsage {
+    input_tokens?: number;
+    output_tokens?: number;
+}
+
+interface MessagesResponse {
+    content?: { type: string; text?: string }[];
+    usage?: MessagesUsage;
+}
+
+// Input tokens arrive with message_start, the final output count with message_delta
+interface MessagesStreamEvent {
+    type: string;
+    delta?: { type: string; text?: string };
+    message?: { usage?: MessagesUsage };
+    usage?: MessagesUsage;
+}
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+function messagesRequest(config: ModelConfig, prompt: string, images: string[] | undefined, stream: boolean) {
+    const content: unknown[] = [];
+    (images || []).forEach((img) => {
+        const parsed = parseDataUrl(img);
+        if (parsed) {
+            content.push({
+                type: 'image',
+                source: { type: 'base64', media_type: parsed.mimeType, data: parsed.data },
+            });
+        }
+    });
+    content.push({ type: 'text', text: prompt });
+
+    return {
+        ...configRequestFields(config, 'x-api-key', { 'anthropic-version': ANTHROPIC_VERSION }),
+        baseUrl: config.useUrlAsIs
+            ? config.baseUrl.replace(/\/$/, '')
+            : config.baseUrl.replace(/\/$/, '').replace(/\/v1$/, ''),
+        path: '/v1/messages',
+        body: {
+            model: config.modelName,
+            max_tokens: 4096,
+            messages: [{ role: 'user', content }],
+            ...(stream ? { stream: true } : {}),
+        },
+    };
+}
+
+/**
+ * Anthropic Messages API (/v1/messages). Text only: there is no image output.
+ */
+export const anthropicAdapter: ProviderAdapter = {
+    id: 'anthropic',
+    label: 'Anthropic Messages',
+    defaultBaseUrl: 'https://api.anthropic.com',
+    requiresApiKey: true,
+
+    generateText: async (config, prompt, images, { signal, onUsage } = {}) => {
+        const data = await postViaProxy<MessagesResponse>(messagesRequest(config, prompt, images, false), signal);
+        if (data.usage) {
+            onUsage?.({ promptTokens: data.usage.input_tokens ?? 0, completionTokens: data.usage.output_tokens ?? 0 });
+        }
+        return (data.content || [])
+            .filter((block) => block.type === 'text' && block.text)
+            .map((block) => block.text)
+            .join('');
+    },
+
+    streamText: async (config, prompt, images, { signal, onText, onUsage }) => {
+        const response = await streamViaProxy(messagesRequest(config, prompt, images, true), signal);
+        let text = '';
+        let promptTokens = 0;
+        let completionTokens: number | null = null;
+        await readSSE(response, (event) => {
+            const { type, delta, message, usage } = event as MessagesStreamEvent;
+            if (type === 'content_block_delta' && delta?.type === 'text_delta' && delta.text) {
+                text += delta.text;
+                onText?.(text);
+            } else if (type === 'message_start') {
+                promptTokens = message?.usage?.input_tokens ?? 0;
+            } else if (type === 'message_delta' && usage?.output_tokens !== undefined) {
+                completionTokens = usage.output_tokens;
+            }
+        });
+        if (completionTokens !== null) onUsage?.({ promptTokens, completionTokens });
+        return text;
+    },
+};
@@ -0,0 +1,22 @@
+import type { ProviderId } from './types';
+
+/** A server-side credential profile as the browser sees it: everything but the key */
+export interface CredentialProfileSummary {
+    id: string;
+    name: string;
+    provider: ProviderId;
+    baseUrl: string;
+    /** Models the profile is meant for; empty when any model goes */
+    models: string[];
+}
+
+/**
+ * Credential profiles configured on the server. Empty when there are none
+ * or the route is unavailable, e.g. in a static export.
+ */
+export async function fetchCredentialProfiles(): Promise<CredentialProfileSummary[]> {
+    const response = await fetch('/api/credentials');
+    if (!response.ok) return [];
+    const data = await response.json();
+    return data.profiles || [];
+}
@@ -0,0 +1,36 @@
+/**
+ * Error from a provider call, carrying the HTTP status so callers can tell
+ * rate limits and outages (worth retrying) from bad requests (not).
+ */
+export class ProviderError extends Error {
+    /** HTTP status of the failed response; undefined for network errors and timeouts */
+    readonly status?: number;
+    /** Delay the provider asked for in its Retry-After header */
+    readonly retryAfterMs?: number;
+    readonly timedOut: boolean;
+    /** The request never got a response: the network or the app's server was unreachable */
+    readonly networkError: boolean;
+
+    constructor(
+        message: string,
+        options: { status?: number; retryAfterMs?: number; timedOut?: boolean; networkError?: boolean } = {}
+    ) {
+        super(message);
+        this.name = 'ProviderError';
+        this.status = options.status;
+        this.retryAfterMs = options.retryAfterMs;
+        this.timedOut = options.timedOut ?? false;
+        this.networkError = options.networkError ?? false;
+    }
+}
+
+/**
+ * Parse a Retry-After header: either delay-seconds or an HTTP date.
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+    if (!value) return undefined;
+    const seconds = Number(value.trim());
+    if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - now);
+}
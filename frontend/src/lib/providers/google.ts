@@ -0,0 +1,150 @@
+import { GenerateContentResponse, GoogleGenAI } from '@google/genai';
+import { ProviderError } from './errors';
+import { parseDataUrl } from './proxy';
+import type { CallOptions, ProviderAdapter, RenderImageResponse } from './types';
+
+type GooglePart = string | { inlineData: { mimeType: string; data: string } };
+
+function toContents(prompt: string, images?: string[]): GooglePart | GooglePart[] {
+    const contents: GooglePart[] = [prompt];
+    // Convert data URLs to inlineData parts
+    (images || []).forEach((img) => {
+        const parsed = parseDataUrl(img);
+        if (parsed) {
+            contents.push({ inlineData: parsed });
+        }
+    });
+    return contents.length === 1 ? contents[0] : contents;
+}
+
+function reportUsage(response: GenerateContentResponse, onUsage: CallOptions['onUsage']) {
+    const usage = response.usageMetadata;
+    if (usage) {
+        onUsage?.({ promptTokens: usage.promptTokenCount ?? 0, completionTokens: usage.candidatesTokenCount ?? 0 });
+    }
+}
+
+// Keep the HTTP status of SDK errors (ApiError.status) so rate limits can be retried
+function googleError(error: unknown): ProviderError {
+    const status = (error as { status?: unknown })?.status;
+    return new ProviderError(`Google Native API Failed: ${error instanceof Error ? error.message : error}`, {
+        status: typeof status === 'number' ? status : undefined,
+    });
+}
+
+function extractInlineImage(response: GenerateContentResponse): RenderImageResponse {
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
+        if (part.inlineData && part.inlineData.data) {
+            const mimeType = part.inlineData.mimeType || 'image/png';
+            return { imageUrl: `data:${mimeType};base64,${part.inlineData.data}` };
+        }
+    }
+    return { imageUrl: null, text: 'No image generated in Google Native response.' };
+}
+
+/**
+ * Google GenAI native SDK (@google/genai), called directly from the browser
+ */
+export const googleAdapter: ProviderAdapter = {
+    id: 'google',
+    label: 'Google GenAI (native)',
+    defaultBaseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+    requiresApiKey: true,
+
+    generateText: async (config, prompt, images, { signal, onUsage } = {}) => {
+        try {
+            const ai = new GoogleGenAI({ apiKey: config.apiKey });
+            const response = await ai.models.generateContent({
+                model: config.modelName,
+                contents: toContents(prompt, images),
+                config: { abortSignal: signal },
+            });
+            reportUsage(response, onUsage);
+
+            // Extract text
+            let text = '';
+            for (const part of response.candidates?.[0]?.content?.parts || []) {
+                if (part.text) {
+                    text += part.text;
+                }
+            }
+            return text;
+        } catch (error) {
+            if (signal?.aborted) throw error;
+            console.error('Google Native Schema Gen Error:', error);
+            throw googleError(error);
+        }
+    },
+
+    streamText: async (config, prompt, images, { signal, onText, onUsage }) => {
+        try {
+            const ai = new GoogleGenAI({ apiKey: config.apiKey });
+            const stream = await ai.models.generateContentStream({
+                model: config.modelName,
+                contents: toContents(prompt, images),
+                config: { abortSignal: signal },
+            });
+
+            let text = '';
+            // Every chunk carries the running usage; the last one has the totals
+            let last: GenerateContentResponse | null = null;
+            for await (const chunk of stream) {
+                last = chunk;
+                if (chunk.text) {
+                    text += chunk.text;
+                    onText?.(text);
+                }
+            }
+            if (last) reportUsage(last, onUsage);
+            return text;
+        } catch (error) {
+            if (signal?.aborted) throw error;
+            console.error('Google Native Schema Gen Error:', error);
+            throw googleError(error);
+        }
+    },
+
+    generateImage: async (config, prompt, referenceImages, { signal, onUsage } = {}) => {
+        try {
+            const ai = new GoogleGenAI({ apiKey: config.apiKey });
+            const response = await ai.models.generateContent({
+                model: config.modelName,
+                contents: toContents(prompt, referenceImages),
+                config: {
+                    abortSignal: signal,
+                    temperature: config.temperature,
+                    tools: [{ googleSearch: {} }],
+                    imageConfig: {
+                        aspectRatio: '16:9',
+                        imageSize: '4K',
+                    },
+                },
+            });
+            reportUsage(response, onUsage);
+
+            return extractInlineImage(response);
+        } catch (error) {
+            if (signal?.aborted) throw error;
+            console.error('Google Native API Error:', error);
+            throw googleError(error);
+        }
+    },
+
+    // Gemini image models edit from an instruction; the highlighted copy marks the region
+    editImage: async (config, prompt, { image, markedImage }, { signal, onUsage } = {}) => {
+        try {
+            const ai = new GoogleGenAI({ apiKey: config.apiKey });
+            const response = await ai.models.generateContent({
+                model: config.modelName,
+                contents: toContents(prompt, [image, markedImage]),
+                config: { abortSignal: signal, temperature: config.temperature },
+            });
+            reportUsage(response, onUsage);
+            return extractInlineImage(response);
+        } catch (error) {
+            if (signal?.aborted) throw error;
+            console.error('Google Native API Error:', error);
+            throw googleError(error);
+        }
+    },
+};
@@ -0,0 +1,54 @@
+import { anthropicAdapter } from './anthropic';
+import { googleAdapter } from './google';
+import { mockAdapter } from './mock';
+import { ollamaAdapter } from './ollama';
+import { openAIChatAdapter, openAIImagesAdapter } from './openai';
+import type { ModelConfig, ProviderAdapter, ProviderId } from './types';
+
+export { fetchCredentialProfiles } from './credentials';
+export type { CredentialProfileSummary } from './credentials';
+export { ProviderError, parseRetryAfter } from './errors';
+export type {
+    AuthScheme,
+    CallOptions,
+    EditImageRequest,
+    ModelConfig,
+    ProviderAdapter,
+    ProviderId,
+    RenderImageResponse,
+    StreamOptions,
+    TokenUsage,
+} from './types';
+
+const adapters: Record<ProviderId, ProviderAdapter> = {
+    'openai': openAIChatAdapter,
+    'openai-images': openAIImagesAdapter,
+    'google': googleAdapter,
+    'anthropic': anthropicAdapter,
+    'ollama': ollamaAdapter,
+    'mock': mockAdapter,
+};
+
+export function getProviderAdapter(id: ProviderId): ProviderAdapter {
+    const adapter = adapters[id];
+    if (!adapter) {
+        throw new Error(`Unknown provider: ${id}`);
+    }
+    return adapter;
+}
+
+/** Whether the config still needs a key: none typed in and no server profile to supply one */
+export function needsApiKey(config: ModelConfig): boolean {
+    return getProviderAdapter(config.provider).requiresApiKey && !config.apiKey && !config.credentialProfile;
+}
+
+/**
+ * Adapters usable for a workflow stage: text output for the logic model,
+ * image output for the vision model.
+ */
+export function listProviderAdapters(stage?: 'logic' | 'vision'): ProviderAdapter[] {
+    const all = Object.values(adapters);
+    if (stage === 'logic') return all.filter((a) => a.generateText);
+    if (stage === 'vision') return all.filter((a) => a.generateImage);
+    return all;
+}
@@ -0,0 +1,76 @@
+import { fetchRoute } from './proxy';
+import { readSSE } from './stream';
+import type { ModelConfig, ProviderAdapter, RenderImageResponse, TokenUsage } from './types';
+
+interface MockTextResponse {
+    text: string;
+    usage: TokenUsage;
+}
+
+interface MockImageResponse extends RenderImageResponse {
+    usage: TokenUsage;
+}
+
+// Query parameters (latency, error, errorRate) tell the mock route how to behave
+function mockUrl(config: ModelConfig, endpoint: 'text' | 'image'): string {
+    const base = (config.baseUrl || '/api/mock').replace(/\/$/, '');
+    const query = new URLSearchParams(config.queryParams).toString();
+    return `${base}/${endpoint}${query ? `?${query}` : ''}`;
+}
+
+function postMock(url: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+    return fetchRoute(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal,
+    }, 'Mock Error');
+}
+
+/**
+ * Built-in mock served by the app's own /api/mock routes: deterministic
+ * schemas and wireframe placeholder images, no network or key needed. Set
+ * `latency`, `error` (429, 500, malformed) and `errorRate` as query
+ * parameters in the config's connection options.
+ */
+export const mockAdapter: ProviderAdapter = {
+    id: 'mock',
+    label: 'Mock (offline, for development)',
+    defaultBaseUrl: '/api/mock',
+    requiresApiKey: false,
+
+    generateText: async (config, prompt, _images, { signal, onUsage } = {}) => {
+        const response = await postMock(mockUrl(config, 'text'), { prompt }, signal);
+        const data: MockTextResponse = await response.json();
+        onUsage?.(data.usage);
+        return data.text;
+    },
+
+    streamText: async (config, prompt, _images, { signal, onText, onUsage }) => {
+        const response = await postMock(mockUrl(config, 'text'), { prompt, stream: true }, signal);
+        let text = '';
+        await readSSE(response, (event) => {
+            const { text: chunk, usage } = event as Partial<MockTextResponse>;
+            if (chunk) {
+                text += chunk;
+                onText?.(text);
+            }
+            if (usage) onUsage?.(usage);
+        });
+        return text;
+    },
+
+    generateImage: async (config, prompt, _referenceImages, { signal, onUsage } = {}) => {
+        const response = await postMock(mockUrl(config, 'image'), { prompt }, signal);
+        const { usage, ...result }: MockImageResponse = await response.json();
+        onUsage?.(usage);
+        return result;
+    },
+
+    editImage: async (config, prompt, { markedImage }, { signal, onUsage } = {}) => {
+        const response = await postMock(mockUrl(config, 'image'), { prompt, image: markedImage }, signal);
+        const { usage, ...result }: MockImageResponse = await response.json();
+        onUsage?.(usage);
+        return result;
+    },
+};
@@ -0,0 +1,66 @@
+import { configRequestFields, parseDataUrl, postViaProxy, streamViaProxy } from './proxy';
+import { readNDJSON } from './stream';
+import type { CallOptions, ModelConfig, ProviderAdapter } from './types';
+
+interface OllamaChatResponse {
+    message?: { content?: string };
+    done?: boolean;
+    prompt_eval_count?: number; // Token counts, on the final (done) response
+    eval_count?: number;
+}
+
+function reportUsage(data: OllamaChatResponse, onUsage: CallOptions['onUsage']) {
+    if (data.done && data.eval_count !== undefined) {
+        onUsage?.({ promptTokens: data.prompt_eval_count ?? 0, completionTokens: data.eval_count });
+    }
+}
+
+function chatRequest(config: ModelConfig, prompt: string, images: string[] | undefined, stream: boolean) {
+    return {
+        // Local Ollama needs no key, but one behind an authenticating gateway may
+        ...configRequestFields(config, 'bearer'),
+        baseUrl: config.baseUrl.replace(/\/$/, ''),
+        path: '/api/chat',
+        body: {
+            model: config.modelName,
+            stream,
+            messages: [{
+                role: 'user',
+                content: prompt,
+                images: (images || [])
+                    .map((img) => parseDataUrl(img)?.data)
+                    .filter((data): data is string => !!data),
+            }],
+        },
+    };
+}
+
+/**
+ * Local Ollama server (/api/chat). No API key; images are sent as raw base64.
+ */
+export const ollamaAdapter: ProviderAdapter = {
+    id: 'ollama',
+    label: 'Ollama (local)',
+    defaultBaseUrl: 'http://localhost:11434',
+    requiresApiKey: false,
+
+    generateText: async (config, prompt, images, { signal, onUsage } = {}) => {
+        const data = await postViaProxy<OllamaChatResponse>(chatRequest(config, prompt, images, false), signal);
+        reportUsage(data, onUsage);
+        return data.message?.content || '';
+    },
+
+    streamText: async (config, prompt, images, { signal, onText, onUsage }) => {
+        const response = await streamViaProxy(chatRequest(config, prompt, images, true), signal);
+        let text = '';
+        await readNDJSON(response, (event) => {
+            reportUsage(event as OllamaChatResponse, onUsage);
+            const chunk = (event as OllamaChatResponse).message?.content;
+            if (chunk) {
+                text += chunk;
+                onText?.(text);
+            }
+        });
+        return text;
+    },
+};
@@ -0,0 +1,226 @@
+import { configRequestFields, postViaProxy, streamViaProxy } from './proxy';
+import { readSSE } from './stream';
+import type { CallOptions, ModelConfig, ProviderAdapter, RenderImageResponse, StreamOptions } from './types';
+
+interface ChatUsage {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+}
+
+interface ChatCompletionResponse {
+    choices?: { message?: { content?: string } }[];
+    usage?: ChatUsage;
+}
+
+interface ChatCompletionChunk {
+    choices?: { delta?: { content?: string } }[];
+    usage?: ChatUsage | null; // Only on the last chunk, with stream_options.include_usage
+}
+
+interface ImagesResponse {
+    data?: { b64_json?: string; url?: string; revised_prompt?: string }[];
+    usage?: { input_tokens?: number; output_tokens?: number };
+}
+
+function reportChatUsage(usage: ChatUsage | null | undefined, onUsage: CallOptions['onUsage']) {
+    if (usage) onUsage?.({ promptTokens: usage.prompt_tokens ?? 0, completionTokens: usage.completion_tokens ?? 0 });
+}
+
+/**
+ * Normalize an OpenAI-compatible base URL: drop a pasted /chat/completions
+ * suffix and trailing slash, and append /v1 when no version path is present.
+ */
+export function normalizeOpenAIBaseUrl(baseUrl: string): string {
+    let finalBaseUrl = baseUrl.replace(/\/chat\/completions\/?$/, '').replace(/\/$/, '');
+    if (!finalBaseUrl.endsWith('/v1')) {
+        finalBaseUrl = finalBaseUrl + '/v1';
+    }
+    return finalBaseUrl;
+}
+
+function openAIBaseUrl(config: ModelConfig): string {
+    return config.useUrlAsIs ? config.baseUrl.replace(/\/$/, '') : normalizeOpenAIBaseUrl(config.baseUrl);
+}
+
+function buildChatContent(prompt: string, images?: string[]) {
+    const content: ({ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } })[] =
+        (images || []).map((img) => ({
+            type: 'image_url' as const,
+            image_url: { url: img },
+        }));
+    content.push({ type: 'text', text: prompt });
+    return content;
+}
+
+function chatRequest(config: ModelConfig, prompt: string, images: string[] | undefined, stream: boolean) {
+    return {
+        ...configRequestFields(config, 'bearer'),
+        baseUrl: openAIBaseUrl(config),
+        path: '/chat/completions',
+        body: {
+            model: config.modelName,
+            messages: [{ role: 'user', content: buildChatContent(prompt, images) }],
+            temperature: config.temperature ?? 0.7,
+            max_tokens: 4096,
+            ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+        },
+    };
+}
+
+async function chatCompletion(
+    config: ModelConfig,
+    prompt: string,
+    images?: string[],
+    { signal, onUsage }: CallOptions = {}
+): Promise<string> {
+    const data = await postViaProxy<ChatCompletionResponse>(chatRequest(config, prompt, images, false), signal);
+    reportChatUsage(data.usage, onUsage);
+    return data.choices?.[0]?.message?.content || '';
+}
+
+async function streamChatCompletion(
+    config: ModelConfig,
+    prompt: string,
+    images: string[] | undefined,
+    { signal, onText, onUsage }: StreamOptions
+): Promise<string> {
+    const response = await streamViaProxy(chatRequest(config, prompt, images, true), signal);
+
+    // Gateways that ignore `stream: true` answer with a plain JSON body
+    if (!response.headers.get('content-type')?.includes('text/event-stream')) {
+        const data: ChatCompletionResponse = await response.json();
+        reportChatUsage(data.usage, onUsage);
+        const text = data.choices?.[0]?.message?.content || '';
+        onText?.(text);
+        return text;
+    }
+
+    let text = '';
+    await readSSE(response, (event) => {
+        const chunk = event as ChatCompletionChunk;
+        reportChatUsage(chunk.usage, onUsage);
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+            text += delta;
+            onText?.(text);
+        }
+    });
+    return text;
+}
+
+/**
+ * Chat models that return images inline (gateways for Gemini image models,
+ * etc.) answer with a data URL, raw base64, JSON or a plain URL.
+ */
+export function extractImageFromContent(resultContent: string): RenderImageResponse {
+    if (resultContent) {
+        // Look for base64 image pattern
+        const base64Pattern = /data:image\/[^;]+;base64,[A-Za-z0-9+/=]+/;
+        const match = resultContent.match(base64Pattern);
+        if (match) {
+            return { imageUrl: match[0] };
+        }
+
+        // Check for raw base64 (without data URL prefix)
+        if (resultContent.length > 1000 && /^[A-Za-z0-9+/=\s]+$/.test(resultContent)) {
+            return { imageUrl: `data:image/png;base64,${resultContent.trim()}` };
+        }
+    }
+
+    // Attempt to parse JSON response if model outputted JSON
+    try {
+        const jsonMatch = resultContent.match(/\{[\s\S]*\}/);
+        if (jsonMatch) {
+            const jsonPart = JSON.parse(jsonMatch[0]);
+            if (jsonPart.image_url) return { imageUrl: jsonPart.image_url };
+            if (jsonPart.b64_json) return { imageUrl: `data:image/png;base64,${jsonPart.b64_json}` };
+        }
+    } catch {
+        // Ignore JSON parse error
+    }
+
+    // Fallback: Return raw content if it looks like a URL
+    if (resultContent.startsWith('http')) {
+        return { imageUrl: resultContent.trim() };
+    }
+
+    return { imageUrl: null, text: resultContent };
+}
+
+/**
+ * OpenAI-compatible /chat/completions (OpenAI, DeepSeek, most gateways)
+ */
+export const openAIChatAdapter: ProviderAdapter = {
+    id: 'openai',
+    label: 'OpenAI-compatible (Chat Completions)',
+    defaultBaseUrl: 'https://api.openai.com/v1',
+    requiresApiKey: true,
+
+    generateText: chatCompletion,
+    streamText: streamChatCompletion,
+
+    generateImage: async (config, prompt, referenceImages, options) => {
+        const content = await chatCompletion(config, prompt, referenceImages, options);
+        return extractImageFromContent(content);
+    },
+
+    editImage: async (config, prompt, { image, markedImage }, options) => {
+        const content = await chatCompletion(config, prompt, [image, markedImage], options);
+        return extractImageFromContent(content);
+    },
+};
+
+function readImagesResponse(data: ImagesResponse, path: string, { onUsage }: CallOptions = {}): RenderImageResponse {
+    if (data.usage) {
+        onUsage?.({ promptTokens: data.usage.input_tokens ?? 0, completionTokens: data.usage.output_tokens ?? 0 });
+    }
+    const image = data.data?.[0];
+    if (image?.b64_json) return { imageUrl: `data:image/png;base64,${image.b64_json}` };
+    if (image?.url) return { imageUrl: image.url };
+    return { imageUrl: null, text: image?.revised_prompt || `No image returned by ${path}.` };
+}
+
+/**
+ * OpenAI Images API (/images/generations), e.g. gpt-image-1 or dall-e-3.
+ * This endpoint takes no input images, so reference images are not sent.
+ * Region edits go to /images/edits as multipart form data.
+ */
+export const openAIImagesAdapter: ProviderAdapter = {
+    id: 'openai-images',
+    label: 'OpenAI Images (/images/generations)',
+    defaultBaseUrl: 'https://api.openai.com/v1',
+    requiresApiKey: true,
+
+    generateImage: async (config, prompt, _referenceImages, options) => {
+        const data = await postViaProxy<ImagesResponse>({
+            ...configRequestFields(config, 'bearer'),
+            baseUrl: openAIBaseUrl(config),
+            path: '/images/generations',
+            body: {
+                model: config.modelName,
+                prompt,
+                n: 1,
+            },
+        }, options?.signal);
+
+        return readImagesResponse(data, '/images/generations', options);
+    },
+
+    // /images/edits takes the mask directly, so the raw instruction is the prompt
+    editImage: async (config, _prompt, { image, mask, instruction }, options) => {
+        const data = await postViaProxy<ImagesResponse>({
+            ...configRequestFields(config, 'bearer'),
+            baseUrl: openAIBaseUrl(config),
+            path: '/images/edits',
+            form: {
+                model: config.modelName,
+                prompt: instruction,
+                n: '1',
+                image: { dataUrl: image, filename: 'image.png' },
+                mask: { dataUrl: mask, filename: 'mask.png' },
+            },
+        }, options?.signal);
+
+        return readImagesResponse(data, '/images/edits', options);
+    },
+};
@@ -0,0 +1,111 @@
+import { dataUrlToBlob } from '@/lib/images';
+import { parseRetryAfter, ProviderError } from './errors';
+import type { AuthScheme, ModelConfig } from './types';
+
+/** A file field of a multipart request, uploaded to the proxy as binary */
+export interface ProxyFile {
+    dataUrl: string;
+    filename: string;
+}
+
+interface ProxyRequest {
+    baseUrl: string;
+    path: string;
+    body?: unknown;
+    /** Sent upstream as multipart/form-data instead of a JSON body */
+    form?: Record<string, string | ProxyFile>;
+    apiKey?: string;
+    /** Header the key goes in; defaults to `Authorization: Bearer` */
+    authScheme?: AuthScheme;
+    /** Server-side credential profile whose key the proxy injects */
+    credentialProfile?: string;
+    headers?: Record<string, string>;
+    /** Query parameters added to the upstream URL */
+    query?: Record<string, string>;
+}
+
+/**
+ * The parts of a proxy request that come from the model config: the key and
+ * where it goes, extra headers and query parameters. `defaultScheme` is the
+ * provider's usual auth header; config headers win over the adapter's own.
+ */
+export function configRequestFields(
+    config: ModelConfig,
+    defaultScheme: AuthScheme,
+    headers: Record<string, string> = {}
+): Pick<ProxyRequest, 'apiKey' | 'authScheme' | 'credentialProfile' | 'headers' | 'query'> {
+    return {
+        apiKey: config.apiKey,
+        authScheme: config.authScheme ?? defaultScheme,
+        credentialProfile: config.credentialProfile,
+        headers: { ...headers, ...config.headers },
+        query: config.queryParams,
+    };
+}
+
+// Requests with a form go as multipart/form-data, the rest of the request as JSON in its `proxy` field
+function encodeProxyRequest({ form, ...request }: ProxyRequest): RequestInit {
+    if (!form) {
+        return { headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(request) };
+    }
+    const formData = new FormData();
+    formData.append('proxy', JSON.stringify(request));
+    for (const [name, value] of Object.entries(form)) {
+        if (typeof value === 'string') formData.append(name, value);
+        else formData.append(name, dataUrlToBlob(value.dataUrl), value.filename);
+    }
+    return { body: formData };
+}
+
+/**
+ * Call one of the app's own API routes, which answer failures with
+ * `{ error }`. Unreachable servers and failed responses both become a
+ * ProviderError; cancellation rethrows as is.
+ */
+export async function fetchRoute(url: string, init: RequestInit, label: string): Promise<Response> {
+    let response: Response;
+    try {
+        response = await fetch(url, init);
+    } catch (error) {
+        if (init.signal?.aborted) throw error;
+        // fetch rejects with a TypeError when the network or server is unreachable
+        throw new ProviderError(`${label}: ${error instanceof Error ? error.message : error}`, { networkError: true });
+    }
+
+    if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        throw new ProviderError(`${label}: ${err.error || response.statusText}`, {
+            status: response.status,
+            retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+        });
+    }
+    return response;
+}
+
+function sendToProxy(request: ProxyRequest, signal?: AbortSignal): Promise<Response> {
+    return fetchRoute('/api/proxy', { method: 'POST', ...encodeProxyRequest(request), signal }, 'Proxy Error');
+}
+
+/**
+ * POST through the server-side /api/proxy route to avoid CORS issues
+ */
+export async function postViaProxy<T = unknown>(request: ProxyRequest, signal?: AbortSignal): Promise<T> {
+    const response = await sendToProxy(request, signal);
+    return response.json();
+}
+
+/**
+ * Like `postViaProxy`, but hands back the raw response so the caller can
+ * consume a streamed (SSE / NDJSON) or binary body.
+ */
+export async function streamViaProxy(request: ProxyRequest, signal?: AbortSignal): Promise<Response> {
+    return sendToProxy(request, signal);
+}
+
+/**
+ * Split a data URL (data:image/png;base64,....) into mime type and payload
+ */
+export function parseDataUrl(dataUrl: string): { mimeType: string; data: string } | null {
+    const match = dataUrl.match(/^data:([^;]+);base64,(.+)$/);
+    return match ? { mimeType: match[1], data: match[2] } : null;
+}
@@ -0,0 +1,57 @@
+/**
+ * Read a streaming response body line by line, calling `onLine` for each
+ * complete line. Works for both SSE (text/event-stream) and NDJSON bodies.
+ */
+async function readLines(response: Response, onLine: (line: string) => void): Promise<void> {
+    if (!response.body) {
+        throw new Error('Streaming response has no body');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        lines.forEach((line) => onLine(line.replace(/\r$/, '')));
+    }
+
+    buffer += decoder.decode();
+    if (buffer.trim()) onLine(buffer);
+}
+
+/**
+ * Parse a server-sent event stream, passing the JSON payload of every
+ * `data:` line to `onEvent`. The OpenAI `[DONE]` sentinel is skipped.
+ */
+export async function readSSE(response: Response, onEvent: (data: unknown) => void): Promise<void> {
+    await readLines(response, (line) => {
+        if (!line.startsWith('data:')) return;
+        const payload = line.slice(5).trim();
+        if (!payload || payload === '[DONE]') return;
+        try {
+            onEvent(JSON.parse(payload));
+        } catch {
+            // Ignore keep-alive comments and partial frames
+        }
+    });
+}
+
+/**
+ * Parse a newline-delimited JSON stream (Ollama)
+ */
+export async function readNDJSON(response: Response, onEvent: (data: unknown) => void): Promise<void> {
+    await readLines(response, (line) => {
+        if (!line.trim()) return;
+        try {
+            onEvent(JSON.parse(line));
+        } catch {
+            // Ignore malformed lines
+        }
+    });
+}
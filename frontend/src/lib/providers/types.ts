@@ -0,0 +1,97 @@
+export type ProviderId = 'openai' | 'openai-images' | 'google' | 'anthropic' | 'ollama' | 'mock';
+
+/** How the proxy sends the key: `Authorization: Bearer`, Azure's `api-key` header, or `x-api-key` */
+export type AuthScheme = 'bearer' | 'api-key' | 'x-api-key' | 'none';
+
+export interface ModelConfig {
+    provider: ProviderId;
+    baseUrl: string;
+    apiKey: string;
+    /** Id of a server-side credential profile; the proxy supplies its key instead of `apiKey` */
+    credentialProfile?: string;
+    modelName: string;
+    /** Overrides the provider's usual way of sending the key */
+    authScheme?: AuthScheme;
+    /** Extra request headers, e.g. OpenAI-Organization */
+    headers?: Record<string, string>;
+    /** Added to every request URL, e.g. api-version for Azure OpenAI */
+    queryParams?: Record<string, string>;
+    /** Send requests to the base URL as entered, without adding or removing /v1 */
+    useUrlAsIs?: boolean;
+    /** Sampling temperature; adapters that support it fall back to their default when unset */
+    temperature?: number;
+}
+
+export interface RenderImageResponse {
+    imageUrl: string | null;
+    text?: string;
+}
+
+export interface EditImageRequest {
+    /** The image to edit, as a PNG data URL */
+    image: string;
+    /** PNG data URL of the same size, transparent where the image should change (OpenAI convention) */
+    mask: string;
+    /** The image with the region to change highlighted, for models that take no mask */
+    markedImage: string;
+    instruction: string;
+}
+
+/** Token counts as reported in the provider's `usage` field */
+export interface TokenUsage {
+    promptTokens: number;
+    completionTokens: number;
+}
+
+export interface CallOptions {
+    signal?: AbortSignal;
+    /** Called once the response reports its token usage; not every provider does */
+    onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface StreamOptions extends CallOptions {
+    /** Called with the accumulated text every time a new chunk arrives */
+    onText?: (text: string) => void;
+}
+
+/**
+ * A provider adapter knows how to talk to one API family. Adapters are
+ * selected by `ModelConfig.provider`, never by sniffing the URL or model name.
+ */
+export interface ProviderAdapter {
+    id: ProviderId;
+    label: string;
+    defaultBaseUrl: string;
+    requiresApiKey: boolean;
+
+    /** Text completion for the Architect step (paper -> Visual Schema) */
+    generateText?: (config: ModelConfig, prompt: string, images?: string[], options?: CallOptions) => Promise<string>;
+
+    /** Streaming variant of `generateText`; resolves with the full text */
+    streamText?: (
+        config: ModelConfig,
+        prompt: string,
+        images: string[] | undefined,
+        options: StreamOptions
+    ) => Promise<string>;
+
+    /** Image generation for the Renderer step (Visual Schema -> diagram) */
+    generateImage?: (
+        config: ModelConfig,
+        prompt: string,
+        referenceImages?: string[],
+        options?: CallOptions
+    ) => Promise<RenderImageResponse>;
+
+    /**
+     * Region edit of a rendered diagram. `prompt` wraps the instruction for
+     * models that only see the images; mask-based endpoints can use
+     * `request.instruction` directly.
+     */
+    editImage?: (
+        config: ModelConfig,
+        prompt: string,
+        request: EditImageRequest,
+        options?: CallOptions
+    ) => Promise<RenderImageResponse>;
+}
@@ -0,0 +1,98 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ModelConfig, ProviderError } from '@/lib/providers';
+import { fetchRoute } from '@/lib/providers/proxy';
+import { isRetryableError, retryDelayMs, RetryPolicy, runWithRetries } from './retry';
+
+const POLICY: RetryPolicy = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 50, timeoutMs: 0 };
+
+function config(modelName: string): ModelConfig {
+    return { provider: 'openai', baseUrl: 'https://api.example.com/v1', apiKey: 'key', modelName };
+}
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('isRetryableError', () => {
+    it('retries rate limits, gateway errors, timeouts and unreachable servers', () => {
+        expect(isRetryableError(new ProviderError('rate limited', { status: 429 }))).toBe(true);
+        expect(isRetryableError(new ProviderError('bad gateway', { status: 502 }))).toBe(true);
+        expect(isRetryableError(new ProviderError('timed out', { timedOut: true }))).toBe(true);
+        expect(isRetryableError(new ProviderError('offline', { networkError: true }))).toBe(true);
+    });
+
+    it('does not retry bad requests or programming errors', () => {
+        expect(isRetryableError(new ProviderError('bad request', { status: 400 }))).toBe(false);
+        expect(isRetryableError(new TypeError("Cannot read properties of undefined (reading 'choices')"))).toBe(false);
+        expect(isRetryableError(new Error('boom'))).toBe(false);
+    });
+});
+
+describe('retryDelayMs', () => {
+    it('honours Retry-After up to the policy maximum', () => {
+        expect(retryDelayMs(0, POLICY, new ProviderError('', { status: 429, retryAfterMs: 20 }))).toBe(20);
+        expect(retryDelayMs(0, POLICY, new ProviderError('', { status: 429, retryAfterMs: 60000 }))).toBeNull();
+    });
+
+    it('backs off exponentially with jitter', () => {
+        const policy = { ...POLICY, baseDelayMs: 1000, maxDelayMs: 30000 };
+        const delay = retryDelayMs(2, policy, new ProviderError('', { status: 503 }))!;
+        expect(delay).toBeGreaterThanOrEqual(3000);
+        expect(delay).toBeLessThanOrEqual(5000);
+    });
+});
+
+describe('runWithRetries', () => {
+    it('retries transient failures, then falls back to the next config', async () => {
+        const calls: string[] = [];
+        const onRetry = vi.fn();
+        const result = await runWithRetries(config('primary'), { retryPolicy: POLICY, fallbacks: [config('backup')], onRetry }, async (c) => {
+            calls.push(c.modelName);
+            if (c.modelName === 'primary') throw new ProviderError('overloaded', { status: 529 });
+            return 'ok';
+        });
+
+        expect(result).toBe('ok');
+        expect(calls).toEqual(['primary', 'primary', 'primary', 'backup']);
+        expect(onRetry.mock.calls.map(([event]) => event.fallback)).toEqual([false, false, true]);
+    });
+
+    it('does not retry a programming error, but still tries the fallback', async () => {
+        const calls: string[] = [];
+        const bug = new TypeError("Cannot read properties of undefined (reading 'choices')");
+        await expect(runWithRetries(config('primary'), { retryPolicy: POLICY, fallbacks: [config('backup')] }, async (c) => {
+            calls.push(c.modelName);
+            throw bug;
+        })).rejects.toBe(bug);
+        expect(calls).toEqual(['primary', 'backup']);
+    });
+});
+
+describe('fetchRoute', () => {
+    it('turns an unreachable server into a retryable ProviderError', async () => {
+        vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('Failed to fetch')));
+        const error = await fetchRoute('/api/proxy', { method: 'POST' }, 'Proxy Error').catch((e) => e);
+
+        expect(error).toBeInstanceOf(ProviderError);
+        expect(error.message).toBe('Proxy Error: Failed to fetch');
+        expect(isRetryableError(error)).toBe(true);
+    });
+
+    it('rethrows cancellation as is', async () => {
+        const controller = new AbortController();
+        controller.abort();
+        vi.stubGlobal('fetch', vi.fn().mockRejectedValue(controller.signal.reason));
+
+        await expect(fetchRoute('/api/proxy', { signal: controller.signal }, 'Proxy Error'))
+            .rejects.toBe(controller.signal.reason);
+    });
+
+    it('keeps the status and Retry-After of a failed response', async () => {
+        vi.stubGlobal('fetch', vi.fn().mockResolvedValue(
+            Response.json({ error: 'Slow down' }, { status: 429, headers: { 'Retry-After': '2' } })
+        ));
+        const error = await fetchRoute('/api/proxy', {}, 'Proxy Error').catch((e) => e);
+
+        expect(error).toMatchObject({ message: 'Proxy Error: Slow down', status: 429, retryAfterMs: 2000 });
+    });
+});
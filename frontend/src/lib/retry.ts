@@ -0,0 +1,139 @@
+import { ModelConfig, ProviderError } from '@/lib/providers';
+
+/**
+ * Retries with exponential backoff, per-attempt timeouts and fallback model
+ * chains. Each config is retried on transient failures (rate limits,
+ * gateway errors, timeouts); once it gives up, the next config in the chain
+ * takes over.
+ */
+
+export interface RetryPolicy {
+    maxRetries: number; // Retries per config after the first attempt
+    baseDelayMs: number; // Doubled after every retry
+    maxDelayMs: number; // Longer Retry-After waits skip straight to the next fallback
+    timeoutMs: number; // Per attempt; 0 means no timeout
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxRetries: 2,
+    baseDelayMs: 1000,
+    maxDelayMs: 30000,
+    timeoutMs: 300000,
+};
+
+export interface RetryEvent {
+    error: unknown;
+    /** Config that failed */
+    config: ModelConfig;
+    /** Config tried next: the same one after a delay, or the next fallback */
+    next: ModelConfig;
+    delayMs: number;
+    fallback: boolean;
+}
+
+export interface RetryOptions {
+    retryPolicy?: RetryPolicy;
+    /** Tried in order once the primary config gives up */
+    fallbacks?: ModelConfig[];
+    onRetry?: (event: RetryEvent) => void;
+}
+
+// Rate limits, timeouts and gateway errors usually pass on their own
+const RETRYABLE_STATUSES = new Set([408, 409, 425, 429, 500, 502, 503, 504, 520, 522, 524, 529]);
+
+// Anything that is not a ProviderError is a bug, not a flaky provider
+export function isRetryableError(error: unknown): boolean {
+    if (!(error instanceof ProviderError)) return false;
+    return error.timedOut || error.networkError || (error.status !== undefined && RETRYABLE_STATUSES.has(error.status));
+}
+
+/**
+ * Delay before retry number `retry` (0-based): the provider's Retry-After
+ * when given, otherwise exponential backoff with jitter. Returns null when
+ * the wait would exceed the policy's maximum.
+ */
+export function retryDelayMs(retry: number, policy: RetryPolicy, error: unknown): number | null {
+    const retryAfter = error instanceof ProviderError ? error.retryAfterMs : undefined;
+    if (retryAfter !== undefined) return retryAfter <= policy.maxDelayMs ? retryAfter : null;
+    const backoff = policy.baseDelayMs * 2 ** retry;
+    return Math.min(policy.maxDelayMs, Math.round(backoff * (0.75 + Math.random() * 0.5)));
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(signal.reason);
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal?.reason);
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+// One attempt with its own abort signal, cancelled by the caller's signal or the timeout
+async function attempt<T>(
+    run: (signal: AbortSignal) => Promise<T>,
+    timeoutMs: number,
+    signal?: AbortSignal
+): Promise<T> {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        if (timeoutMs <= 0) return;
+        timer = setTimeout(() => {
+            const error = new ProviderError(`Request timed out after ${Math.ceil(timeoutMs / 1000)}s`, { timedOut: true });
+            controller.abort(error);
+            reject(error);
+        }, timeoutMs);
+    });
+    try {
+        // Racing the timeout also covers adapters that ignore the abort signal
+        return await Promise.race([run(controller.signal), timeout]);
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+    }
+}
+
+/**
+ * Run `run` against `config`, retrying and then falling back along
+ * `options.fallbacks`. Without a retry policy a single attempt is made per
+ * config. Cancellation through `signal` stops immediately.
+ */
+export async function runWithRetries<T>(
+    config: ModelConfig,
+    options: RetryOptions,
+    run: (config: ModelConfig, signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal
+): Promise<T> {
+    const policy = options.retryPolicy ?? { ...DEFAULT_RETRY_POLICY, maxRetries: 0, timeoutMs: 0 };
+    const chain = [config, ...(options.fallbacks ?? [])];
+
+    for (let index = 0; ; index++) {
+        const current = chain[index];
+        for (let retry = 0; ; retry++) {
+            try {
+                return await attempt((attemptSignal) => run(current, attemptSignal), policy.timeoutMs, signal);
+            } catch (error) {
+                if (signal?.aborted) throw error;
+                const delayMs = retry < policy.maxRetries && isRetryableError(error)
+                    ? retryDelayMs(retry, policy, error)
+                    : null;
+                if (delayMs !== null) {
+                    options.onRetry?.({ error, config: current, next: current, delayMs, fallback: false });
+                    await sleep(delayMs, signal);
+                    continue;
+                }
+                if (index + 1 >= chain.length) throw error;
+                options.onRetry?.({ error, config: current, next: chain[index + 1], delayMs: 0, fallback: true });
+                break;
+            }
+        }
+    }
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { createEmptySchema, extractSchemaBlock, parseSchema, serializeSchema, VisualSchema } from './schema';
+
+const SAMPLE = `Here is the schema.
+
+---BEGIN PROMPT---
+[DIAGRAM TITLE]
+Sparse Attention Pipeline
+
+[OVERALL LAYOUT]
+Left-to-right flow in three zones.
+
+[ZONES/SECTIONS]
+Input Zone: Raw tokens
+- Position: Left
+- Background: #EAF2FB
+
+Method Zone: The model
+- Position: Center
+
+[VISUAL ELEMENTS]
+- **Encoder**: Stacked transformer blocks
+  - Shape: Rounded rectangle
+  - Color: #4A90E2
+- Decoder
+  - Emits the output sequence
+
+[CONNECTIONS]
+- Encoder → Decoder: hidden states
+  - Style: Solid arrow
+- Connection 2:
+  - From: Decoder
+  - To: Output
+
+[COLOR PALETTE]
+- Primary: #4A90E2 (encoder)
+- #F5A623 - Accent
+
+[TEXT LABELS]
+- "Encoder"
+- "Decoder"
+
+[NOTES]
+Keep it flat.
+---END PROMPT---
+Trailing text.`;
+
+function roundTrip(schema: VisualSchema): VisualSchema {
+    return parseSchema(serializeSchema(schema));
+}
+
+describe('parseSchema', () => {
+    it('reads every section of a marked schema', () => {
+        const schema = parseSchema(SAMPLE);
+
+        expect(schema.title).toBe('Sparse Attention Pipeline');
+        expect(schema.layout).toBe('Left-to-right flow in three zones.');
+        expect(schema.zones.map((z) => [z.name, z.description])).toEqual([
+            ['Input Zone', 'Raw tokens'],
+            ['Method Zone', 'The model'],
+        ]);
+        expect(schema.zones[0].properties).toEqual([
+            { key: 'Position', value: 'Left' },
+            { key: 'Background', value: '#EAF2FB' },
+        ]);
+        expect(schema.elements[0]).toEqual({
+            name: 'Encoder',
+            description: 'Stacked transformer blocks',
+            properties: [
+                { key: 'Shape', value: 'Rounded rectangle' },
+                { key: 'Color', value: '#4A90E2' },
+            ],
+            notes: [],
+        });
+        expect(schema.elements[1].notes).toEqual(['Emits the output sequence']);
+        expect(schema.connections.map((c) => [c.from, c.to, c.description])).toEqual([
+            ['Encoder', 'Decoder', 'hidden states'],
+            ['Decoder', 'Output', ''],
+        ]);
+        expect(schema.palette).toEqual([
+            { name: 'Primary', color: '#4A90E2', description: 'encoder' },
+            { name: 'Accent', color: '#F5A623', description: '' },
+        ]);
+        expect(schema.labels).toEqual(['"Encoder"', '"Decoder"']);
+        expect(schema.extraSections).toEqual([{ heading: 'NOTES', body: 'Keep it flat.' }]);
+    });
+
+    it('leaves missing sections empty', () => {
+        expect(parseSchema('no schema here')).toEqual(createEmptySchema());
+    });
+});
+
+describe('serializeSchema', () => {
+    it('round-trips a parsed schema', () => {
+        const schema = parseSchema(SAMPLE);
+        expect(roundTrip(schema)).toEqual(schema);
+    });
+
+    it('writes a complete marked block', () => {
+        const text = serializeSchema(parseSchema(SAMPLE));
+        expect(extractSchemaBlock(text)).toBe(text);
+    });
+
+    it('round-trips entries with long names and a description', () => {
+        const schema = createEmptySchema();
+        const name = 'Multi-Head Self-Attention With Rotary Position Embeddings';
+        expect(name.length).toBeGreaterThan(40);
+        schema.zones.push({ name: `${name} Zone`, description: 'Core of the model', properties: [], notes: [] });
+        schema.elements.push({
+            name,
+            description: 'Attends over the whole sequence',
+            properties: [{ key: 'Shape', value: 'Rectangle' }],
+            notes: [],
+        });
+
+        expect(roundTrip(schema)).toEqual(schema);
+    });
+});
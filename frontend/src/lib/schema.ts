@@ -0,0 +1,498 @@
+/**
+ * Structured model for the Visual Schema produced by the Architect step.
+ *
+ * The logic model answers with a markdown-ish document wrapped in
+ * ---BEGIN PROMPT--- / ---END PROMPT--- markers and split into bracketed
+ * section headings ([ZONES/SECTIONS], [CONNECTIONS], ...). `parseSchema`
+ * reads that document into a `VisualSchema`, `serializeSchema` writes it
+ * back in a canonical layout. Serializing a parsed schema and parsing it
+ * again yields the same `VisualSchema`.
+ */
+
+export const SCHEMA_BEGIN_MARKER = '---BEGIN PROMPT---';
+export const SCHEMA_END_MARKER = '---END PROMPT---';
+
+export type SchemaSectionKey =
+    | 'title'
+    | 'layout'
+    | 'zones'
+    | 'elements'
+    | 'connections'
+    | 'palette'
+    | 'labels';
+
+// Canonical headings, in the order the Architect prompt asks for them
+export const SCHEMA_SECTIONS: { key: SchemaSectionKey; heading: string; aliases: string[] }[] = [
+    { key: 'title', heading: 'DIAGRAM TITLE', aliases: ['TITLE'] },
+    { key: 'layout', heading: 'OVERALL LAYOUT', aliases: ['LAYOUT'] },
+    { key: 'zones', heading: 'ZONES/SECTIONS', aliases: ['ZONES', 'SECTIONS', 'ZONES / SECTIONS'] },
+    { key: 'elements', heading: 'VISUAL ELEMENTS', aliases: ['ELEMENTS'] },
+    { key: 'connections', heading: 'CONNECTIONS', aliases: [] },
+    { key: 'palette', heading: 'COLOR PALETTE', aliases: ['COLOUR PALETTE', 'PALETTE', 'COLORS'] },
+    { key: 'labels', heading: 'KEY TEXT LABELS', aliases: ['TEXT LABELS', 'LABELS'] },
+];
+
+export interface SchemaProperty {
+    key: string;
+    value: string;
+}
+
+/** A zone or visual element: a heading line followed by "- Key: value" bullets */
+export interface SchemaEntry {
+    name: string;
+    description: string;
+    properties: SchemaProperty[];
+    notes: string[];
+}
+
+export interface SchemaConnection {
+    from: string;
+    to: string;
+    description: string;
+    properties: SchemaProperty[];
+    notes: string[];
+}
+
+export interface PaletteColor {
+    name: string;
+    color: string; // Raw token, e.g. "#4A90E2" (not validated here)
+    description: string;
+}
+
+export interface SchemaExtraSection {
+    heading: string;
+    body: string;
+}
+
+export interface VisualSchema {
+    title: string;
+    layout: string;
+    zones: SchemaEntry[];
+    elements: SchemaEntry[];
+    connections: SchemaConnection[];
+    palette: PaletteColor[];
+    labels: string[];
+    // Sections we don't recognise are kept verbatim so nothing is lost
+    extraSections: SchemaExtraSection[];
+}
+
+export function createEmptySchema(): VisualSchema {
+    return {
+        title: '',
+        layout: '',
+        zones: [],
+        elements: [],
+        connections: [],
+        palette: [],
+        labels: [],
+        extraSections: [],
+    };
+}
+
+export function hasSchemaMarkers(text: string): boolean {
+    return text.includes(SCHEMA_BEGIN_MARKER) && text.includes(SCHEMA_END_MARKER);
+}
+
+/**
+ * Return the text between the BEGIN/END markers, or the whole text when the
+ * markers are missing.
+ */
+export function extractSchemaBody(text: string): string {
+    const start = text.indexOf(SCHEMA_BEGIN_MARKER);
+    if (start === -1) return text;
+    const bodyStart = start + SCHEMA_BEGIN_MARKER.length;
+    const end = text.indexOf(SCHEMA_END_MARKER, bodyStart);
+    return end === -1 ? text.slice(bodyStart) : text.slice(bodyStart, end);
+}
+
+/**
+ * Return the schema including its BEGIN/END markers, or null when the text
+ * does not contain a complete marked block.
+ */
+export function extractSchemaBlock(text: string): string | null {
+    const start = text.indexOf(SCHEMA_BEGIN_MARKER);
+    if (start === -1) return null;
+    const end = text.indexOf(SCHEMA_END_MARKER, start + SCHEMA_BEGIN_MARKER.length);
+    return end === -1 ? null : text.slice(start, end + SCHEMA_END_MARKER.length);
+}
+
+// ---------------------------------------------------------------------------
+// Line helpers
+// ---------------------------------------------------------------------------
+
+const HEADING_PATTERN = /^\s*(?:#{1,6}\s*)?(?:\*\*)?\[([^\]]+)\](?:\*\*)?\s*:?\s*$/;
+const BULLET_PATTERN = /^(?:[-*•+]|\d+[.)])\s+/;
+const PROPERTY_PATTERN = /^([^:]{1,40}):\s*(.*)$/;
+// Entry names have no length limit, so long names written as `Name: description` read back
+const ENTRY_HEADER_PATTERN = /^([^:]+):\s*(.*)$/;
+export const ARROW_PATTERN = /\s*(?:<-->|<->|-->|->|=>|⟶|→|⇒|↔)\s*/;
+const CONNECTION_TAIL_PATTERN = /:\s|\s\(|\s-\s|\s—\s|,\s/;
+const COLOR_TOKEN_PATTERN = /#[0-9A-Za-z]+/;
+
+export function matchSectionHeading(line: string): string | null {
+    const match = line.match(HEADING_PATTERN);
+    return match ? match[1].trim() : null;
+}
+
+export function resolveSectionKey(heading: string): SchemaSectionKey | null {
+    const normalized = heading.trim().toUpperCase().replace(/\s+/g, ' ');
+    const section = SCHEMA_SECTIONS.find(
+        (s) => s.heading === normalized || s.aliases.includes(normalized)
+    );
+    return section ? section.key : null;
+}
+
+export interface SchemaSectionSpan {
+    key: SchemaSectionKey | null;
+    heading: string;
+    headingLine: number; // 0-based index into lines
+    start: number; // First body line
+    end: number; // One past the last body line
+}
+
+/**
+ * Find the section headings of a schema split into lines. Only the text
+ * between the BEGIN/END markers is scanned when they are present.
+ */
+export function findSchemaSections(lines: string[]): SchemaSectionSpan[] {
+    const beginLine = lines.findIndex((l) => l.includes(SCHEMA_BEGIN_MARKER));
+    const endLine = lines.findIndex((l, i) => i > beginLine && l.includes(SCHEMA_END_MARKER));
+    const bodyStart = beginLine === -1 ? 0 : beginLine + 1;
+    const bodyEnd = endLine === -1 ? lines.length : endLine;
+
+    const sections: SchemaSectionSpan[] = [];
+    for (let i = bodyStart; i < bodyEnd; i++) {
+        const heading = matchSectionHeading(lines[i]);
+        if (heading === null) continue;
+        if (sections.length > 0) sections[sections.length - 1].end = i;
+        sections.push({ key: resolveSectionKey(heading), heading, headingLine: i, start: i + 1, end: bodyEnd });
+    }
+    return sections;
+}
+
+/**
+ * Find `needle` in lines [start, end), starting at `from`. Returns the line
+ * index and column, trying an exact match before a case-insensitive one.
+ */
+export function locateInLines(
+    lines: string[],
+    needle: string,
+    start: number,
+    end: number,
+    from = start
+): { line: number; column: number } | null {
+    if (!needle) return null;
+    for (const caseSensitive of [true, false]) {
+        const target = caseSensitive ? needle : needle.toLowerCase();
+        for (let i = Math.max(start, from); i < end; i++) {
+            const column = (caseSensitive ? lines[i] : lines[i].toLowerCase()).indexOf(target);
+            if (column !== -1) return { line: i, column };
+        }
+    }
+    return null;
+}
+
+function stripMarkup(text: string): string {
+    return text.replace(/\*\*/g, '').trim();
+}
+
+function stripBullet(text: string): string {
+    return text.replace(BULLET_PATTERN, '');
+}
+
+export function splitProperty(text: string, pattern = PROPERTY_PATTERN): SchemaProperty | null {
+    const match = stripMarkup(text).match(pattern);
+    if (!match) return null;
+    const key = match[1].trim();
+    if (!key) return null;
+    return { key, value: match[2].trim() };
+}
+
+function unwrapParens(text: string): string {
+    const trimmed = text.trim();
+    if (!trimmed.startsWith('(') || !trimmed.endsWith(')')) return trimmed;
+
+    // Only unwrap when the outer pair encloses everything, not "(a) and (b)"
+    let depth = 0;
+    for (let i = 0; i < trimmed.length - 1; i++) {
+        if (trimmed[i] === '(') depth++;
+        else if (trimmed[i] === ')') depth--;
+        if (depth === 0) return trimmed;
+    }
+    return trimmed.slice(1, -1).trim();
+}
+
+interface RawLine {
+    indent: number;
+    isBullet: boolean;
+    text: string;
+}
+
+interface RawEntry {
+    header: string;
+    children: string[];
+}
+
+function toRawLines(body: string): RawLine[] {
+    return body
+        .split('\n')
+        .filter((line) => line.trim() !== '')
+        .map((line) => {
+            const indent = line.length - line.trimStart().length;
+            const trimmed = line.trim();
+            const isBullet = BULLET_PATTERN.test(trimmed);
+            return { indent, isBullet, text: isBullet ? stripBullet(trimmed) : trimmed };
+        });
+}
+
+/**
+ * Group the lines of a list section into entries. A line becomes a child of
+ * the current entry when it is indented deeper than the entry header, or when
+ * it is a bullet under a plain (non-bullet) header and has no children itself.
+ */
+function groupEntries(body: string, isEntryStart?: (text: string) => boolean): RawEntry[] {
+    const entries: RawEntry[] = [];
+    let current: (RawEntry & { indent: number; isBullet: boolean }) | null = null;
+
+    const lines = toRawLines(body);
+    lines.forEach((line, i) => {
+        const next = lines[i + 1];
+        let startsEntry: boolean;
+        if (!current) {
+            startsEntry = true;
+        } else if (line.indent > current.indent) {
+            startsEntry = false;
+        } else if (isEntryStart && isEntryStart(line.text)) {
+            startsEntry = true;
+        } else if (next && next.indent > line.indent) {
+            // A line with its own indented children is always a header
+            startsEntry = true;
+        } else {
+            startsEntry = current.isBullet || !line.isBullet;
+        }
+
+        if (startsEntry || !current) {
+            current = { header: line.text, children: [], indent: line.indent, isBullet: line.isBullet };
+            entries.push(current);
+        } else {
+            current.children.push(line.text);
+        }
+    });
+
+    return entries.map(({ header, children }) => ({ header, children }));
+}
+
+function splitChildren(children: string[]): { properties: SchemaProperty[]; notes: string[] } {
+    const properties: SchemaProperty[] = [];
+    const notes: string[] = [];
+    for (const child of children) {
+        const property = splitProperty(child);
+        if (property) {
+            properties.push(property);
+        } else {
+            notes.push(stripMarkup(child));
+        }
+    }
+    return { properties, notes };
+}
+
+function toText(body: string): string {
+    return body
+        .split('\n')
+        .map((line) => line.trimEnd())
+        .join('\n')
+        .trim();
+}
+
+// ---------------------------------------------------------------------------
+// Section parsers
+// ---------------------------------------------------------------------------
+
+function parseEntries(body: string): SchemaEntry[] {
+    return groupEntries(body).map(({ header, children }) => {
+        const headerProperty = splitProperty(header, ENTRY_HEADER_PATTERN);
+        const { properties, notes } = splitChildren(children);
+        return {
+            name: headerProperty ? headerProperty.key : stripMarkup(header).replace(/:$/, '').trim(),
+            description: headerProperty ? headerProperty.value : '',
+            properties,
+            notes,
+        };
+    });
+}
+
+function parseConnections(body: string): SchemaConnection[] {
+    return groupEntries(body, (text) => ARROW_PATTERN.test(text)).map(({ header, children }) => {
+        const { properties, notes } = splitChildren(children);
+        const text = stripMarkup(header);
+        const arrow = text.match(ARROW_PATTERN);
+
+        if (arrow && arrow.index !== undefined) {
+            const from = text.slice(0, arrow.index).trim();
+            const rest = text.slice(arrow.index + arrow[0].length);
+            const tail = rest.match(CONNECTION_TAIL_PATTERN);
+            const to = (tail && tail.index !== undefined ? rest.slice(0, tail.index) : rest).trim();
+            const description = tail && tail.index !== undefined
+                ? unwrapParens(rest.slice(tail.index).replace(/^\s*(?::|-|—|,)?\s*/, ''))
+                : '';
+            return { from, to, description, properties, notes };
+        }
+
+        // "Connection 1:" followed by "- From: X" / "- To: Y" bullets
+        const fromIndex = properties.findIndex((p) => p.key.toLowerCase() === 'from');
+        const toIndex = properties.findIndex((p) => p.key.toLowerCase() === 'to');
+        if (fromIndex !== -1 && toIndex !== -1) {
+            return {
+                from: properties[fromIndex].value,
+                to: properties[toIndex].value,
+                description: '',
+                properties: properties.filter((_, i) => i !== fromIndex && i !== toIndex),
+                notes,
+            };
+        }
+
+        // No recognisable endpoints: keep the header text so it survives a round trip
+        return { from: text, to: '', description: '', properties, notes };
+    });
+}
+
+function parsePalette(body: string): PaletteColor[] {
+    return toRawLines(body).map(({ text }) => {
+        const clean = stripMarkup(text);
+        const token = clean.match(COLOR_TOKEN_PATTERN);
+        const color = token ? token[0] : '';
+        const rest = token && token.index !== undefined
+            ? (clean.slice(0, token.index) + clean.slice(token.index + color.length)).replace(/\(\s*\)/g, '')
+            : clean;
+
+        // "Primary: #4A90E2 (encoder)", "Primary (#4A90E2): encoder", "#4A90E2 - Primary"
+        const property = splitProperty(rest);
+        if (property) {
+            return { name: property.key, color, description: unwrapParens(property.value) };
+        }
+        return { name: unwrapParens(rest.replace(/^\s*(?:-|—|,)\s*/, '')), color, description: '' };
+    });
+}
+
+function parseLabels(body: string): string[] {
+    return toRawLines(body).map(({ text }) => text);
+}
+
+/**
+ * Parse a Visual Schema document into its structured form. Text outside the
+ * BEGIN/END markers is ignored; missing sections are left empty.
+ */
+export function parseSchema(text: string): VisualSchema {
+    const schema = createEmptySchema();
+    const body = extractSchemaBody(text.replace(/\r\n?/g, '\n'));
+
+    const sections: { heading: string; lines: string[] }[] = [];
+    for (const line of body.split('\n')) {
+        const heading = matchSectionHeading(line);
+        if (heading !== null) {
+            sections.push({ heading, lines: [] });
+        } else if (sections.length > 0) {
+            sections[sections.length - 1].lines.push(line);
+        }
+    }
+
+    for (const { heading, lines } of sections) {
+        const sectionBody = lines.join('\n');
+        switch (resolveSectionKey(heading)) {
+            case 'title':
+                schema.title = toText(sectionBody);
+                break;
+            case 'layout':
+                schema.layout = toText(sectionBody);
+                break;
+            case 'zones':
+                schema.zones.push(...parseEntries(sectionBody));
+                break;
+            case 'elements':
+                schema.elements.push(...parseEntries(sectionBody));
+                break;
+            case 'connections':
+                schema.connections.push(...parseConnections(sectionBody));
+                break;
+            case 'palette':
+                schema.palette.push(...parsePalette(sectionBody));
+                break;
+            case 'labels':
+                schema.labels.push(...parseLabels(sectionBody));
+                break;
+            default:
+                schema.extraSections.push({ heading, body: toText(sectionBody) });
+        }
+    }
+
+    return schema;
+}
+
+// ---------------------------------------------------------------------------
+// Serializer
+// ---------------------------------------------------------------------------
+
+function serializeChildren(properties: SchemaProperty[], notes: string[], indent: string): string[] {
+    return [
+        ...properties.map((p) => `${indent}- ${p.key}: ${p.value}`.trimEnd()),
+        ...notes.map((n) => `${indent}- ${n}`),
+    ];
+}
+
+function serializeEntries(entries: SchemaEntry[]): string[] {
+    const lines: string[] = [];
+    entries.forEach((entry, i) => {
+        if (i > 0) lines.push('');
+        lines.push(entry.description ? `${entry.name}: ${entry.description}` : entry.name);
+        lines.push(...serializeChildren(entry.properties, entry.notes, ''));
+    });
+    return lines;
+}
+
+function serializeConnections(connections: SchemaConnection[]): string[] {
+    const lines: string[] = [];
+    for (const c of connections) {
+        let header = c.to ? `${c.from} → ${c.to}` : c.from;
+        if (c.description) header += `: ${c.description}`;
+        lines.push(`- ${header}`);
+        lines.push(...serializeChildren(c.properties, c.notes, '  '));
+    }
+    return lines;
+}
+
+function serializePalette(palette: PaletteColor[]): string[] {
+    return palette.map(({ name, color, description }) => {
+        if (!color) return description ? `- ${name}: ${description}` : `- ${name}`;
+        const value = description ? `${color} (${description})` : color;
+        return name ? `- ${name}: ${value}` : `- ${value}`;
+    });
+}
+
+/**
+ * Write a `VisualSchema` back to the text format the Renderer prompt
+ * expects, wrapped in BEGIN/END markers.
+ */
+export function serializeSchema(schema: VisualSchema): string {
+    const blocks: string[][] = [];
+    const push = (heading: string, lines: string[]) => {
+        blocks.push([`[${heading}]`, ...lines]);
+    };
+    const heading = (key: SchemaSectionKey) => SCHEMA_SECTIONS.find((s) => s.key === key)!.heading;
+
+    push(heading('title'), schema.title ? [schema.title] : []);
+    push(heading('layout'), schema.layout ? [schema.layout] : []);
+    push(heading('zones'), serializeEntries(schema.zones));
+    push(heading('elements'), serializeEntries(schema.elements));
+    push(heading('connections'), serializeConnections(schema.connections));
+    push(heading('palette'), serializePalette(schema.palette));
+    push(heading('labels'), schema.labels.map((label) => `- ${label}`));
+    for (const extra of schema.extraSections) {
+        push(extra.heading, extra.body ? [extra.body] : []);
+    }
+
+    return [
+        SCHEMA_BEGIN_MARKER,
+        blocks.map((block) => block.join('\n')).join('\n\n'),
+        SCHEMA_END_MARKER,
+    ].join('\n');
+}
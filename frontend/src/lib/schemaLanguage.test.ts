@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import {
+    buildSchemaOutline,
+    findEndpointCompletions,
+    findPaletteColorAt,
+    findSchemaFoldingRanges,
+} from './schemaLanguage';
+
+const SCHEMA = `---BEGIN PROMPT---
+[DIAGRAM TITLE]
+Pipeline
+
+[ZONES/SECTIONS]
+Input Zone: Raw data
+
+[VISUAL ELEMENTS]
+Encoder: Stacked blocks
+Decoder
+Encoder: Drawn twice
+
+[CONNECTIONS]
+- Encoder → Decoder: features
+- From: Enc
+
+[COLOR PALETTE]
+- Primary: #4A90E2
+- Accent: #f5a623 and #zzz
+[TEXT LABELS]
+---END PROMPT---`;
+
+const LINES = SCHEMA.split('\n');
+
+// 1-based line of the first line containing `text`
+function lineOf(text: string): number {
+    return LINES.findIndex((line) => line.includes(text)) + 1;
+}
+
+describe('findSchemaFoldingRanges', () => {
+    it('folds each section up to its last non-blank line', () => {
+        expect(findSchemaFoldingRanges(LINES)).toEqual([
+            { start: 2, end: 3 },
+            { start: 5, end: 6 },
+            { start: 8, end: 11 },
+            { start: 13, end: 15 },
+            { start: 17, end: 19 },
+        ]);
+    });
+
+    it('skips sections with nothing under the heading', () => {
+        expect(findSchemaFoldingRanges(['[DIAGRAM TITLE]', '', '[OVERALL LAYOUT]', 'Left to right']))
+            .toEqual([{ start: 3, end: 4 }]);
+    });
+});
+
+describe('findEndpointCompletions', () => {
+    it('offers element names, then zone names, once each', () => {
+        const line = lineOf('From: Enc');
+        const completions = findEndpointCompletions(LINES, { lineNumber: line, column: LINES[line - 1].length + 1 });
+        expect(completions?.candidates.map(({ entry, kind }) => [entry.name, kind])).toEqual([
+            ['Encoder', 'element'],
+            ['Decoder', 'element'],
+            ['Input Zone', 'zone'],
+        ]);
+        expect(completions?.candidates[0].entry.description).toBe('Stacked blocks');
+    });
+
+    it('replaces from after the bullet and key, or after the last arrow', () => {
+        const line = lineOf('From: Enc');
+        expect(findEndpointCompletions(LINES, { lineNumber: line, column: 12 })?.startColumn)
+            .toBe('- From: '.length + 1);
+
+        const arrowLine = lineOf('Encoder → Decoder');
+        expect(findEndpointCompletions(LINES, { lineNumber: arrowLine, column: 15 })?.startColumn)
+            .toBe('- Encoder → '.length + 1);
+    });
+
+    it('offers nothing outside [CONNECTIONS]', () => {
+        expect(findEndpointCompletions(LINES, { lineNumber: lineOf('Decoder'), column: 3 })).toBeNull();
+    });
+});
+
+describe('findPaletteColorAt', () => {
+    it('finds the color under the cursor with its palette name', () => {
+        const line = lineOf('#f5a623');
+        const start = LINES[line - 1].indexOf('#f5a623') + 1;
+        expect(findPaletteColorAt(LINES, { lineNumber: line, column: start + 2 })).toEqual({
+            hex: '#F5A623',
+            name: 'Accent',
+            startColumn: start,
+            endColumn: start + '#f5a623'.length,
+        });
+    });
+
+    it('ignores text that is not a color, and colors outside the palette', () => {
+        const line = lineOf('#zzz');
+        expect(findPaletteColorAt(LINES, { lineNumber: line, column: LINES[line - 1].indexOf('#zzz') + 2 })).toBeNull();
+        expect(findPaletteColorAt(LINES, { lineNumber: line, column: 3 })).toBeNull();
+        expect(findPaletteColorAt(['Encoder #4A90E2'], { lineNumber: 1, column: 10 })).toBeNull();
+    });
+});
+
+describe('buildSchemaOutline', () => {
+    it('lists connections by their endpoints on their own lines', () => {
+        const connections = buildSchemaOutline(SCHEMA).find((section) => section.key === 'connections');
+        expect(connections?.items[0]).toEqual({ label: 'Encoder → Decoder', line: lineOf('Encoder → Decoder') });
+    });
+});
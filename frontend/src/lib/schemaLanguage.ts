@@ -0,0 +1,301 @@
+import type { Monaco, OnMount } from '@monaco-editor/react';
+import {
+    ARROW_PATTERN,
+    findSchemaSections,
+    locateInLines,
+    parseSchema,
+    SchemaEntry,
+    SchemaSectionKey,
+    SchemaSectionSpan,
+} from '@/lib/schema';
+import { normalizeHexColor } from '@/lib/vector';
+
+/**
+ * Monaco language for the Visual Schema: highlighting, element-name
+ * completion in [CONNECTIONS], palette color hovers, per-section folding and
+ * an outline. Positions in the outline are 1-based, as in Monaco.
+ */
+
+export const SCHEMA_LANGUAGE_ID = 'visual-schema';
+export const SCHEMA_THEME_ID = 'visual-schema-light';
+
+type SchemaModel = NonNullable<ReturnType<Parameters<OnMount>[0]['getModel']>>;
+type EditorPosition = { lineNumber: number; column: number };
+
+const COLOR_TOKEN_PATTERN = /#[0-9A-Za-z]+/g;
+// Bullet, "From:" / "To:" key, or the last arrow: where a connection endpoint starts
+const ENDPOINT_PREFIX_PATTERN = /^\s*(?:(?:[-*•+]|\d+[.)])\s+)?(?:\*\*)?(?:(?:from|to)\s*:\s*)?/i;
+
+export interface SchemaOutlineItem {
+    label: string;
+    line: number;
+}
+
+export interface SchemaOutlineSection extends SchemaOutlineItem {
+    key: SchemaSectionKey | null;
+    endLine: number;
+    items: SchemaOutlineItem[];
+}
+
+export interface EndpointCompletions {
+    startColumn: number;
+    candidates: { entry: SchemaEntry; kind: 'element' | 'zone' }[];
+}
+
+export interface PaletteColorHover {
+    hex: string;
+    name: string;
+    startColumn: number;
+    endColumn: number;
+}
+
+// Last non-blank line of a section, so folds don't swallow the gap before the next heading
+function lastContentLine(lines: string[], section: SchemaSectionSpan): number {
+    let end = section.end - 1;
+    while (end > section.headingLine && !lines[end].trim()) end--;
+    return end;
+}
+
+function sectionAt(sections: SchemaSectionSpan[], line: number): SchemaSectionSpan | undefined {
+    return sections.find((s) => line > s.headingLine && line < s.end);
+}
+
+/**
+ * Sections of the schema with their zones, elements, connections, colors and
+ * labels, for navigating long schemas.
+ */
+export function buildSchemaOutline(text: string): SchemaOutlineSection[] {
+    const lines = text.split(/\r?\n/);
+    const schema = parseSchema(text);
+
+    return findSchemaSections(lines).map((section) => {
+        const labels: { label: string; needle: string }[] = [];
+        switch (section.key) {
+            case 'zones':
+            case 'elements':
+                for (const entry of schema[section.key]) labels.push({ label: entry.name, needle: entry.name });
+                break;
+            case 'connections':
+                for (const c of schema.connections) {
+                    labels.push({ label: c.to ? `${c.from} → ${c.to}` : c.from, needle: c.from });
+                }
+                break;
+            case 'palette':
+                for (const p of schema.palette) {
+                    labels.push({ label: [p.name, p.color].filter(Boolean).join(' '), needle: p.color || p.name });
+                }
+                break;
+            case 'labels':
+                for (const label of schema.labels) labels.push({ label, needle: label });
+                break;
+        }
+
+        // Entries appear in order, so each search continues after the previous match
+        const items: SchemaOutlineItem[] = [];
+        let cursor = section.start;
+        for (const { label, needle } of labels) {
+            const found = locateInLines(lines, needle, section.start, section.end, cursor);
+            if (!found) continue;
+            cursor = found.line + 1;
+            items.push({ label, line: found.line + 1 });
+        }
+
+        return {
+            key: section.key,
+            label: section.heading,
+            line: section.headingLine + 1,
+            endLine: lastContentLine(lines, section) + 1,
+            items,
+        };
+    });
+}
+
+/**
+ * Line ranges to fold, one per section with content below its heading
+ */
+export function findSchemaFoldingRanges(lines: string[]): { start: number; end: number }[] {
+    return findSchemaSections(lines)
+        .map((section) => ({ start: section.headingLine + 1, end: lastContentLine(lines, section) + 1 }))
+        .filter((range) => range.end > range.start);
+}
+
+/**
+ * Element and zone names for the connection endpoint being typed at
+ * `position`, and the column the endpoint starts at. Null outside
+ * [CONNECTIONS].
+ */
+export function findEndpointCompletions(lines: string[], position: EditorPosition): EndpointCompletions | null {
+    if (sectionAt(findSchemaSections(lines), position.lineNumber - 1)?.key !== 'connections') return null;
+
+    const before = lines[position.lineNumber - 1].slice(0, position.column - 1);
+    const arrows = [...before.matchAll(new RegExp(ARROW_PATTERN.source, 'g'))];
+    const lastArrow = arrows[arrows.length - 1];
+    const start = lastArrow && lastArrow.index !== undefined
+        ? lastArrow.index + lastArrow[0].length
+        : before.match(ENDPOINT_PREFIX_PATTERN)![0].length;
+
+    const schema = parseSchema(lines.join('\n'));
+    const seen = new Set<string>();
+    const candidates = [
+        ...schema.elements.map((entry) => ({ entry, kind: 'element' as const })),
+        ...schema.zones.map((entry) => ({ entry, kind: 'zone' as const })),
+    ].filter(({ entry }) => entry.name && !seen.has(entry.name) && seen.add(entry.name));
+
+    return { startColumn: start + 1, candidates };
+}
+
+/**
+ * The hex color under `position` in [COLOR PALETTE], with the palette entry
+ * name it belongs to. Null elsewhere or for tokens that aren't colors.
+ */
+export function findPaletteColorAt(lines: string[], position: EditorPosition): PaletteColorHover | null {
+    if (sectionAt(findSchemaSections(lines), position.lineNumber - 1)?.key !== 'palette') return null;
+
+    const line = lines[position.lineNumber - 1];
+    for (const match of line.matchAll(COLOR_TOKEN_PATTERN)) {
+        const column = (match.index ?? 0) + 1;
+        if (position.column < column || position.column > column + match[0].length) continue;
+        const hex = normalizeHexColor(match[0]);
+        if (!hex) return null;
+
+        const entry = parseSchema(lines.join('\n')).palette.find((p) => normalizeHexColor(p.color) === hex);
+        return { hex, name: entry?.name ?? '', startColumn: column, endColumn: column + match[0].length };
+    }
+    return null;
+}
+
+let registered = false;
+
+/**
+ * Register the language, its providers and the editor theme. Safe to call
+ * from every editor's `beforeMount`; only the first call has an effect.
+ */
+export function registerSchemaLanguage(monaco: Monaco) {
+    if (registered) return;
+    registered = true;
+
+    monaco.languages.register({ id: SCHEMA_LANGUAGE_ID });
+    monaco.languages.setLanguageConfiguration(SCHEMA_LANGUAGE_ID, {
+        brackets: [['[', ']'], ['(', ')']],
+        autoClosingPairs: [
+            { open: '[', close: ']' },
+            { open: '(', close: ')' },
+            { open: '"', close: '"' },
+        ],
+    });
+
+    monaco.languages.setMonarchTokensProvider(SCHEMA_LANGUAGE_ID, {
+        tokenizer: {
+            root: [
+                [/^\s*---(?:BEGIN|END) PROMPT---\s*$/, 'keyword.marker'],
+                [/^\s*(?:#{1,6}\s*)?(?:\*\*)?\[[^\]]+\](?:\*\*)?\s*:?\s*$/, 'type.heading'],
+                [/^(\s*)([-*•+]|\d+[.)])(\s+)(\*{0,2})([^:#\n*]{1,40}?)(\*{0,2})(:)(?=\s|$)/,
+                    ['white', 'delimiter.bullet', 'white', 'strong', 'key', 'strong', 'delimiter']],
+                [/^(\s*)([-*•+]|\d+[.)])(\s+)/, ['white', 'delimiter.bullet', 'white']],
+                [ARROW_PATTERN, 'operator.arrow'],
+                [/#(?:[0-9a-fA-F]{6}|[0-9a-fA-F]{3})\b/, 'number.hex'],
+                [/\*\*[^*]+\*\*/, 'strong'],
+            ],
+        },
+    });
+
+    monaco.editor.defineTheme(SCHEMA_THEME_ID, {
+        base: 'vs',
+        inherit: true,
+        rules: [
+            { token: 'keyword.marker', foreground: '94a3b8' },
+            { token: 'type.heading', foreground: '4f46e5', fontStyle: 'bold' },
+            { token: 'delimiter.bullet', foreground: '94a3b8' },
+            { token: 'key', foreground: '0f766e', fontStyle: 'bold' },
+            { token: 'operator.arrow', foreground: 'db2777', fontStyle: 'bold' },
+            { token: 'number.hex', foreground: 'b45309' },
+            { token: 'strong', fontStyle: 'bold' },
+        ],
+        colors: {},
+    });
+
+    // Element and zone names for connection endpoints
+    monaco.languages.registerCompletionItemProvider(SCHEMA_LANGUAGE_ID, {
+        triggerCharacters: [' ', '>', '→'],
+        provideCompletionItems(model: SchemaModel, position: EditorPosition) {
+            const completions = findEndpointCompletions(model.getLinesContent(), position);
+            if (!completions) return { suggestions: [] };
+
+            const { CompletionItemKind } = monaco.languages;
+            const range = {
+                startLineNumber: position.lineNumber,
+                startColumn: completions.startColumn,
+                endLineNumber: position.lineNumber,
+                endColumn: position.column,
+            };
+            return {
+                suggestions: completions.candidates.map(({ entry, kind }) => ({
+                    label: entry.name,
+                    kind: kind === 'element' ? CompletionItemKind.Class : CompletionItemKind.Module,
+                    detail: kind === 'element' ? 'Visual element' : 'Zone',
+                    documentation: entry.description,
+                    insertText: entry.name,
+                    range,
+                })),
+            };
+        },
+    });
+
+    // Swatch for hex colors in [COLOR PALETTE]
+    monaco.languages.registerHoverProvider(SCHEMA_LANGUAGE_ID, {
+        provideHover(model: SchemaModel, position: EditorPosition) {
+            const color = findPaletteColorAt(model.getLinesContent(), position);
+            if (!color) return null;
+
+            const { hex, name } = color;
+            return {
+                range: {
+                    startLineNumber: position.lineNumber,
+                    startColumn: color.startColumn,
+                    endLineNumber: position.lineNumber,
+                    endColumn: color.endColumn,
+                },
+                contents: [{
+                    value: `<span style="color:${hex};background-color:${hex};">&nbsp;&nbsp;&nbsp;&nbsp;&nbsp;&nbsp;</span> \`${hex}\`${name ? ` **${name}**` : ''}`,
+                    supportHtml: true,
+                }],
+            };
+        },
+    });
+
+    monaco.languages.registerFoldingRangeProvider(SCHEMA_LANGUAGE_ID, {
+        provideFoldingRanges(model: SchemaModel) {
+            return findSchemaFoldingRanges(model.getLinesContent())
+                .map((range) => ({ ...range, kind: monaco.languages.FoldingRangeKind.Region }));
+        },
+    });
+
+    // Feeds the "Go to Symbol" (Ctrl+Shift+O) outline
+    monaco.languages.registerDocumentSymbolProvider(SCHEMA_LANGUAGE_ID, {
+        provideDocumentSymbols(model: SchemaModel) {
+            const { SymbolKind } = monaco.languages;
+            const lineRange = (start: number, end = start) => ({
+                startLineNumber: start,
+                startColumn: 1,
+                endLineNumber: end,
+                endColumn: model.getLineMaxColumn(end),
+            });
+            return buildSchemaOutline(model.getValue()).map((section) => ({
+                name: section.label,
+                detail: '',
+                kind: SymbolKind.Namespace,
+                tags: [],
+                range: lineRange(section.line, Math.max(section.line, section.endLine)),
+                selectionRange: lineRange(section.line),
+                children: section.items.map((item) => ({
+                    name: item.label,
+                    detail: '',
+                    kind: section.key === 'palette' ? SymbolKind.Constant : SymbolKind.Field,
+                    tags: [],
+                    range: lineRange(item.line),
+                    selectionRange: lineRange(item.line),
+                })),
+            }));
+        },
+    });
+}
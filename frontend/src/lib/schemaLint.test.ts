@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { LintDiagnostic, lintSchema } from './schemaLint';
+
+const CLEAN = `---BEGIN PROMPT---
+[DIAGRAM TITLE]
+Pipeline
+
+[OVERALL LAYOUT]
+Left to right
+
+[ZONES/SECTIONS]
+Input Zone: Raw data
+
+[VISUAL ELEMENTS]
+Encoder
+Decoder
+
+[CONNECTIONS]
+- Encoder → Decoder: features
+
+[COLOR PALETTE]
+- Primary: #4A90E2
+
+[TEXT LABELS]
+- "Encoder"
+---END PROMPT---`;
+
+// Apply a diagnostic's first fix; every fix here is a single-line edit
+function applyFix(text: string, diagnostic: LintDiagnostic): string {
+    const lines = text.split('\n');
+    for (const { range, text: replacement } of diagnostic.fixes[0].edits) {
+        const line = lines[range.startLine - 1];
+        lines[range.startLine - 1] = line.slice(0, range.startColumn - 1) + replacement + line.slice(range.endColumn - 1);
+    }
+    return lines.join('\n');
+}
+
+describe('lintSchema', () => {
+    it('accepts a complete schema', () => {
+        expect(lintSchema(CLEAN)).toEqual([]);
+    });
+
+    it('reports missing markers and sections', () => {
+        const codes = lintSchema('[DIAGRAM TITLE]\nPipeline').map((d) => d.code);
+        expect(codes).toContain('missing-markers');
+        expect(codes.filter((code) => code === 'missing-section')).toHaveLength(6);
+    });
+
+    it('points at an undefined endpoint and offers the closest name', () => {
+        const text = CLEAN.replace('Encoder → Decoder', 'Encoder → Decodr');
+        const [diagnostic] = lintSchema(text);
+
+        expect(diagnostic).toMatchObject({ code: 'undefined-endpoint', startLine: 16, startColumn: 13 });
+        expect(diagnostic.fixes[0].title).toBe('Change to "Decoder"');
+        expect(lintSchema(applyFix(text, diagnostic))).toEqual([]);
+    });
+
+    it('fixes a color with an alpha channel', () => {
+        const text = CLEAN.replace('#4A90E2', '#4A90E2FF');
+        const [diagnostic] = lintSchema(text);
+
+        expect(diagnostic).toMatchObject({ code: 'invalid-color', severity: 'error' });
+        expect(applyFix(text, diagnostic)).toBe(CLEAN);
+    });
+
+    it('flags duplicate and overly long element names', () => {
+        const text = CLEAN.replace('Encoder\nDecoder', 'Encoder\nEncoder\nA Very Long Element Name That Image Models Will Garble');
+        const codes = lintSchema(text).map((d) => d.code);
+        expect(codes).toEqual(expect.arrayContaining(['duplicate-label', 'long-label']));
+    });
+});
@@ -0,0 +1,282 @@
+import {
+    findSchemaSections,
+    locateInLines,
+    parseSchema,
+    SCHEMA_BEGIN_MARKER,
+    SCHEMA_END_MARKER,
+    SCHEMA_SECTIONS,
+    SchemaSectionKey,
+} from '@/lib/schema';
+import { layoutSchema } from '@/lib/vector';
+
+/**
+ * Line-aware checks for the Visual Schema text. Positions are 1-based, as in
+ * Monaco, so diagnostics map straight onto editor markers. Errors block
+ * rendering; warnings are advisory.
+ */
+
+export interface LintRange {
+    startLine: number;
+    startColumn: number;
+    endLine: number;
+    endColumn: number;
+}
+
+export interface LintEdit {
+    range: LintRange;
+    text: string;
+}
+
+export interface LintFix {
+    title: string;
+    edits: LintEdit[];
+}
+
+export type LintCode =
+    | 'missing-markers'
+    | 'missing-section'
+    | 'undefined-endpoint'
+    | 'missing-arrow'
+    | 'invalid-color'
+    | 'duplicate-label'
+    | 'long-label';
+
+export interface LintDiagnostic extends LintRange {
+    code: LintCode;
+    severity: 'error' | 'warning';
+    message: string;
+    fixes: LintFix[];
+}
+
+export const MAX_ELEMENT_NAME_LENGTH = 40;
+export const MAX_TEXT_LABEL_LENGTH = 60;
+
+const COLOR_TOKEN_PATTERN = /#[0-9A-Za-z]+/g;
+const VALID_HEX_PATTERN = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+function rangeAt(line: number, column: number, length: number): LintRange {
+    return { startLine: line + 1, startColumn: column + 1, endLine: line + 1, endColumn: column + 1 + Math.max(length, 1) };
+}
+
+function insertAt(line: number, column: number, text: string): LintEdit {
+    return { range: { startLine: line, startColumn: column, endLine: line, endColumn: column }, text };
+}
+
+// Insert whole lines before the 0-based line `index`, or append at the end of the text
+function insertBeforeLine(lines: string[], index: number, text: string): LintEdit {
+    if (index < lines.length) return insertAt(index + 1, 1, text);
+    return insertAt(lines.length, lines[lines.length - 1].length + 1, `\n${text.replace(/\n+$/, '')}`);
+}
+
+function normalize(text: string): string {
+    return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function editDistance(a: string, b: string): number {
+    const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        let diagonal = row[0];
+        row[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const above = row[j];
+            row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+            diagonal = above;
+        }
+    }
+    return row[b.length];
+}
+
+function shorten(text: string, max: number): string {
+    if (text.length <= max) return text;
+    const cut = text.slice(0, max - 1);
+    const space = cut.lastIndexOf(' ');
+    return `${(space > max / 2 ? cut.slice(0, space) : cut).trimEnd()}…`;
+}
+
+export function lintSchema(text: string): LintDiagnostic[] {
+    const lines = text.split(/\r?\n/);
+    const diagnostics: LintDiagnostic[] = [];
+    const lastLine = lines.length;
+    const lastColumn = lines[lines.length - 1].length + 1;
+
+    // Markers
+    const beginLine = lines.findIndex((l) => l.includes(SCHEMA_BEGIN_MARKER));
+    const endLine = lines.findIndex((l, i) => i > beginLine && l.includes(SCHEMA_END_MARKER));
+    if (beginLine === -1 || endLine === -1) {
+        const edits: LintEdit[] = [];
+        if (beginLine === -1) edits.push(insertAt(1, 1, `${SCHEMA_BEGIN_MARKER}\n`));
+        if (endLine === -1) edits.push(insertAt(lastLine, lastColumn, `\n${SCHEMA_END_MARKER}`));
+        diagnostics.push({
+            ...rangeAt(0, 0, lines[0].length),
+            code: 'missing-markers',
+            severity: 'error',
+            message: `The schema must be wrapped in ${SCHEMA_BEGIN_MARKER} and ${SCHEMA_END_MARKER}.`,
+            fixes: [{ title: 'Add the missing markers', edits }],
+        });
+    }
+
+    // Sections
+    const bodyEnd = endLine === -1 ? lines.length : endLine;
+    const sections = findSchemaSections(lines);
+    const sectionFor = (key: SchemaSectionKey) => sections.find((s) => s.key === key);
+
+    // New sections go just before the END marker, or at the end of the text
+    for (const { key, heading } of SCHEMA_SECTIONS) {
+        if (sectionFor(key)) continue;
+        const edit = insertBeforeLine(lines, bodyEnd, `[${heading}]\n\n`);
+        diagnostics.push({
+            ...rangeAt(Math.max(beginLine, 0), 0, lines[Math.max(beginLine, 0)].length),
+            code: 'missing-section',
+            severity: 'warning',
+            message: `Missing section [${heading}].`,
+            fixes: [{ title: `Add [${heading}]`, edits: [edit] }],
+        });
+    }
+
+    const schema = parseSchema(text);
+
+    // Duplicate and overly long element / zone names
+    for (const key of ['zones', 'elements'] as const) {
+        const section = sectionFor(key);
+        if (!section) continue;
+        const seen = new Map<string, number>();
+        let cursor = section.start;
+        for (const entry of schema[key]) {
+            const found = locateInLines(lines, entry.name, section.start, section.end, cursor);
+            if (!found) continue;
+            cursor = found.line + 1;
+            const range = rangeAt(found.line, found.column, entry.name.length);
+            const editRange = { ...range, endColumn: found.column + 1 + entry.name.length };
+
+            const count = (seen.get(normalize(entry.name)) ?? 0) + 1;
+            seen.set(normalize(entry.name), count);
+            if (count > 1) {
+                diagnostics.push({
+                    ...range,
+                    code: 'duplicate-label',
+                    severity: 'warning',
+                    message: `"${entry.name}" is defined more than once; connections to it are ambiguous.`,
+                    fixes: [{ title: `Rename to "${entry.name} (${count})"`, edits: [{ range: editRange, text: `${entry.name} (${count})` }] }],
+                });
+            }
+            if (entry.name.length > MAX_ELEMENT_NAME_LENGTH) {
+                const short = shorten(entry.name, MAX_ELEMENT_NAME_LENGTH);
+                diagnostics.push({
+                    ...range,
+                    code: 'long-label',
+                    severity: 'warning',
+                    message: `Name is ${entry.name.length} characters; image models garble labels over ${MAX_ELEMENT_NAME_LENGTH}.`,
+                    fixes: [{ title: `Shorten to "${short}"`, edits: [{ range: editRange, text: short }] }],
+                });
+            }
+        }
+    }
+
+    // Key text labels
+    const labelSection = sectionFor('labels');
+    if (labelSection) {
+        let cursor = labelSection.start;
+        for (const label of schema.labels) {
+            const found = locateInLines(lines, label, labelSection.start, labelSection.end, cursor);
+            if (!found) continue;
+            cursor = found.line + 1;
+            if (label.length <= MAX_TEXT_LABEL_LENGTH) continue;
+            const range = rangeAt(found.line, found.column, label.length);
+            const short = shorten(label, MAX_TEXT_LABEL_LENGTH);
+            diagnostics.push({
+                ...range,
+                code: 'long-label',
+                severity: 'warning',
+                message: `Label is ${label.length} characters; keep text labels under ${MAX_TEXT_LABEL_LENGTH}.`,
+                fixes: [{ title: `Shorten to "${short}"`, edits: [{ range, text: short }] }],
+            });
+        }
+    }
+
+    // Connections, resolved the same way the wireframe preview draws them
+    const connectionSection = sectionFor('connections');
+    if (connectionSection) {
+        const elementSection = sectionFor('elements');
+        const knownNames = [...schema.elements, ...schema.zones].map((e) => e.name);
+        const unresolved = new Map(layoutSchema(schema).unresolvedConnections.map((c) => [c.index, c]));
+        let cursor = connectionSection.start;
+
+        schema.connections.forEach((connection, index) => {
+            const found = locateInLines(lines, connection.from, connectionSection.start, connectionSection.end, cursor);
+            if (!found) return;
+            cursor = found.line + 1;
+            const line = lines[found.line];
+
+            if (!connection.to) {
+                diagnostics.push({
+                    ...rangeAt(found.line, found.column, connection.from.length),
+                    code: 'missing-arrow',
+                    severity: 'warning',
+                    message: 'Connection has no "from → to" arrow, so it cannot be drawn.',
+                    fixes: [],
+                });
+                return;
+            }
+
+            for (const end of unresolved.get(index)?.missing ?? []) {
+                const name = connection[end];
+                const column = end === 'from' ? found.column : line.indexOf(name, found.column + connection.from.length);
+                const range = rangeAt(found.line, column === -1 ? found.column : column, name.length);
+                const fixes: LintFix[] = [];
+
+                // Suggest the closest defined name when it is plausibly a typo
+                const closest = knownNames
+                    .map((candidate) => ({ candidate, distance: editDistance(normalize(candidate), normalize(name)) }))
+                    .sort((a, b) => a.distance - b.distance)[0];
+                if (column !== -1 && closest && closest.distance <= Math.max(3, Math.floor(name.length / 3))) {
+                    fixes.push({
+                        title: `Change to "${closest.candidate}"`,
+                        edits: [{ range: { ...range, endColumn: range.startColumn + name.length }, text: closest.candidate }],
+                    });
+                }
+                if (elementSection) {
+                    fixes.push({
+                        title: `Add "${name}" to [VISUAL ELEMENTS]`,
+                        edits: [insertBeforeLine(lines, elementSection.end, `${name}\n\n`)],
+                    });
+                }
+
+                diagnostics.push({
+                    ...range,
+                    code: 'undefined-endpoint',
+                    severity: 'warning',
+                    message: `"${name}" is not a defined element or zone.`,
+                    fixes,
+                });
+            }
+        });
+    }
+
+    // Palette colors
+    const paletteSection = sectionFor('palette');
+    if (paletteSection) {
+        for (let i = paletteSection.start; i < paletteSection.end; i++) {
+            for (const match of lines[i].matchAll(COLOR_TOKEN_PATTERN)) {
+                const token = match[0];
+                if (VALID_HEX_PATTERN.test(token)) continue;
+                const range = rangeAt(i, match.index ?? 0, token.length);
+                const digits = token.slice(1);
+                const fixes: LintFix[] = [];
+                // #RRGGBBAA and #RGBA: drop the alpha channel
+                if (/^[0-9a-f]+$/i.test(digits) && (digits.length === 8 || digits.length === 4)) {
+                    const fixed = `#${digits.slice(0, digits.length === 8 ? 6 : 3)}`;
+                    fixes.push({ title: `Change to ${fixed}`, edits: [{ range, text: fixed }] });
+                }
+                diagnostics.push({
+                    ...range,
+                    code: 'invalid-color',
+                    severity: 'error',
+                    message: `"${token}" is not a valid hex color (use #RGB or #RRGGBB).`,
+                    fixes,
+                });
+            }
+        }
+    }
+
+    return diagnostics.sort((a, b) => a.startLine - b.startLine || a.startColumn - b.startColumn);
+}
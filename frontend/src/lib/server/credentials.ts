@@ -0,0 +1,133 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import type { AuthScheme, CredentialProfileSummary, ProviderId } from '@/lib/providers';
+import { ProxyRejection } from './proxyPolicy';
+
+/**
+ * Named API credentials kept on the server, so a shared deployment never
+ * hands keys to the browser. Profiles are read from the CREDENTIAL_PROFILES
+ * environment variable and from the file named by CREDENTIAL_PROFILES_FILE
+ * (default `credential-profiles.json` in the working directory); both hold a
+ * JSON array, and the environment wins on duplicate ids:
+ *
+ *   [{ "id": "lab-openai", "name": "Lab OpenAI", "provider": "openai",
+ *      "baseUrl": "https://api.openai.com/v1", "apiKey": "sk-...", "models": ["gpt-5"] }]
+ *
+ * An optional `authScheme` fixes the header the key goes in, whatever the
+ * browser's config asks for.
+ *
+ * They are re-read on every request, so edits apply without a restart.
+ */
+
+export interface CredentialProfile extends CredentialProfileSummary {
+    apiKey: string;
+    authScheme?: AuthScheme;
+}
+
+const AUTH_SCHEMES: AuthScheme[] = ['bearer', 'api-key', 'x-api-key', 'none'];
+
+export function isAuthScheme(value: unknown): value is AuthScheme {
+    return AUTH_SCHEMES.includes(value as AuthScheme);
+}
+
+export function authHeaders(scheme: AuthScheme, apiKey: string): Record<string, string> {
+    switch (scheme) {
+        case 'bearer':
+            return { 'Authorization': `Bearer ${apiKey}` };
+        case 'api-key':
+            return { 'api-key': apiKey };
+        case 'x-api-key':
+            return { 'x-api-key': apiKey };
+        case 'none':
+            return {};
+    }
+}
+
+// Google calls go straight from the browser through its SDK, never through the proxy
+const PROXIED_PROVIDERS: ProviderId[] = ['openai', 'openai-images', 'anthropic', 'ollama'];
+
+const DEFAULT_PROFILES_FILE = 'credential-profiles.json';
+
+function isHttpUrl(value: unknown): value is string {
+    try {
+        return typeof value === 'string' && ['http:', 'https:'].includes(new URL(value).protocol);
+    } catch {
+        return false;
+    }
+}
+
+function parseProfiles(json: string, source: string): CredentialProfile[] {
+    let entries: unknown;
+    try {
+        entries = JSON.parse(json);
+    } catch (error) {
+        console.error(`Invalid credential profiles in ${source}:`, error);
+        return [];
+    }
+    if (!Array.isArray(entries)) {
+        console.error(`Credential profiles in ${source} must be a JSON array`);
+        return [];
+    }
+
+    const profiles: CredentialProfile[] = [];
+    for (const entry of entries) {
+        const { id, name, provider, baseUrl, apiKey, authScheme, models } = entry ?? {};
+        if (typeof id !== 'string' || !isHttpUrl(baseUrl) || typeof apiKey !== 'string'
+            || !PROXIED_PROVIDERS.includes(provider) || (authScheme !== undefined && !isAuthScheme(authScheme))) {
+            console.error(`Skipping invalid credential profile in ${source}: ${typeof id === 'string' ? id : '(no id)'}`);
+            continue;
+        }
+        profiles.push({
+            id,
+            name: typeof name === 'string' && name ? name : id,
+            provider,
+            baseUrl,
+            apiKey,
+            ...(authScheme ? { authScheme } : {}),
+            models: Array.isArray(models) ? models.filter((model) => typeof model === 'string') : [],
+        });
+    }
+    return profiles;
+}
+
+export function loadCredentialProfiles(env: NodeJS.ProcessEnv = process.env): CredentialProfile[] {
+    const file = resolve(env.CREDENTIAL_PROFILES_FILE || DEFAULT_PROFILES_FILE);
+    const fromFile = existsSync(file) ? parseProfiles(readFileSync(file, 'utf8'), file) : [];
+    const fromEnv = env.CREDENTIAL_PROFILES ? parseProfiles(env.CREDENTIAL_PROFILES, 'CREDENTIAL_PROFILES') : [];
+
+    const byId = new Map<string, CredentialProfile>();
+    for (const profile of [...fromFile, ...fromEnv]) byId.set(profile.id, profile);
+    return [...byId.values()];
+}
+
+export function summarizeCredentialProfile({ id, name, provider, baseUrl, models }: CredentialProfile): CredentialProfileSummary {
+    return { id, name, provider, baseUrl, models };
+}
+
+export function findCredentialProfile(id: string): CredentialProfile {
+    const profile = loadCredentialProfiles().find((p) => p.id === id);
+    if (!profile) {
+        throw new ProxyRejection(400, 'unknown_profile', `Unknown credential profile: ${id}`);
+    }
+    return profile;
+}
+
+/**
+ * A profile's key only ever goes to the origin it was configured for, however
+ * the browser built the URL.
+ */
+export function checkProfileTarget(url: URL, profile: CredentialProfile): void {
+    if (new URL(profile.baseUrl).origin !== url.origin) {
+        throw new ProxyRejection(
+            403,
+            'profile_host_mismatch',
+            `Credential profile ${profile.id} cannot be used with ${url.host}`
+        );
+    }
+}
+
+/** Auth headers for a profile: its own scheme, else the one the request asks for */
+export function profileAuthHeaders(profile: CredentialProfile, requested: AuthScheme | undefined): Record<string, string> {
+    const fallback = profile.provider === 'anthropic' ? 'x-api-key' : 'bearer';
+    return authHeaders(profile.authScheme ?? requested ?? fallback, profile.apiKey);
+}
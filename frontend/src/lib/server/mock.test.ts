@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { hasSchemaMarkers, parseSchema, SCHEMA_END_MARKER } from '@/lib/schema';
+import { lintSchema } from '@/lib/schemaLint';
+import { malformedTextReply, mockImagePng, mockTextReply, readMockOptions } from './mock';
+
+const PAPER = 'Paper Content:\nSparse attention for protein folding. The encoder feeds attention layers, and attention feeds the decoder.';
+
+describe('mockTextReply', () => {
+    it('answers with the same lint-clean schema for the same paper', () => {
+        const reply = mockTextReply(PAPER);
+        expect(reply).toBe(mockTextReply(PAPER));
+        expect(hasSchemaMarkers(reply)).toBe(true);
+        expect(lintSchema(reply)).toEqual([]);
+
+        const schema = parseSchema(reply);
+        expect(schema.title).toBe(PAPER.split('\n')[1].slice(0, 80));
+        expect(schema.zones).toHaveLength(3);
+        expect(schema.elements.map((e) => e.name)).toContain('Attention');
+        expect(schema.connections).toHaveLength(schema.elements.length - 1);
+    });
+
+    it('adds a refinement request to the schema it was given', () => {
+        const prompt = `Current schema:\n${mockTextReply(PAPER)}\n\nNew request from the user:\nMake the arrows thicker`;
+        expect(parseSchema(mockTextReply(prompt)).labels).toContain('Make the arrows thicker');
+    });
+});
+
+describe('malformedTextReply', () => {
+    it('cuts the schema off before its END marker', () => {
+        expect(malformedTextReply(PAPER)).not.toContain(SCHEMA_END_MARKER);
+    });
+});
+
+describe('mockImagePng', () => {
+    it('encodes a PNG of the expected size', () => {
+        const png = mockImagePng(mockTextReply(PAPER));
+        expect(png.subarray(0, 8)).toEqual(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+        expect(png.toString('ascii', 12, 16)).toBe('IHDR');
+        expect([png.readUInt32BE(16), png.readUInt32BE(20)]).toEqual([1024, 640]);
+    });
+});
+
+describe('readMockOptions', () => {
+    it('prefers query parameters over the environment', () => {
+        const params = new URLSearchParams({ latency: '250', error: '429' });
+        expect(readMockOptions(params, { NODE_ENV: 'test', MOCK_ERROR: '500' })).toEqual({ latencyMs: 250, error: '429' });
+        expect(readMockOptions(new URLSearchParams(), { NODE_ENV: 'test', MOCK_ERROR: '500' })).toEqual({ latencyMs: 0, error: '500' });
+    });
+
+    it('caps latency and ignores unknown errors', () => {
+        const options = readMockOptions(new URLSearchParams({ latency: '999999', error: 'teapot' }), { NODE_ENV: 'test' });
+        expect(options).toEqual({ latencyMs: 60000, error: null });
+        expect(readMockOptions(new URLSearchParams({ error: '500', errorRate: '0' }), { NODE_ENV: 'test' }).error).toBeNull();
+    });
+});
@@ -0,0 +1,291 @@
+import {
+    createEmptySchema,
+    extractSchemaBlock,
+    parseSchema,
+    SchemaEntry,
+    serializeSchema,
+    VisualSchema,
+} from '@/lib/schema';
+import { estimateTokens } from '@/lib/tokens';
+import { Canvas, createCanvas, drawLine, encodePng, fillRect, parseHexColor, Rgb, strokeRect } from './png';
+
+/**
+ * Offline stand-in for a model provider, served by /api/mock/text and
+ * /api/mock/image. Output is derived deterministically from the prompt, so UI
+ * work and end-to-end tests get stable results without network or credits.
+ * Query parameters (a config's connection options) or the environment shape
+ * how it behaves:
+ *
+ * - latency / MOCK_LATENCY_MS: delay before answering, in ms
+ * - error / MOCK_ERROR: inject a failure: `429`, `500`, or `malformed` for a
+ *   well-formed response carrying broken model output
+ * - errorRate / MOCK_ERROR_RATE: share of requests that fail, 0 to 1; default 1
+ */
+
+export type MockError = '429' | '500' | 'malformed';
+
+export interface MockOptions {
+    latencyMs: number;
+    error: MockError | null;
+}
+
+const MOCK_ERRORS: MockError[] = ['429', '500', 'malformed'];
+const MAX_LATENCY_MS = 60000;
+
+export function readMockOptions(params: URLSearchParams, env: NodeJS.ProcessEnv = process.env): MockOptions {
+    const latency = Number(params.get('latency') ?? env.MOCK_LATENCY_MS ?? 0);
+    const error = params.get('error') ?? env.MOCK_ERROR ?? null;
+    const errorRate = Number(params.get('errorRate') ?? env.MOCK_ERROR_RATE ?? 1);
+    return {
+        latencyMs: Number.isFinite(latency) ? Math.min(Math.max(latency, 0), MAX_LATENCY_MS) : 0,
+        error: MOCK_ERRORS.includes(error as MockError) && Math.random() < errorRate ? error as MockError : null,
+    };
+}
+
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            resolve();
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+export interface MockRequest {
+    prompt: string;
+    stream: boolean;
+    image?: string; // Marked image of an edit
+}
+
+/**
+ * Read the JSON body of a mock request. Bodies that are not JSON, or carry
+ * fields of the wrong type, get a 400 like /api/proxy gives them.
+ */
+export async function readMockRequest(req: Request): Promise<MockRequest | Response> {
+    const invalid = (message: string) => Response.json({ error: message, code: 'invalid_request' }, { status: 400 });
+    let body: unknown;
+    try {
+        body = await req.json();
+    } catch {
+        return invalid('Mock request is not valid JSON');
+    }
+    const { prompt = '', stream = false, image } = (body ?? {}) as Record<string, unknown>;
+    if (typeof prompt !== 'string' || typeof stream !== 'boolean' || (image !== undefined && typeof image !== 'string')) {
+        return invalid('Mock request needs a string prompt');
+    }
+    return { prompt, stream, image };
+}
+
+/** The injected HTTP failures, shaped like a provider's error responses */
+export function mockFailure(error: '429' | '500'): Response {
+    return error === '429'
+        ? Response.json({ error: 'Mock rate limit' }, { status: 429, headers: { 'Retry-After': '1' } })
+        : Response.json({ error: 'Mock server error' }, { status: 500 });
+}
+
+// ---------------------------------------------------------------------------
+// Visual Schema
+// ---------------------------------------------------------------------------
+
+// Common English words plus the vocabulary of the built-in prompt templates
+const STOPWORDS = new Set([
+    'about', 'above', 'after', 'again', 'along', 'also', 'among', 'another', 'based', 'because', 'before',
+    'being', 'below', 'between', 'both', 'could', 'describe', 'detail', 'detailed', 'diagram', 'during',
+    'each', 'every', 'following', 'format', 'from', 'further', 'generate', 'have', 'having', 'include',
+    'including', 'into', 'itself', 'layout', 'other', 'paper', 'should', 'since', 'such', 'than', 'that',
+    'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'through', 'under', 'until',
+    'using', 'visual', 'schema', 'where', 'which', 'while', 'with', 'within', 'would', 'academic',
+    'analyze', 'architect', 'comprehensive', 'content', 'describes', 'expert', 'publication-quality',
+    'structure', 'elements', 'scheme', 'labels', 'annotations', 'indicators', 'sections', 'shapes',
+    'icons', 'connections', 'panels', 'zones', 'color', 'colors', 'direction', 'text', 'flow',
+]);
+
+// Fill-ins for inputs without enough English words (e.g. Chinese papers)
+const DEFAULT_TERMS = ['Input Data', 'Encoder', 'Core Model', 'Prediction'];
+
+const ZONE_STYLES = [
+    { name: 'Input Zone', position: 'Left, 25% width', background: 'Light blue (#EAF2FB)' },
+    { name: 'Method Zone', position: 'Center, 50% width', background: 'Light gray (#F4F5F7)' },
+    { name: 'Output Zone', position: 'Right, 25% width', background: 'Light green (#EAF7EE)' },
+];
+
+const PALETTE = [
+    { name: 'Primary Blue', color: '#4A90E2', description: 'input and data elements' },
+    { name: 'Slate', color: '#5B6770', description: 'method components' },
+    { name: 'Teal', color: '#2BB3A3', description: 'intermediate results' },
+    { name: 'Orange', color: '#F5A623', description: 'outputs and highlights' },
+];
+
+function capitalize(word: string): string {
+    return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+// Most frequent words, ties broken by first appearance
+function keyTerms(text: string, count: number): string[] {
+    const counts = new Map<string, number>();
+    for (const word of text.toLowerCase().match(/[a-z][a-z-]{4,}/g) ?? []) {
+        if (!STOPWORDS.has(word)) counts.set(word, (counts.get(word) ?? 0) + 1);
+    }
+    const terms = [...counts.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, count)
+        .map(([word]) => capitalize(word));
+    return [...terms, ...DEFAULT_TERMS.filter((term) => !terms.includes(term))].slice(0, count);
+}
+
+function entry(name: string, description: string, properties: [string, string][]): SchemaEntry {
+    return { name, description, properties: properties.map(([key, value]) => ({ key, value })), notes: [] };
+}
+
+/**
+ * A three-zone pipeline schema built around the paper's most frequent
+ * terms, with its first line as the title.
+ */
+export function mockSchema(paper: string): VisualSchema {
+    const terms = keyTerms(paper, 4);
+    const firstLine = paper.split('\n').map((line) => line.replace(/^#+\s*/, '').trim()).find(Boolean) ?? '';
+    const zoneOf = (index: number) => ZONE_STYLES[index === 0 ? 0 : index === terms.length - 1 ? 2 : 1];
+
+    const schema = createEmptySchema();
+    schema.title = firstLine.slice(0, 80) || `${terms[0]} Overview`;
+    schema.layout = `Left-to-right pipeline in three zones (input, method, output) connecting ${terms.join(', ')}.`;
+    schema.zones = ZONE_STYLES.map((zone) => entry(
+        zone.name,
+        `Holds ${terms.filter((_, i) => zoneOf(i) === zone).join(' and ')}`,
+        [['Position', zone.position], ['Background', zone.background]]
+    ));
+    schema.elements = terms.map((term, i) => entry(term, `Rounded box labeled "${term}"`, [
+        ['Type', 'Rounded rectangle'],
+        ['Zone', zoneOf(i).name],
+        ['Style', `${PALETTE[i].name} (${PALETTE[i].color}) fill, thin dark border`],
+    ]));
+    schema.connections = terms.slice(1).map((term, i) => ({
+        from: terms[i],
+        to: term,
+        description: 'Solid arrow',
+        properties: [{ key: 'Style', value: 'Dark gray, 2px' }],
+        notes: [],
+    }));
+    schema.palette = PALETTE.map((color) => ({ ...color }));
+    schema.labels = terms;
+    return schema;
+}
+
+// Headings of the built-in Refine and Architect templates
+const REFINE_REQUEST_MARKER = 'New request from the user:';
+const PAPER_CONTENT_MARKER = 'Paper Content:';
+
+/**
+ * The reply for a prompt: a refinement (the current schema with the request
+ * added as a label) when the prompt is a refinement request, otherwise a
+ * fresh schema for the paper content.
+ */
+export function mockTextReply(prompt: string): string {
+    const block = extractSchemaBlock(prompt);
+    const requestStart = prompt.indexOf(REFINE_REQUEST_MARKER);
+    if (requestStart !== -1 && block) {
+        const request = prompt.slice(requestStart + REFINE_REQUEST_MARKER.length).trim().split('\n')[0].trim();
+        const schema = parseSchema(block);
+        schema.labels = [...schema.labels, request.slice(0, 60)];
+        return `Added the request as a text label (mock provider).\n\n${serializeSchema(schema)}`;
+    }
+
+    // In an Architect prompt the schema block is the template's format example, not paper content
+    const text = block ? prompt.replace(block, '') : prompt;
+    const paperStart = text.indexOf(PAPER_CONTENT_MARKER);
+    return serializeSchema(mockSchema(paperStart === -1 ? text : text.slice(paperStart + PAPER_CONTENT_MARKER.length)));
+}
+
+/** Model output gone wrong: the schema cut off halfway, without its END marker */
+export function malformedTextReply(prompt: string): string {
+    const reply = mockTextReply(prompt);
+    return reply.slice(0, Math.floor(reply.length / 2));
+}
+
+export function mockUsage(prompt: string, reply: string) {
+    return { promptTokens: estimateTokens(prompt), completionTokens: estimateTokens(reply) };
+}
+
+// ---------------------------------------------------------------------------
+// Placeholder image
+// ---------------------------------------------------------------------------
+
+const WIDTH = 1024;
+const HEIGHT = 640;
+const INK: Rgb = [51, 65, 85];
+const ZONE_BORDER: Rgb = [203, 213, 225];
+
+function propertyColor(entry: SchemaEntry, key: string): Rgb | null {
+    const property = entry.properties.find((p) => p.key.toLowerCase() === key);
+    return property ? parseHexColor(property.value) : null;
+}
+
+/**
+ * A wireframe of the schema in the prompt: zones as columns, elements as
+ * boxes in their zone, connections as lines. Without a schema, a generic
+ * three-zone layout.
+ */
+export function mockImagePng(prompt: string): Buffer {
+    const schema = parseSchema(extractSchemaBlock(prompt) ?? prompt);
+    const zones = schema.zones.length > 0 ? schema.zones : mockSchema('').zones;
+    const elements = schema.elements.length > 0 ? schema.elements : mockSchema('').elements;
+    const palette = schema.palette.map((p) => parseHexColor(p.color)).filter((c): c is Rgb => !!c);
+    const colors = palette.length > 0 ? palette : PALETTE.map((p) => parseHexColor(p.color)!);
+
+    const canvas: Canvas = createCanvas(WIDTH, HEIGHT, [255, 255, 255]);
+    fillRect(canvas, 0, 0, WIDTH, 56, colors[0]); // Title bar
+
+    const margin = 24;
+    const top = 80;
+    const zoneWidth = (WIDTH - margin * (zones.length + 1)) / zones.length;
+    const zoneHeight = HEIGHT - top - margin;
+    zones.forEach((zone, i) => {
+        const x = margin + i * (zoneWidth + margin);
+        fillRect(canvas, x, top, zoneWidth, zoneHeight, propertyColor(zone, 'background') ?? [248, 250, 252]);
+        strokeRect(canvas, x, top, zoneWidth, zoneHeight, ZONE_BORDER);
+    });
+
+    // An element goes in the zone its "Zone" property names, else spread evenly
+    const zoneIndex = (element: SchemaEntry, index: number) => {
+        const named = element.properties.find((p) => p.key.toLowerCase() === 'zone')?.value;
+        const match = named ? zones.findIndex((zone) => zone.name === named) : -1;
+        return match !== -1 ? match : Math.floor((index * zones.length) / elements.length);
+    };
+    const perZone = zones.map(() => 0);
+    const placed = elements.map((element, i) => {
+        const zone = zoneIndex(element, i);
+        return { element, zone, slot: perZone[zone]++ };
+    });
+
+    const boxes = new Map<string, { x: number; y: number; width: number; height: number }>();
+    for (const { element, zone, slot } of placed) {
+        const slots = perZone[zone];
+        const height = Math.max(8, Math.min(96, (zoneHeight - 24 * (slots + 1)) / slots));
+        const width = zoneWidth * 0.7;
+        const x = margin + zone * (zoneWidth + margin) + (zoneWidth - width) / 2;
+        const y = top + (zoneHeight - slots * height - (slots - 1) * 24) / 2 + slot * (height + 24);
+        const color = propertyColor(element, 'style') ?? colors[boxes.size % colors.length];
+        fillRect(canvas, x, y, width, height, color);
+        strokeRect(canvas, x, y, width, height, INK);
+        boxes.set(element.name, { x, y, width, height });
+    }
+
+    for (const connection of schema.connections) {
+        const from = boxes.get(connection.from);
+        const to = boxes.get(connection.to);
+        if (!from || !to) continue;
+        const x0 = from.x + from.width;
+        const y0 = from.y + from.height / 2;
+        const x1 = to.x;
+        const y1 = to.y + to.height / 2;
+        drawLine(canvas, x0, y0, x1, y1, INK, 3);
+        fillRect(canvas, x1 - 8, y1 - 6, 8, 12, INK); // Arrowhead
+    }
+
+    return encodePng(canvas);
+}
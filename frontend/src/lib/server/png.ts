@@ -0,0 +1,107 @@
+import { deflateSync } from 'node:zlib';
+
+/**
+ * Just enough raster graphics for generated placeholder images: an RGB
+ * canvas with filled rectangles and thick lines, encoded as PNG.
+ */
+
+export type Rgb = [number, number, number];
+
+export interface Canvas {
+    width: number;
+    height: number;
+    pixels: Uint8Array; // RGB, row by row
+}
+
+export function createCanvas(width: number, height: number, background: Rgb): Canvas {
+    const pixels = new Uint8Array(width * height * 3);
+    for (let i = 0; i < pixels.length; i += 3) pixels.set(background, i);
+    return { width, height, pixels };
+}
+
+export function fillRect(canvas: Canvas, x: number, y: number, width: number, height: number, color: Rgb): void {
+    const left = Math.max(0, Math.round(x));
+    const top = Math.max(0, Math.round(y));
+    const right = Math.min(canvas.width, Math.round(x + width));
+    const bottom = Math.min(canvas.height, Math.round(y + height));
+    for (let row = top; row < bottom; row++) {
+        for (let col = left; col < right; col++) {
+            canvas.pixels.set(color, (row * canvas.width + col) * 3);
+        }
+    }
+}
+
+export function strokeRect(
+    canvas: Canvas,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    color: Rgb,
+    thickness = 2
+): void {
+    fillRect(canvas, x, y, width, thickness, color);
+    fillRect(canvas, x, y + height - thickness, width, thickness, color);
+    fillRect(canvas, x, y, thickness, height, color);
+    fillRect(canvas, x + width - thickness, y, thickness, height, color);
+}
+
+// Steps along the longer axis, stamping a square brush
+export function drawLine(canvas: Canvas, x0: number, y0: number, x1: number, y1: number, color: Rgb, thickness = 2): void {
+    const steps = Math.max(Math.abs(x1 - x0), Math.abs(y1 - y0), 1);
+    for (let i = 0; i <= steps; i++) {
+        const x = x0 + ((x1 - x0) * i) / steps;
+        const y = y0 + ((y1 - y0) * i) / steps;
+        fillRect(canvas, x - thickness / 2, y - thickness / 2, thickness, thickness, color);
+    }
+}
+
+export function parseHexColor(value: string): Rgb | null {
+    const match = value.match(/#([0-9a-f]{6}|[0-9a-f]{3})\b/i);
+    if (!match) return null;
+    const hex = match[1].length === 3 ? match[1].replace(/./g, (c) => c + c) : match[1];
+    return [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16)) as Rgb;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, data: Uint8Array): Buffer {
+    const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(crc32(typeAndData));
+    return Buffer.concat([length, typeAndData, crc]);
+}
+
+export function encodePng(canvas: Canvas): Buffer {
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(canvas.width, 0);
+    header.writeUInt32BE(canvas.height, 4);
+    header[8] = 8; // Bit depth
+    header[9] = 2; // Truecolor RGB
+
+    // Every row starts with filter type 0 (none)
+    const rowLength = canvas.width * 3;
+    const raw = Buffer.alloc((rowLength + 1) * canvas.height);
+    for (let row = 0; row < canvas.height; row++) {
+        raw.set(canvas.pixels.subarray(row * rowLength, (row + 1) * rowLength), row * (rowLength + 1) + 1);
+    }
+
+    return Buffer.concat([
+        Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+        chunk('IHDR', header),
+        chunk('IDAT', deflateSync(raw)),
+        chunk('IEND', new Uint8Array(0)),
+    ]);
+}
@@ -0,0 +1,263 @@
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP } from 'node:net';
+
+/**
+ * Limits on what /api/proxy forwards, so a shared deployment is not an open
+ * relay into the network it runs in. Configured through environment
+ * variables (lists are comma-separated):
+ *
+ * - PROXY_ALLOWED_HOSTS: hosts the proxy may call, with `*.example.com`
+ *   wildcards and optional ports (`localhost:11434`, `[::1]:11434`). Unset
+ *   allows any public host. Listed hosts skip the private address check.
+ * - PROXY_ALLOW_PRIVATE_NETWORKS: `true` allows private, loopback and
+ *   link-local targets; defaults to true only under `next dev`.
+ * - PROXY_ALLOWED_METHODS: upstream methods, default POST.
+ * - PROXY_ALLOWED_PATHS: endpoints the upstream path must end with, default
+ *   the provider endpoints; `*` allows any.
+ * - PROXY_MAX_REQUEST_BYTES / PROXY_MAX_RESPONSE_BYTES / PROXY_TIMEOUT_MS
+ */
+
+export interface ProxyPolicy {
+    allowedHosts: string[];
+    allowPrivateNetworks: boolean;
+    allowedMethods: string[];
+    allowedPaths: string[];
+    maxRequestBytes: number;
+    maxResponseBytes: number;
+    timeoutMs: number; // Whole upstream call, streamed bodies included
+}
+
+export type ProxyRejectionCode =
+    | 'invalid_request'
+    | 'invalid_url'
+    | 'host_not_allowed'
+    | 'private_address'
+    | 'unresolvable_host'
+    | 'method_not_allowed'
+    | 'path_not_allowed'
+    | 'unknown_profile'
+    | 'profile_host_mismatch'
+    | 'request_too_large'
+    | 'response_too_large'
+    | 'upstream_redirect'
+    | 'upstream_timeout';
+
+/**
+ * A request the proxy refuses to forward, or an upstream response it refuses
+ * to pass back. The route answers with `{ error, code }` and `status`.
+ */
+export class ProxyRejection extends Error {
+    readonly status: number;
+    readonly code: ProxyRejectionCode;
+
+    constructor(status: number, code: ProxyRejectionCode, message: string) {
+        super(message);
+        this.name = 'ProxyRejection';
+        this.status = status;
+        this.code = code;
+    }
+}
+
+// Endpoints the provider adapters call
+const DEFAULT_ALLOWED_PATHS = ['/chat/completions', '/images/generations', '/images/edits', '/v1/messages', '/api/chat'];
+
+// Reference images travel base64-encoded in the request; generated images in the response
+const DEFAULT_MAX_REQUEST_BYTES = 25 * 1024 * 1024;
+const DEFAULT_MAX_RESPONSE_BYTES = 50 * 1024 * 1024;
+// Matches the client's default per-attempt timeout
+const DEFAULT_TIMEOUT_MS = 300000;
+
+const PRIVATE_RANGES = new BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8], // "this" network
+    ['10.0.0.0', 8],
+    ['100.64.0.0', 10], // Carrier-grade NAT
+    ['127.0.0.0', 8], // Loopback
+    ['169.254.0.0', 16], // Link-local, including cloud metadata endpoints
+    ['172.16.0.0', 12],
+    ['192.0.0.0', 24],
+    ['192.168.0.0', 16],
+    ['198.18.0.0', 15], // Benchmarking
+    ['224.0.0.0', 4], // Multicast
+    ['240.0.0.0', 4], // Reserved and broadcast
+] as const) {
+    PRIVATE_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+    ['::', 127], // Unspecified and loopback
+    ['fc00::', 7], // Unique local
+    ['fe80::', 10], // Link-local
+    ['ff00::', 8], // Multicast
+] as const) {
+    PRIVATE_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+function listFromEnv(value: string | undefined, fallback: string[]): string[] {
+    const items = value?.split(',').map((item) => item.trim()).filter(Boolean);
+    return items?.length ? items : fallback;
+}
+
+function numberFromEnv(value: string | undefined, fallback: number): number {
+    const parsed = Number(value);
+    return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function loadProxyPolicy(env: NodeJS.ProcessEnv = process.env): ProxyPolicy {
+    return {
+        allowedHosts: listFromEnv(env.PROXY_ALLOWED_HOSTS, []).map((host) => host.toLowerCase()),
+        // Local models (e.g. Ollama on localhost) work out of the box in development
+        allowPrivateNetworks: env.PROXY_ALLOW_PRIVATE_NETWORKS
+            ? env.PROXY_ALLOW_PRIVATE_NETWORKS === 'true'
+            : env.NODE_ENV === 'development',
+        allowedMethods: listFromEnv(env.PROXY_ALLOWED_METHODS, ['POST']).map((method) => method.toUpperCase()),
+        allowedPaths: listFromEnv(env.PROXY_ALLOWED_PATHS, DEFAULT_ALLOWED_PATHS),
+        maxRequestBytes: numberFromEnv(env.PROXY_MAX_REQUEST_BYTES, DEFAULT_MAX_REQUEST_BYTES),
+        maxResponseBytes: numberFromEnv(env.PROXY_MAX_RESPONSE_BYTES, DEFAULT_MAX_RESPONSE_BYTES),
+        timeoutMs: numberFromEnv(env.PROXY_TIMEOUT_MS, DEFAULT_TIMEOUT_MS),
+    };
+}
+
+export function isPrivateAddress(address: string): boolean {
+    const family = isIP(address);
+    return family !== 0 && PRIVATE_RANGES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+// `host`, `*.host`, optionally followed by `:port`
+function matchesHost(entry: string, url: URL): boolean {
+    const [, pattern, port] = entry.match(/^(.+?)(?::(\d+))?$/) ?? [];
+    const urlPort = url.port || (url.protocol === 'https:' ? '443' : '80');
+    if (port && port !== urlPort) return false;
+    if (pattern.startsWith('*.')) return url.hostname.endsWith(pattern.slice(1));
+    return url.hostname === pattern;
+}
+
+export function checkMethod(method: string, policy: ProxyPolicy): void {
+    if (!policy.allowedMethods.includes(method)) {
+        throw new ProxyRejection(405, 'method_not_allowed', `Method ${method} is not allowed`);
+    }
+}
+
+/**
+ * Check the path of the URL actually fetched, so whatever the base URL adds
+ * in front (`/v1`, a deployment prefix) the request still ends at a known
+ * endpoint.
+ */
+export function checkPath(url: URL, policy: ProxyPolicy): void {
+    if (policy.allowedPaths.includes('*')) return;
+    if (!policy.allowedPaths.some((path) => url.pathname.endsWith(path))) {
+        throw new ProxyRejection(403, 'path_not_allowed', `Path ${url.pathname} is not allowed`);
+    }
+}
+
+/**
+ * Join the base URL and endpoint path into the upstream URL. Neither may
+ * carry a query or fragment: either would move the endpoint path out of the
+ * URL's path. Query parameters come through the request's `query` field.
+ */
+export function parseTargetUrl(baseUrl: string, path: string): URL {
+    if (/[?#]/.test(baseUrl) || /[?#]/.test(path)) {
+        throw new ProxyRejection(
+            400,
+            'invalid_url',
+            'Base URL and path cannot contain a query or fragment; use query parameters instead'
+        );
+    }
+    const value = `${baseUrl.replace(/\/$/, '')}${path.startsWith('/') ? path : `/${path}`}`;
+    let url: URL;
+    try {
+        url = new URL(value);
+    } catch {
+        throw new ProxyRejection(400, 'invalid_url', `Invalid URL: ${value}`);
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+        throw new ProxyRejection(400, 'invalid_url', `Unsupported protocol: ${url.protocol}`);
+    }
+    if (url.username || url.password) {
+        throw new ProxyRejection(400, 'invalid_url', 'Credentials in the URL are not allowed');
+    }
+    return url;
+}
+
+/**
+ * Check the target host against the allowlist, and unless private networks
+ * are allowed, every address it resolves to. The upstream fetch resolves the
+ * name again, so this does not stop DNS rebinding; an allowlist does.
+ */
+export async function checkTarget(url: URL, policy: ProxyPolicy): Promise<void> {
+    if (policy.allowedHosts.length > 0) {
+        if (!policy.allowedHosts.some((entry) => matchesHost(entry, url))) {
+            throw new ProxyRejection(403, 'host_not_allowed', `Host ${url.host} is not allowed`);
+        }
+        return;
+    }
+    if (policy.allowPrivateNetworks) return;
+
+    const hostname = url.hostname.replace(/^\[|\]$/g, '');
+    let addresses: string[];
+    try {
+        addresses = isIP(hostname)
+            ? [hostname]
+            : (await lookup(hostname, { all: true })).map((result) => result.address);
+    } catch {
+        throw new ProxyRejection(502, 'unresolvable_host', `Cannot resolve host ${hostname}`);
+    }
+    if (addresses.some(isPrivateAddress)) {
+        throw new ProxyRejection(403, 'private_address', `Host ${url.host} resolves to a private address`);
+    }
+}
+
+/**
+ * Read a whole body, giving up once it grows past `maxBytes`.
+ */
+export async function readLimited(
+    body: ReadableStream<Uint8Array> | null,
+    maxBytes: number,
+    tooLarge: () => ProxyRejection
+): Promise<Buffer> {
+    if (!body) return Buffer.alloc(0);
+    const reader = body.getReader();
+    const chunks: Uint8Array[] = [];
+    let received = 0;
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        received += value.byteLength;
+        if (received > maxBytes) {
+            await reader.cancel();
+            throw tooLarge();
+        }
+        chunks.push(value);
+    }
+    return Buffer.concat(chunks);
+}
+
+/**
+ * Pass a streamed body through, cutting it off once it grows past `maxBytes`.
+ */
+export function limitStream(body: ReadableStream<Uint8Array>, maxBytes: number): ReadableStream<Uint8Array> {
+    let received = 0;
+    return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+            received += chunk.byteLength;
+            if (received > maxBytes) {
+                controller.error(new ProxyRejection(502, 'response_too_large', 'Upstream response is too large'));
+                return;
+            }
+            controller.enqueue(chunk);
+        },
+    }));
+}
+
+// The body's type and the provider's rate-limit state; lengths and encodings change on the way
+const FORWARDED_RESPONSE_HEADERS = /^(content-type|retry-after|x-ratelimit-.+|ratelimit(-.+)?|anthropic-ratelimit-.+|x-request-id|request-id)$/i;
+
+/**
+ * Upstream response headers passed back to the browser.
+ */
+export function forwardedResponseHeaders(upstream: Headers): Headers {
+    const headers = new Headers();
+    upstream.forEach((value, name) => {
+        if (FORWARDED_RESPONSE_HEADERS.test(name)) headers.set(name, value);
+    });
+    return headers;
+}
@@ -2,7 +2,9 @@ import { StateStorage } from 'zustand/middleware';
 
 const DB_NAME = 'academic-illustrator-db';
 const STORE_NAME = 'keyval';
-const VERSION = 1;
+const IMAGE_STORE_NAME = 'images';
+const USAGE_STORE_NAME = 'usage';
+const VERSION = 3;
 
 /**
  * Promisified IndexedDB wrapper for Zustand persistence
@@ -45,6 +47,94 @@ export const indexedDBStorage: StateStorage = {
     },
 };
 
+/**
+ * Image blobs, keyed by content hash. Kept out of the zustand JSON blob so
+ * that persisting state never re-serializes image data.
+ */
+export const imageBlobStorage = {
+    get: async (hash: string): Promise<Blob | null> => {
+        const db = await openDB();
+        return new Promise((resolve) => {
+            const transaction = db.transaction(IMAGE_STORE_NAME, 'readonly');
+            const request = transaction.objectStore(IMAGE_STORE_NAME).get(hash);
+
+            request.onerror = () => resolve(null);
+            request.onsuccess = () => resolve(request.result || null);
+        });
+    },
+
+    put: async (hash: string, blob: Blob): Promise<void> => {
+        const db = await openDB();
+        return new Promise((resolve, reject) => {
+            const transaction = db.transaction(IMAGE_STORE_NAME, 'readwrite');
+            const request = transaction.objectStore(IMAGE_STORE_NAME).put(blob, hash);
+
+            request.onerror = () => reject(request.error);
+            request.onsuccess = () => resolve();
+        });
+    },
+
+    delete: async (hash: string): Promise<void> => {
+        const db = await openDB();
+        return new Promise((resolve, reject) => {
+            const transaction = db.transaction(IMAGE_STORE_NAME, 'readwrite');
+            const request = transaction.objectStore(IMAGE_STORE_NAME).delete(hash);
+
+            request.onerror = () => reject(request.error);
+            request.onsuccess = () => resolve();
+        });
+    },
+
+    keys: async (): Promise<string[]> => {
+        const db = await openDB();
+        return new Promise((resolve, reject) => {
+            const transaction = db.transaction(IMAGE_STORE_NAME, 'readonly');
+            const request = transaction.objectStore(IMAGE_STORE_NAME).getAllKeys();
+
+            request.onerror = () => reject(request.error);
+            request.onsuccess = () => resolve(request.result as string[]);
+        });
+    },
+};
+
+/**
+ * Usage ledger records, keyed by their `id`. Append-only apart from clearing.
+ */
+export const usageRecordStorage = {
+    add: async <T extends { id: string }>(record: T): Promise<void> => {
+        const db = await openDB();
+        return new Promise((resolve, reject) => {
+            const transaction = db.transaction(USAGE_STORE_NAME, 'readwrite');
+            const request = transaction.objectStore(USAGE_STORE_NAME).put(record);
+
+            request.onerror = () => reject(request.error);
+            request.onsuccess = () => resolve();
+        });
+    },
+
+    getAll: async <T>(): Promise<T[]> => {
+        const db = await openDB();
+        return new Promise((resolve, reject) => {
+            const transaction = db.transaction(USAGE_STORE_NAME, 'readonly');
+            const request = transaction.objectStore(USAGE_STORE_NAME).getAll();
+
+            request.onerror = () => reject(request.error);
+            request.onsuccess = () => resolve(request.result as T[]);
+        });
+    },
+
+    clear: async (): Promise<void> => {
+        const db = await openDB();
+        return new Promise((resolve, reject) => {
+            const transaction = db.transaction(USAGE_STORE_NAME, 'readwrite');
+            const request = transaction.objectStore(USAGE_STORE_NAME).clear();
+
+            request.onerror = () => reject(request.error);
+            request.onsuccess = () => resolve();
+        });
+    },
+};
+
 function openDB(): Promise<IDBDatabase> {
     return new Promise((resolve, reject) => {
         const request = indexedDB.open(DB_NAME, VERSION);
@@ -54,6 +144,12 @@ function openDB(): Promise<IDBDatabase> {
             if (!db.objectStoreNames.contains(STORE_NAME)) {
                 db.createObjectStore(STORE_NAME);
             }
+            if (!db.objectStoreNames.contains(IMAGE_STORE_NAME)) {
+                db.createObjectStore(IMAGE_STORE_NAME);
+            }
+            if (!db.objectStoreNames.contains(USAGE_STORE_NAME)) {
+                db.createObjectStore(USAGE_STORE_NAME, { keyPath: 'id' });
+            }
         };
 
         request.onsuccess = (event) => {
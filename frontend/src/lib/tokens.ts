@@ -0,0 +1,19 @@
+/**
+ * Rough token counts for budgeting requests before they are sent. Providers
+ * tokenize differently, so these are estimates, not exact counts.
+ */
+
+// CJK characters are roughly one token each; other text averages ~4 characters per token
+const CJK_PATTERN = /[぀-ヿ㐀-鿿가-힯豈-﫿]/g;
+const CHARS_PER_TOKEN = 4;
+
+export function estimateTokens(text: string): number {
+    if (!text) return 0;
+    const cjk = text.match(CJK_PATTERN)?.length ?? 0;
+    return cjk + Math.ceil((text.length - cjk) / CHARS_PER_TOKEN);
+}
+
+export function formatTokenCount(tokens: number): string {
+    if (tokens < 1000) return String(tokens);
+    return `${(tokens / 1000).toFixed(tokens < 10000 ? 1 : 0)}k`;
+}
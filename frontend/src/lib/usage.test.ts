@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { summarizeUsage, UsageRecord, usageDay, usageModel, usageRecordsToCsv } from './usage';
+
+function record(overrides: Partial<UsageRecord> = {}): UsageRecord {
+    return {
+        id: 'r1',
+        timestamp: new Date(2026, 2, 14, 9, 30).getTime(),
+        operation: 'generateSchema',
+        provider: 'openai',
+        model: 'gpt-5',
+        promptTokens: 1000,
+        completionTokens: 200,
+        latencyMs: 1500,
+        success: true,
+        cost: 0.01,
+        ...overrides,
+    };
+}
+
+describe('summarizeUsage', () => {
+    const records = [
+        record(),
+        record({ timestamp: new Date(2026, 2, 14, 23, 59).getTime(), model: 'gemini-3-pro', provider: 'google', latencyMs: 2500 }),
+        record({ timestamp: new Date(2026, 2, 15, 0, 1).getTime(), success: false, promptTokens: null, completionTokens: null, cost: null, latencyMs: 400 }),
+        record({ timestamp: new Date(2026, 2, 15, 8, 0).getTime(), operation: 'renderImage', cost: 0.04, latencyMs: 600 }),
+    ];
+
+    it('groups by local calendar day', () => {
+        expect(records.map(usageDay)).toEqual(['2026-03-14', '2026-03-14', '2026-03-15', '2026-03-15']);
+        expect(summarizeUsage(records, usageDay)).toEqual([
+            {
+                key: '2026-03-14',
+                calls: 2,
+                failures: 0,
+                promptTokens: 2000,
+                completionTokens: 400,
+                cost: 0.02,
+                unpricedCalls: 0,
+                averageLatencyMs: 2000,
+            },
+            {
+                key: '2026-03-15',
+                calls: 2,
+                failures: 1,
+                promptTokens: 1000,
+                completionTokens: 200,
+                cost: 0.04,
+                unpricedCalls: 1,
+                averageLatencyMs: 500,
+            },
+        ]);
+    });
+
+    it('groups by model and provider, in order of first appearance', () => {
+        const summaries = summarizeUsage(records, usageModel);
+        expect(summaries.map(({ key, calls, failures }) => [key, calls, failures])).toEqual([
+            ['gpt-5 (openai)', 3, 1],
+            ['gemini-3-pro (google)', 1, 0],
+        ]);
+        expect(summaries[0].cost).toBeCloseTo(0.05);
+        expect(summaries[0].averageLatencyMs).toBe(833);
+    });
+
+    it('returns nothing for no records', () => {
+        expect(summarizeUsage([], usageDay)).toEqual([]);
+    });
+});
+
+describe('usageRecordsToCsv', () => {
+    it('writes a header and one row per record, leaving unknown values empty', () => {
+        const csv = usageRecordsToCsv([record({ timestamp: Date.UTC(2026, 2, 14, 9, 30), promptTokens: null, cost: null })]);
+        expect(csv).toBe([
+            'timestamp,operation,provider,model,promptTokens,completionTokens,latencyMs,success,cost,error',
+            '2026-03-14T09:30:00.000Z,generateSchema,openai,gpt-5,,200,1500,true,,',
+        ].join('\n'));
+    });
+
+    it('quotes fields with commas, quotes and line breaks', () => {
+        const csv = usageRecordsToCsv([record({ success: false, error: 'Bad "request", try\nagain' })]);
+        expect(csv.endsWith(',false,0.01,"Bad ""request"", try\nagain"')).toBe(true);
+    });
+
+    it('keeps spreadsheets from reading text fields as formulas', () => {
+        const fields = (error: string, model = 'gpt-5') => usageRecordsToCsv([record({ model, error })])
+            .split('\n')[1]
+            .split(',');
+
+        expect(fields('=HYPERLINK("http://x")').pop()).toBe('"\'=HYPERLINK(""http://x"")"');
+        expect(fields('+1').pop()).toBe('\'+1');
+        expect(fields('-1').pop()).toBe('\'-1');
+        expect(fields('@SUM(A1)').pop()).toBe('\'@SUM(A1)');
+        expect(fields('ok', '=cmd')[3]).toBe('\'=cmd');
+        expect(fields('a = b').pop()).toBe('a = b');
+    });
+});
@@ -0,0 +1,161 @@
+import { findModelPrice } from '@/lib/cost';
+import type { ModelConfig, ProviderId, TokenUsage } from '@/lib/providers';
+import { usageRecordStorage } from '@/lib/storage';
+
+/**
+ * Usage ledger: one record per model call, kept in IndexedDB so spending can
+ * be traced back to a model after the fact.
+ */
+
+export type UsageOperation = 'generateSchema' | 'refineSchema' | 'renderImage' | 'editImage';
+
+export interface UsageRecord {
+    id: string;
+    timestamp: number;
+    operation: UsageOperation;
+    provider: ProviderId;
+    model: string;
+    promptTokens: number | null; // null when the provider reported no usage
+    completionTokens: number | null;
+    latencyMs: number;
+    success: boolean;
+    error?: string;
+    cost: number | null; // USD, from list prices; null when unknown
+}
+
+export interface UsageSummary {
+    key: string;
+    calls: number;
+    failures: number;
+    promptTokens: number;
+    completionTokens: number;
+    cost: number;
+    unpricedCalls: number; // Calls left out of `cost`
+    averageLatencyMs: number;
+}
+
+const IMAGE_OPERATIONS: UsageOperation[] = ['renderImage', 'editImage'];
+
+function priceCall(config: ModelConfig, operation: UsageOperation, usage: TokenUsage | null, success: boolean): number | null {
+    const price = findModelPrice(config);
+    if (!price) return null;
+    const perImage = success && IMAGE_OPERATIONS.includes(operation) ? price.perImage ?? 0 : 0;
+    if (!usage) return perImage > 0 ? perImage : null;
+    return (usage.promptTokens * price.inputPerMillion + usage.completionTokens * price.outputPerMillion) / 1_000_000
+        + perImage;
+}
+
+/**
+ * Run one model call and add it to the ledger, successful or not. Failing
+ * to write the ledger never fails the call itself.
+ */
+export async function trackModelCall<T>(
+    operation: UsageOperation,
+    config: ModelConfig,
+    call: (onUsage: (usage: TokenUsage) => void) => Promise<T>
+): Promise<T> {
+    let usage: TokenUsage | null = null;
+    const started = performance.now();
+    const record = (success: boolean, error?: unknown) => {
+        const entry: UsageRecord = {
+            id: crypto.randomUUID(),
+            timestamp: Date.now(),
+            operation,
+            provider: config.provider,
+            model: config.modelName,
+            promptTokens: usage?.promptTokens ?? null,
+            completionTokens: usage?.completionTokens ?? null,
+            latencyMs: Math.round(performance.now() - started),
+            success,
+            ...(error !== undefined ? { error: error instanceof Error ? error.message : String(error) } : {}),
+            cost: priceCall(config, operation, usage, success),
+        };
+        usageRecordStorage.add(entry).catch(console.error);
+    };
+
+    try {
+        const result = await call((reported) => {
+            usage = reported;
+        });
+        record(true);
+        return result;
+    } catch (error) {
+        record(false, error);
+        throw error;
+    }
+}
+
+export async function listUsageRecords(): Promise<UsageRecord[]> {
+    const records = await usageRecordStorage.getAll<UsageRecord>();
+    return records.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+export function clearUsageRecords(): Promise<void> {
+    return usageRecordStorage.clear();
+}
+
+/** Local calendar day of a record, as YYYY-MM-DD */
+export function usageDay(record: UsageRecord): string {
+    const date = new Date(record.timestamp);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function usageModel(record: UsageRecord): string {
+    return `${record.model} (${record.provider})`;
+}
+
+/**
+ * Totals per group, e.g. per day with `usageDay` or per model with
+ * `usageModel`, in order of first appearance.
+ */
+export function summarizeUsage(records: UsageRecord[], groupBy: (record: UsageRecord) => string): UsageSummary[] {
+    const groups = new Map<string, UsageSummary>();
+    const totalLatency = new Map<string, number>();
+    for (const record of records) {
+        const key = groupBy(record);
+        const group = groups.get(key) ?? {
+            key,
+            calls: 0,
+            failures: 0,
+            promptTokens: 0,
+            completionTokens: 0,
+            cost: 0,
+            unpricedCalls: 0,
+            averageLatencyMs: 0,
+        };
+        const latency = (totalLatency.get(key) ?? 0) + record.latencyMs;
+        group.calls++;
+        if (!record.success) group.failures++;
+        group.promptTokens += record.promptTokens ?? 0;
+        group.completionTokens += record.completionTokens ?? 0;
+        if (record.cost === null) group.unpricedCalls++;
+        else group.cost += record.cost;
+        group.averageLatencyMs = Math.round(latency / group.calls);
+        totalLatency.set(key, latency);
+        groups.set(key, group);
+    }
+    return [...groups.values()];
+}
+
+const CSV_COLUMNS: (keyof UsageRecord)[] = [
+    'timestamp', 'operation', 'provider', 'model', 'promptTokens', 'completionTokens',
+    'latencyMs', 'success', 'cost', 'error',
+];
+
+// Spreadsheets run cells starting with these as formulas; a leading ' keeps them text
+const FORMULA_PREFIX_PATTERN = /^[=+\-@\t\r]/;
+
+function csvField(value: unknown): string {
+    let text = value === null || value === undefined ? '' : String(value);
+    // Only strings come from outside (model names, error messages); numbers may be negative
+    if (typeof value === 'string' && FORMULA_PREFIX_PATTERN.test(text)) text = `'${text}`;
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function usageRecordsToCsv(records: UsageRecord[]): string {
+    const rows = records.map((record) => CSV_COLUMNS
+        .map((column) => csvField(column === 'timestamp' ? new Date(record.timestamp).toISOString() : record[column]))
+        .join(','));
+    return [CSV_COLUMNS.join(','), ...rows].join('\n');
+}
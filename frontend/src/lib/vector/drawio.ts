@@ -0,0 +1,55 @@
+import { DiagramLayout, LABEL_ROW_HEIGHT, labelsOrigin, MARGIN } from './layout';
+import { escapeXml } from './svg';
+
+/**
+ * diagrams.net (draw.io) file for a diagram layout. Every box and arrow is
+ * a separate, editable cell; arrows stay attached to their boxes.
+ */
+export function layoutToDrawio(layout: DiagramLayout): string {
+    const cells: string[] = ['<mxCell id="0"/>', '<mxCell id="1" parent="0"/>'];
+
+    if (layout.title) {
+        cells.push(
+            `<mxCell id="title" value="${escapeXml(layout.title)}" style="text;html=0;align=center;verticalAlign=middle;fontSize=20;fontStyle=1;" vertex="1" parent="1">` +
+            `<mxGeometry x="0" y="${MARGIN - 16}" width="${layout.width}" height="32" as="geometry"/></mxCell>`
+        );
+    }
+
+    for (const box of layout.boxes) {
+        const style = box.kind === 'zone'
+            ? `rounded=1;arcSize=4;dashed=1;fillColor=${box.color};opacity=20;strokeColor=${box.color};verticalAlign=top;align=left;spacingLeft=8;fontStyle=1;fontColor=${box.textColor};whiteSpace=wrap;html=0;`
+            : `rounded=1;fillColor=${box.color};strokeColor=${box.color};fontColor=${box.textColor};whiteSpace=wrap;html=0;`;
+        cells.push(
+            `<mxCell id="${box.id}" value="${escapeXml(box.label)}" style="${style}" vertex="1" parent="1">` +
+            `<mxGeometry x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" as="geometry"/></mxCell>`
+        );
+    }
+
+    for (const edge of layout.edges) {
+        cells.push(
+            `<mxCell id="${edge.id}" value="${escapeXml(edge.label)}" style="endArrow=classic;html=0;strokeColor=#475569;fontSize=11;labelBackgroundColor=#FFFFFF;" edge="1" parent="1" source="${edge.from}" target="${edge.to}">` +
+            '<mxGeometry relative="1" as="geometry"/></mxCell>'
+        );
+    }
+
+    const origin = labelsOrigin(layout);
+    layout.labels.forEach((label, i) => {
+        cells.push(
+            `<mxCell id="label-${i}" value="${escapeXml(`• ${label}`)}" style="text;html=0;align=left;fontSize=12;fontColor=#475569;" vertex="1" parent="1">` +
+            `<mxGeometry x="${origin.x}" y="${origin.y + i * LABEL_ROW_HEIGHT}" width="${layout.width - MARGIN * 2}" height="${LABEL_ROW_HEIGHT}" as="geometry"/></mxCell>`
+        );
+    });
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<mxfile host="app.diagrams.net">',
+        `<diagram id="visual-schema" name="${escapeXml(layout.title || 'Diagram')}">`,
+        `<mxGraphModel dx="${layout.width}" dy="${layout.height}" grid="1" gridSize="10" page="1" pageWidth="${layout.width}" pageHeight="${layout.height}">`,
+        '<root>',
+        ...cells,
+        '</root>',
+        '</mxGraphModel>',
+        '</diagram>',
+        '</mxfile>',
+    ].join('\n');
+}
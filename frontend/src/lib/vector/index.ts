@@ -0,0 +1,34 @@
+import { parseSchema } from '@/lib/schema';
+import { layoutSchema } from './layout';
+import { layoutToDrawio } from './drawio';
+import { layoutToSvg } from './svg';
+import { layoutToTikz } from './tikz';
+
+export { layoutSchema, normalizeHexColor } from './layout';
+export type { DiagramLayout, LayoutBox, LayoutEdge, UnresolvedConnection } from './layout';
+export { layoutToSvg } from './svg';
+export { layoutToDrawio } from './drawio';
+export { layoutToTikz } from './tikz';
+
+export type VectorFormat = 'svg' | 'drawio' | 'tikz';
+
+export const VECTOR_FORMATS: Record<VectorFormat, { label: string; extension: string; mimeType: string }> = {
+    svg: { label: 'SVG', extension: 'svg', mimeType: 'image/svg+xml' },
+    drawio: { label: 'draw.io', extension: 'drawio', mimeType: 'application/xml' },
+    tikz: { label: 'TikZ', extension: 'tex', mimeType: 'text/x-tex' },
+};
+
+/**
+ * Render the Visual Schema text to a vector format without calling a model.
+ */
+export function exportSchemaAsVector(schemaText: string, format: VectorFormat): string {
+    const layout = layoutSchema(parseSchema(schemaText));
+    switch (format) {
+        case 'svg':
+            return layoutToSvg(layout);
+        case 'drawio':
+            return layoutToDrawio(layout);
+        case 'tikz':
+            return layoutToTikz(layout);
+    }
+}
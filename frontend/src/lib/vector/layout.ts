@@ -0,0 +1,340 @@
+import { PaletteColor, SchemaEntry, VisualSchema } from '@/lib/schema';
+
+/**
+ * Deterministic layout of a parsed Visual Schema, shared by the SVG,
+ * draw.io and TikZ writers. Zones become columns (or rows for top-to-bottom
+ * layouts), elements are stacked inside the zone they mention, and
+ * connections are straight arrows between box borders. The same schema
+ * always yields the same layout.
+ */
+
+export interface LayoutBox {
+    id: string;
+    kind: 'zone' | 'element';
+    label: string;
+    lines: string[]; // Label wrapped to the box width
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    color: string; // Validated #rrggbb
+    textColor: string; // Readable on `color`
+}
+
+export interface LayoutEdge {
+    id: string;
+    from: string; // Box ids
+    to: string;
+    label: string;
+    x1: number;
+    y1: number;
+    x2: number;
+    y2: number;
+}
+
+export interface DiagramLayout {
+    width: number;
+    height: number;
+    title: string;
+    boxes: LayoutBox[]; // Zones first, so they are drawn underneath
+    edges: LayoutEdge[];
+    labels: string[];
+    unresolvedConnections: UnresolvedConnection[];
+}
+
+/** A connection that could not be drawn because an endpoint names no box */
+export interface UnresolvedConnection {
+    index: number; // Into VisualSchema.connections
+    from: string;
+    to: string;
+    missing: ('from' | 'to')[];
+}
+
+export const MARGIN = 40;
+const TITLE_HEIGHT = 48;
+const ZONE_GAP = 48;
+const ZONE_PADDING = 20;
+const ZONE_HEADER = 32;
+const ELEMENT_WIDTH = 180;
+const ELEMENT_GAP = 24;
+export const LINE_HEIGHT = 16;
+const CHAR_WIDTH = 7; // Rough average at 13px sans-serif
+export const LABEL_ROW_HEIGHT = 20;
+
+const DEFAULT_COLORS = ['#4A90E2', '#50B887', '#F5A623', '#9B59B6', '#E74C3C', '#1ABC9C'];
+const UNASSIGNED_COLOR = '#94A3B8';
+const LIGHT_TEXT = '#FFFFFF';
+const DARK_TEXT = '#0F172A';
+const ZONE_TEXT = '#1E293B'; // Zones are drawn as a faint tint, so always dark
+
+const HEX_PATTERN = /#(?:[0-9a-f]{6}|[0-9a-f]{3})\b/i;
+const ZONE_KEY_PATTERN = /zone|section|location|position|placement|group|area|inside|within/i;
+const COLOR_KEY_PATTERN = /colou?r|fill|background/i;
+const VERTICAL_LAYOUT_PATTERN = /top[\s-]*(?:to|-)[\s-]*bottom|vertical|stacked|rows/i;
+
+export function normalizeHexColor(token: string): string | null {
+    const match = token.match(HEX_PATTERN);
+    if (!match) return null;
+    const hex = match[0].slice(1);
+    const full = hex.length === 3 ? hex.split('').map((c) => c + c).join('') : hex;
+    return `#${full.toUpperCase()}`;
+}
+
+// WCAG relative luminance of a #rrggbb color
+function luminance(hex: string): number {
+    const [r, g, b] = [1, 3, 5].map((i) => {
+        const channel = parseInt(hex.slice(i, i + 2), 16) / 255;
+        return channel <= 0.03928 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4;
+    });
+    return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/** White or near-black, whichever contrasts more with the fill */
+export function textColorOn(fill: string): string {
+    const fillLuminance = luminance(fill);
+    const onLight = (fillLuminance + 0.05) / (luminance(DARK_TEXT) + 0.05);
+    const onDark = 1.05 / (fillLuminance + 0.05);
+    return onDark >= onLight ? LIGHT_TEXT : DARK_TEXT;
+}
+
+function normalizeName(name: string): string {
+    return name.toLowerCase().replace(/[*_`"'“”]/g, '').replace(/\s+/g, ' ').trim();
+}
+
+// "Zone 1: Input Processing" -> "input processing"
+function coreName(name: string): string {
+    return normalizeName(name).replace(/^(?:zone|section|area|stage|step)\s*[\w.]*\s*[:\-–—]\s*/, '');
+}
+
+function wrapText(text: string, width: number): string[] {
+    const maxChars = Math.max(4, Math.floor(width / CHAR_WIDTH));
+    const lines: string[] = [];
+    let line = '';
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        if (line && line.length + 1 + word.length > maxChars) {
+            lines.push(line);
+            line = '';
+        }
+        line = line ? `${line} ${word}` : word;
+        while (line.length > maxChars) {
+            lines.push(line.slice(0, maxChars));
+            line = line.slice(maxChars);
+        }
+    }
+    if (line) lines.push(line);
+    return lines.length > 0 ? lines : [''];
+}
+
+function resolvePalette(palette: PaletteColor[]): { byName: Map<string, string>; colors: string[] } {
+    const byName = new Map<string, string>();
+    const colors: string[] = [];
+    for (const entry of palette) {
+        const hex = normalizeHexColor(entry.color);
+        if (!hex) continue;
+        colors.push(hex);
+        if (entry.name) byName.set(normalizeName(entry.name), hex);
+    }
+    return { byName, colors: colors.length > 0 ? colors : DEFAULT_COLORS };
+}
+
+// An explicit hex wins; otherwise a palette color mentioned by name
+function entryColor(entry: SchemaEntry, byName: Map<string, string>): string | null {
+    for (const { key, value } of entry.properties) {
+        if (!COLOR_KEY_PATTERN.test(key)) continue;
+        const hex = normalizeHexColor(value);
+        if (hex) return hex;
+        const text = normalizeName(value);
+        for (const [name, color] of byName) {
+            if (text.includes(name)) return color;
+        }
+    }
+    return null;
+}
+
+// "Zone 1" with description "Input" is shown as "Zone 1: Input"
+function zoneLabel(zone: SchemaEntry): string {
+    return zone.description && zone.description.length <= 40 ? `${zone.name}: ${zone.description}` : zone.name;
+}
+
+function findZoneIndex(element: SchemaEntry, zones: SchemaEntry[]): number {
+    const names = zones.map((z) => [normalizeName(zoneLabel(z)), coreName(zoneLabel(z)), normalizeName(z.name)]
+        .filter((name) => name.length > 2));
+    const mentions = (text: string) => {
+        const haystack = normalizeName(text);
+        return names.findIndex((alternatives) => alternatives.some((name) => haystack.includes(name)));
+    };
+
+    // Properties that say where the element goes, then the free text
+    for (const { key, value } of element.properties) {
+        if (ZONE_KEY_PATTERN.test(key)) {
+            const index = mentions(value);
+            if (index !== -1) return index;
+        }
+    }
+    return mentions([element.description, ...element.notes].join(' '));
+}
+
+function resolveEndpoint(name: string, boxes: LayoutBox[]): LayoutBox | undefined {
+    const target = normalizeName(name);
+    const core = coreName(name);
+    if (!target) return undefined;
+    const candidates = [...boxes.filter((b) => b.kind === 'element'), ...boxes.filter((b) => b.kind === 'zone')];
+    return candidates.find((b) => normalizeName(b.label) === target)
+        ?? candidates.find((b) => coreName(b.label) === core)
+        ?? candidates.find((b) => {
+            const label = normalizeName(b.label);
+            return label.includes(target) || (label.length > 2 && target.includes(label));
+        });
+}
+
+// Point where the segment from the box center towards (tx, ty) leaves the box
+function borderPoint(box: LayoutBox, tx: number, ty: number): { x: number; y: number } {
+    const cx = box.x + box.width / 2;
+    const cy = box.y + box.height / 2;
+    const dx = tx - cx;
+    const dy = ty - cy;
+    if (dx === 0 && dy === 0) return { x: cx, y: cy };
+    const scale = Math.min(
+        dx !== 0 ? box.width / 2 / Math.abs(dx) : Infinity,
+        dy !== 0 ? box.height / 2 / Math.abs(dy) : Infinity
+    );
+    return { x: cx + dx * scale, y: cy + dy * scale };
+}
+
+function elementBox(entry: SchemaEntry, id: string, color: string): LayoutBox {
+    const lines = wrapText(entry.name, ELEMENT_WIDTH - 16);
+    return {
+        id,
+        kind: 'element',
+        label: entry.name,
+        lines,
+        x: 0,
+        y: 0,
+        width: ELEMENT_WIDTH,
+        height: 20 + lines.length * LINE_HEIGHT,
+        color,
+        textColor: textColorOn(color),
+    };
+}
+
+export function layoutSchema(schema: VisualSchema): DiagramLayout {
+    const { byName, colors } = resolvePalette(schema.palette);
+    const vertical = VERTICAL_LAYOUT_PATTERN.test(schema.layout);
+
+    // Group elements by zone; the last group collects elements that name no zone
+    const groups: { zone: SchemaEntry | null; color: string; elements: LayoutBox[] }[] = schema.zones.map((zone, i) => ({
+        zone,
+        color: entryColor(zone, byName) ?? colors[i % colors.length],
+        elements: [],
+    }));
+    const unassigned: LayoutBox[] = [];
+    schema.elements.forEach((element, i) => {
+        const zoneIndex = findZoneIndex(element, schema.zones);
+        const fallback = zoneIndex === -1 ? UNASSIGNED_COLOR : groups[zoneIndex].color;
+        const box = elementBox(element, `element-${i}`, entryColor(element, byName) ?? fallback);
+        (zoneIndex === -1 ? unassigned : groups[zoneIndex].elements).push(box);
+    });
+    if (unassigned.length > 0) {
+        groups.push({ zone: null, color: UNASSIGNED_COLOR, elements: unassigned });
+    }
+
+    const boxes: LayoutBox[] = [];
+    const elementBoxes: LayoutBox[] = [];
+    const top = MARGIN + (schema.title ? TITLE_HEIGHT : 0);
+    let cursor = vertical ? top : MARGIN;
+    let extent = 0;
+
+    groups.forEach((group, i) => {
+        const label = group.zone ? zoneLabel(group.zone) : '';
+        const headerLines = group.zone ? wrapText(label, ELEMENT_WIDTH) : [];
+        const header = group.zone ? Math.max(ZONE_HEADER, headerLines.length * LINE_HEIGHT + 16) : ZONE_PADDING;
+        const originX = vertical ? MARGIN : cursor;
+        const originY = vertical ? cursor : top;
+
+        // Stack elements along the zone's main axis
+        let offset = 0;
+        let cross = 0;
+        group.elements.forEach((box) => {
+            if (vertical) {
+                box.x = originX + ZONE_PADDING + offset;
+                box.y = originY + header;
+                offset += box.width + ELEMENT_GAP;
+                cross = Math.max(cross, box.height);
+            } else {
+                box.x = originX + ZONE_PADDING;
+                box.y = originY + header + offset;
+                offset += box.height + ELEMENT_GAP;
+                cross = Math.max(cross, box.width);
+            }
+        });
+        offset = Math.max(0, offset - ELEMENT_GAP);
+
+        const width = vertical
+            ? Math.max(ELEMENT_WIDTH, offset) + ZONE_PADDING * 2
+            : Math.max(ELEMENT_WIDTH, cross) + ZONE_PADDING * 2;
+        const height = vertical
+            ? header + Math.max(cross, LINE_HEIGHT) + ZONE_PADDING
+            : header + Math.max(offset, LINE_HEIGHT) + ZONE_PADDING;
+
+        if (group.zone) {
+            boxes.push({
+                id: `zone-${i}`,
+                kind: 'zone',
+                label,
+                lines: headerLines,
+                x: originX,
+                y: originY,
+                width,
+                height,
+                color: group.color,
+                textColor: ZONE_TEXT,
+            });
+        }
+        elementBoxes.push(...group.elements);
+
+        cursor += (vertical ? height : width) + ZONE_GAP;
+        extent = Math.max(extent, vertical ? width : height);
+    });
+
+    // Zones are drawn first so elements sit on top of them
+    boxes.push(...elementBoxes);
+
+    const edges: LayoutEdge[] = [];
+    const unresolvedConnections: UnresolvedConnection[] = [];
+    schema.connections.forEach((connection, i) => {
+        const from = resolveEndpoint(connection.from, boxes);
+        const to = resolveEndpoint(connection.to, boxes);
+        if (!from || !to) {
+            const missing: UnresolvedConnection['missing'] = [];
+            if (!from) missing.push('from');
+            if (!to) missing.push('to');
+            unresolvedConnections.push({ index: i, from: connection.from, to: connection.to, missing });
+            return;
+        }
+        if (from === to) return;
+        const start = borderPoint(from, to.x + to.width / 2, to.y + to.height / 2);
+        const end = borderPoint(to, from.x + from.width / 2, from.y + from.height / 2);
+        edges.push({
+            id: `edge-${i}`,
+            from: from.id,
+            to: to.id,
+            label: connection.description,
+            x1: start.x,
+            y1: start.y,
+            x2: end.x,
+            y2: end.y,
+        });
+    });
+
+    const contentEnd = groups.length > 0 ? cursor - ZONE_GAP : top;
+    const width = Math.max(vertical ? MARGIN + extent : contentEnd, 320) + MARGIN;
+    const labelsTop = (vertical ? contentEnd : top + extent) + MARGIN / 2;
+    const height = labelsTop + schema.labels.length * LABEL_ROW_HEIGHT + MARGIN;
+
+    return { width, height, title: schema.title, boxes, edges, labels: schema.labels, unresolvedConnections };
+}
+
+/** Top of the key-labels list, below the zones */
+export function labelsOrigin(layout: DiagramLayout): { x: number; y: number } {
+    return { x: MARGIN, y: layout.height - MARGIN - layout.labels.length * LABEL_ROW_HEIGHT };
+}
@@ -0,0 +1,67 @@
+import { DiagramLayout, LABEL_ROW_HEIGHT, LINE_HEIGHT, labelsOrigin, MARGIN } from './layout';
+
+export function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+function textLines(lines: string[], x: number, y: number, attrs: string): string {
+    const spans = lines
+        .map((line, i) => `<tspan x="${x}" dy="${i === 0 ? 0 : LINE_HEIGHT}">${escapeXml(line)}</tspan>`)
+        .join('');
+    return `<text x="${x}" y="${y}" ${attrs}>${spans}</text>`;
+}
+
+const round = (n: number) => Math.round(n * 10) / 10;
+
+/**
+ * Standalone SVG document for a diagram layout.
+ */
+export function layoutToSvg(layout: DiagramLayout): string {
+    const parts: string[] = [];
+    parts.push(
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${layout.width}" height="${layout.height}" viewBox="0 0 ${layout.width} ${layout.height}" font-family="Helvetica, Arial, sans-serif" font-size="13">`,
+        '<defs><marker id="arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse"><path d="M 0 0 L 10 5 L 0 10 z" fill="#475569"/></marker></defs>',
+        `<rect width="${layout.width}" height="${layout.height}" fill="#ffffff"/>`
+    );
+
+    if (layout.title) {
+        parts.push(`<text x="${layout.width / 2}" y="${MARGIN + 8}" text-anchor="middle" font-size="20" font-weight="bold" fill="#0f172a">${escapeXml(layout.title)}</text>`);
+    }
+
+    for (const box of layout.boxes) {
+        if (box.kind === 'zone') {
+            parts.push(
+                `<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" rx="10" fill="${box.color}" fill-opacity="0.12" stroke="${box.color}" stroke-width="1.5" stroke-dasharray="6 4"/>`,
+                textLines(box.lines, box.x + 12, box.y + 20, `font-weight="bold" fill="${box.textColor}"`)
+            );
+        } else {
+            const textTop = box.y + box.height / 2 - ((box.lines.length - 1) * LINE_HEIGHT) / 2 + 4;
+            parts.push(
+                `<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" rx="6" fill="${box.color}" fill-opacity="0.85" stroke="${box.color}" stroke-width="1.5"/>`,
+                textLines(box.lines, box.x + box.width / 2, textTop, `text-anchor="middle" fill="${box.textColor}"`)
+            );
+        }
+    }
+
+    for (const edge of layout.edges) {
+        parts.push(`<line x1="${round(edge.x1)}" y1="${round(edge.y1)}" x2="${round(edge.x2)}" y2="${round(edge.y2)}" stroke="#475569" stroke-width="1.5" marker-end="url(#arrow)"/>`);
+        if (edge.label) {
+            const x = round((edge.x1 + edge.x2) / 2);
+            const y = round((edge.y1 + edge.y2) / 2 - 6);
+            parts.push(`<text x="${x}" y="${y}" text-anchor="middle" font-size="11" fill="#334155" stroke="#ffffff" stroke-width="3" paint-order="stroke">${escapeXml(edge.label)}</text>`);
+        }
+    }
+
+    const origin = labelsOrigin(layout);
+    layout.labels.forEach((label, i) => {
+        parts.push(`<text x="${origin.x}" y="${origin.y + (i + 1) * LABEL_ROW_HEIGHT - 6}" font-size="12" fill="#475569">• ${escapeXml(label)}</text>`);
+    });
+
+    parts.push('</svg>');
+    return parts.join('\n');
+}
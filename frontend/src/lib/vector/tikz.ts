@@ -0,0 +1,71 @@
+import { DiagramLayout, LABEL_ROW_HEIGHT, labelsOrigin, MARGIN } from './layout';
+
+// Layout units are pixels; this maps them to centimetres with y pointing down
+const CM_PER_PX = 0.02;
+
+function escapeLatex(text: string): string {
+    return text.replace(/[\\{}$&#^_%~]/g, (char) => {
+        switch (char) {
+            case '\\': return '\\textbackslash{}';
+            case '~': return '\\textasciitilde{}';
+            case '^': return '\\textasciicircum{}';
+            default: return `\\${char}`;
+        }
+    });
+}
+
+const cm = (px: number) => `${Math.round(px * CM_PER_PX * 100) / 100}cm`;
+const round = (n: number) => Math.round(n * 10) / 10;
+
+/**
+ * TikZ picture for a diagram layout, ready to paste into a LaTeX document.
+ */
+export function layoutToTikz(layout: DiagramLayout): string {
+    // One color definition per distinct hex value
+    const colorNames = new Map<string, string>();
+    for (const box of layout.boxes) {
+        for (const hex of [box.color, box.textColor]) {
+            if (!colorNames.has(hex)) colorNames.set(hex, `schemacolor${colorNames.size}`);
+        }
+    }
+
+    const lines: string[] = [
+        '% Requires \\usepackage{tikz} and \\usetikzlibrary{arrows.meta}',
+        ...Array.from(colorNames, ([hex, name]) => `\\definecolor{${name}}{HTML}{${hex.slice(1)}}`),
+        `\\begin{tikzpicture}[x=${CM_PER_PX}cm, y=-${CM_PER_PX}cm, font=\\sffamily\\small]`,
+    ];
+
+    if (layout.title) {
+        lines.push(`  \\node[font=\\sffamily\\large\\bfseries] at (${layout.width / 2}, ${MARGIN}) {${escapeLatex(layout.title)}};`);
+    }
+
+    for (const box of layout.boxes) {
+        const color = colorNames.get(box.color)!;
+        const textColor = colorNames.get(box.textColor)!;
+        if (box.kind === 'zone') {
+            lines.push(
+                `  \\draw[${color}, dashed, rounded corners, fill=${color}!12] (${box.x}, ${box.y}) rectangle (${box.x + box.width}, ${box.y + box.height});`,
+                `  \\node[anchor=north west, font=\\sffamily\\small\\bfseries, text=${textColor}, text width=${cm(box.width - 24)}] at (${box.x + 6}, ${box.y + 4}) {${escapeLatex(box.label)}};`
+            );
+        } else {
+            lines.push(
+                `  \\node[draw=${color}, fill=${color}!85, text=${textColor}, rounded corners, align=center, ` +
+                `minimum width=${cm(box.width)}, minimum height=${cm(box.height)}, text width=${cm(box.width - 16)}] ` +
+                `(${box.id}) at (${box.x + box.width / 2}, ${box.y + box.height / 2}) {${escapeLatex(box.label)}};`
+            );
+        }
+    }
+
+    for (const edge of layout.edges) {
+        const label = edge.label ? ` node[midway, above, sloped, font=\\sffamily\\scriptsize] {${escapeLatex(edge.label)}}` : '';
+        lines.push(`  \\draw[-{Stealth}, thick, black!70] (${round(edge.x1)}, ${round(edge.y1)}) --${label} (${round(edge.x2)}, ${round(edge.y2)});`);
+    }
+
+    const origin = labelsOrigin(layout);
+    layout.labels.forEach((label, i) => {
+        lines.push(`  \\node[anchor=west, font=\\sffamily\\footnotesize, text=black!70] at (${origin.x}, ${origin.y + (i + 0.5) * LABEL_ROW_HEIGHT}) {\\textbullet\\ ${escapeLatex(label)}};`);
+    });
+
+    lines.push('\\end{tikzpicture}');
+    return lines.join('\n');
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { parseSchema } from '@/lib/schema';
+import { exportSchemaAsVector, layoutSchema } from '@/lib/vector';
+import { textColorOn } from './layout';
+
+const PASTEL_SCHEMA = `---BEGIN PROMPT---
+[ZONES/SECTIONS]
+Input Zone: Raw data
+- Background: #EAF2FB
+
+Method Zone: The model
+- Background: #1E3A5F
+
+[VISUAL ELEMENTS]
+Tokenizer
+- Zone: Input Zone
+
+Encoder
+- Zone: Method Zone
+
+[CONNECTIONS]
+- Tokenizer → Encoder: tokens
+---END PROMPT---`;
+
+describe('textColorOn', () => {
+    it('uses dark text on light fills and white text on dark fills', () => {
+        expect(textColorOn('#EAF2FB')).toBe('#0F172A');
+        expect(textColorOn('#F5A623')).toBe('#0F172A');
+        expect(textColorOn('#1E3A5F')).toBe('#FFFFFF');
+        expect(textColorOn('#9B59B6')).toBe('#FFFFFF');
+    });
+});
+
+describe('layoutSchema', () => {
+    it('gives elements a label color readable on the zone color they inherit', () => {
+        const elements = layoutSchema(parseSchema(PASTEL_SCHEMA)).boxes.filter((box) => box.kind === 'element');
+        expect(elements.map((box) => [box.label, box.color, box.textColor])).toEqual([
+            ['Tokenizer', '#EAF2FB', '#0F172A'],
+            ['Encoder', '#1E3A5F', '#FFFFFF'],
+        ]);
+    });
+
+    it('draws an arrow for every resolved connection', () => {
+        const layout = layoutSchema(parseSchema(PASTEL_SCHEMA));
+        expect(layout.edges).toHaveLength(1);
+        expect(layout.unresolvedConnections).toEqual([]);
+    });
+});
+
+describe('exportSchemaAsVector', () => {
+    it('writes the label color into every format', () => {
+        expect(exportSchemaAsVector(PASTEL_SCHEMA, 'svg')).toContain('text-anchor="middle" fill="#0F172A"');
+        expect(exportSchemaAsVector(PASTEL_SCHEMA, 'drawio')).toContain('fillColor=#EAF2FB;strokeColor=#EAF2FB;fontColor=#0F172A;');
+
+        const tikz = exportSchemaAsVector(PASTEL_SCHEMA, 'tikz');
+        const [, darkName] = tikz.match(/\\definecolor\{(\w+)\}\{HTML\}\{0F172A\}/) ?? [];
+        expect(darkName).toBeDefined();
+        expect(tikz).toContain(`text=${darkName}, rounded corners`);
+    });
+});
@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Keep persistence in memory; there's no IndexedDB under node
+vi.mock('@/lib/storage', () => {
+    const items = new Map<string, string>();
+    return {
+        indexedDBStorage: {
+            getItem: async (name: string) => items.get(name) ?? null,
+            setItem: async (name: string, value: string) => { items.set(name, value); },
+            removeItem: async (name: string) => { items.delete(name); },
+        },
+        imageBlobStorage: {
+            get: async () => null,
+            put: async () => {},
+            delete: async () => {},
+            keys: async () => [],
+        },
+    };
+});
+
+import { useWorkflowStore } from './workflowStore';
+
+const initialState = useWorkflowStore.getState();
+
+function deferred<T>() {
+    let resolve!: (value: T) => void;
+    const promise = new Promise<T>((r) => { resolve = r; });
+    return { promise, resolve };
+}
+
+describe('project switching during model calls', () => {
+    let first: string;
+    let second: string;
+
+    beforeEach(() => {
+        useWorkflowStore.setState(initialState, true);
+        const store = useWorkflowStore.getState();
+        first = store.activeProjectId;
+        second = store.createProject('Second paper');
+        store.switchProject(first);
+    });
+
+    it('keeps a pending result in the project that started it', async () => {
+        const response = deferred<string>();
+        const generate = async () => {
+            const { beginModelCall, endModelCall } = useWorkflowStore.getState();
+            beginModelCall();
+            try {
+                const schema = await response.promise;
+                useWorkflowStore.getState().setGeneratedSchema(schema);
+            } finally {
+                endModelCall();
+            }
+        };
+
+        const running = generate();
+        useWorkflowStore.getState().switchProject(second);
+        expect(useWorkflowStore.getState().activeProjectId).toBe(first);
+
+        response.resolve('---BEGIN PROMPT---');
+        await running;
+        expect(useWorkflowStore.getState().pendingModelCalls).toBe(0);
+
+        useWorkflowStore.getState().switchProject(second);
+        const state = useWorkflowStore.getState();
+        expect(state.activeProjectId).toBe(second);
+        expect(state.generatedSchema).toBe('');
+        expect(state.projects.find((p) => p.id === first)!.data.generatedSchema).toBe('---BEGIN PROMPT---');
+    });
+
+    it('does not create or delete projects while a call is in flight', () => {
+        const store = useWorkflowStore.getState();
+        store.beginModelCall();
+
+        expect(store.createProject('Third paper')).toBe(first);
+        store.deleteProject(first);
+        store.deleteProject(second);
+        expect(useWorkflowStore.getState().projects.map((p) => p.id)).toEqual([first, second]);
+
+        store.endModelCall();
+        store.deleteProject(first);
+        const state = useWorkflowStore.getState();
+        expect(state.projects.map((p) => p.id)).toEqual([second]);
+        expect(state.activeProjectId).toBe(second);
+    });
+
+    it('never counts below zero', () => {
+        const store = useWorkflowStore.getState();
+        store.endModelCall();
+        store.beginModelCall();
+        expect(useWorkflowStore.getState().pendingModelCalls).toBe(1);
+    });
+});
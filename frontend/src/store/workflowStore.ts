@@ -1,18 +1,109 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import { indexedDBStorage } from '@/lib/storage';
+import { ImageRef, pruneImages, storeImage } from '@/lib/images';
+import { DEFAULT_REQUEST_BUDGET, RequestBudget } from '@/lib/cost';
+import { DEFAULT_RETRY_POLICY, RetryOptions, RetryPolicy } from '@/lib/retry';
+import type { PdfImportOptions } from '@/lib/pdf';
+import type { ModelConfig, ProviderId } from '@/lib/providers';
+import {
+    BUILT_IN_TEMPLATE_IDS,
+    createBuiltInTemplates,
+    getCurrentContent,
+    PROMPT_STAGES,
+    PromptStage,
+    PromptTemplate,
+    PromptTemplateSet,
+} from '@/lib/prompts';
 
-export interface ModelConfig {
-    baseUrl: string;
-    apiKey: string;
-    modelName: string;
-}
+export type { ModelConfig } from '@/lib/providers';
+
+export type ModelStage = 'logic' | 'vision';
 
 export interface HistoryItem {
     id: string;
     timestamp: number;
     schema: string;
-    imageUrl: string | null;
+    imageRef: ImageRef | null;
+    parentId?: string; // Set for region edits of another history item
+    instruction?: string; // The edit instruction, for region edits
+}
+
+export interface SchemaRevision {
+    id: string;
+    timestamp: number;
+    schema: string;
+    author: 'model' | 'user';
+    restoredFrom?: string; // Revision id, when created by a restore
+}
+
+/** A turn of the refinement chat; assistant turns carry the re-rendered image */
+export interface RefinementMessage {
+    id: string;
+    timestamp: number;
+    role: 'user' | 'assistant';
+    content: string;
+    imageRef?: ImageRef | null;
+    error?: boolean;
+}
+
+/** One image of a multi-variant render, kept out of history until picked or starred */
+export interface RenderCandidate {
+    id: string;
+    schema: string;
+    modelName: string;
+    temperature?: number;
+    status: 'pending' | 'done' | 'error';
+    imageRef: ImageRef | null;
+    error?: string;
+    starred: boolean;
+}
+
+export interface RenderVariantSettings {
+    count: number;
+    modelNames: string; // Comma-separated; empty uses the vision model
+    temperatures: string; // Comma-separated; empty uses the provider default
+}
+
+export interface UploadedFile {
+    name: string;
+    type: string;
+    size: number; // Bytes
+    preview?: ImageRef;
+    images: ImageRef[]; // Sent to the logic model (one per PDF page)
+    text?: string; // Text extracted from a PDF or document, sent along with the paper content
+    pages?: number; // PDF pages imported
+    figures?: SourceFigure[]; // Candidate reference images from LaTeX sources or .docx
+}
+
+export interface SourceFigure {
+    caption: string;
+    imageRef: ImageRef;
+}
+
+/** Everything that belongs to one paper, swapped in and out by `switchProject` */
+export interface ProjectData {
+    paperContent: string;
+    uploadedFiles: UploadedFile[];
+    generatedSchema: string;
+    schemaRevisions: SchemaRevision[]; // Oldest first
+    generatedImage: ImageRef | null;
+    referenceImages: ImageRef[];
+    history: HistoryItem[];
+    refinementMessages: RefinementMessage[];
+}
+
+/**
+ * A named workspace. The active project's data lives in the top-level state
+ * fields; its `data` here is emptied while active and written back when the
+ * user switches away, so images are never stored twice.
+ */
+export interface Project {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    data: ProjectData;
 }
 
 interface WorkflowState {
@@ -24,10 +115,40 @@ interface WorkflowState {
     language: 'en' | 'zh';
     currentStep: 1 | 2 | 3;
     paperContent: string;
+    uploadedFiles: UploadedFile[];
     generatedSchema: string;
-    generatedImage: string | null;
-    referenceImages: string[]; // Base64 encoded
+    schemaRevisions: SchemaRevision[];
+    generatedImage: ImageRef | null;
+    referenceImages: ImageRef[]; // Stored in the IndexedDB image store
     history: HistoryItem[];
+    refinementMessages: RefinementMessage[];
+
+    // Variant rendering (settings persisted, candidates session-only)
+    renderVariantSettings: RenderVariantSettings;
+    renderCandidates: RenderCandidate[];
+
+    // Generate, render, edit and refine calls in flight (session-only). Their
+    // results are written to whichever project is active when they land, so
+    // projects can't be switched or deleted until they settle.
+    pendingModelCalls: number;
+
+    // How PDFs are turned into model input (Persisted)
+    pdfImportOptions: PdfImportOptions;
+
+    // Per-request token and cost limits (Persisted)
+    requestBudget: RequestBudget;
+
+    // Retries and fallback models per stage (Persisted)
+    retryPolicy: RetryPolicy;
+    fallbackConfigs: Record<ModelStage, ModelConfig[]>;
+
+    // Projects (Persisted)
+    projects: Project[];
+    activeProjectId: string;
+
+    // Prompt template library (Persisted)
+    promptTemplates: PromptTemplate[];
+    activePromptTemplateIds: Record<PromptStage, string>;
 
     // Hydration flag
     _hasHydrated: boolean;
@@ -38,39 +159,167 @@ interface WorkflowState {
     setLanguage: (lang: 'en' | 'zh') => void;
     setCurrentStep: (step: 1 | 2 | 3) => void;
     setPaperContent: (content: string) => void;
+    addUploadedFiles: (files: UploadedFile[]) => void;
+    removeUploadedFile: (index: number) => void;
+    clearUploadedFiles: () => void;
     setGeneratedSchema: (schema: string) => void;
-    setGeneratedImage: (image: string | null) => void;
-    addReferenceImage: (image: string) => void;
+    commitSchemaRevision: (author: SchemaRevision['author']) => void;
+    restoreSchemaRevision: (id: string) => void;
+    setGeneratedImage: (image: ImageRef | null) => void;
+    addReferenceImage: (image: ImageRef) => void;
     removeReferenceImage: (index: number) => void;
     clearReferenceImages: () => void;
     addToHistory: (item: Omit<HistoryItem, 'id' | 'timestamp'>) => void;
     loadFromHistory: (id: string) => void;
     deleteFromHistory: (id: string) => void;
     clearHistory: () => void;
+    addRefinementMessage: (message: Omit<RefinementMessage, 'id' | 'timestamp'>) => void;
+    clearRefinementMessages: () => void;
+    setRenderVariantSettings: (settings: Partial<RenderVariantSettings>) => void;
+    setPdfImportOptions: (options: Partial<PdfImportOptions>) => void;
+    setRequestBudget: (budget: Partial<RequestBudget>) => void;
+    setRetryPolicy: (policy: Partial<RetryPolicy>) => void;
+    setFallbackConfigs: (stage: ModelStage, configs: ModelConfig[]) => void;
+    getRetryOptions: (stage: ModelStage) => RetryOptions;
+    setRenderCandidates: (candidates: RenderCandidate[]) => void;
+    updateRenderCandidate: (id: string, patch: Partial<RenderCandidate>) => void;
+    toggleRenderCandidateStar: (id: string) => void;
+    discardRenderCandidate: (id: string) => void;
+    pickRenderCandidate: (id: string) => void;
+    clearRenderCandidates: () => void;
+    beginModelCall: () => void;
+    endModelCall: () => void;
     resetProject: () => void;
+    createProject: (name: string) => string;
+    switchProject: (id: string) => void;
+    renameProject: (id: string, name: string) => void;
+    deleteProject: (id: string) => void;
+    addPromptTemplate: (stage: PromptStage, name: string, content: string) => string;
+    savePromptTemplateVersion: (id: string, content: string, note?: string) => void;
+    renamePromptTemplate: (id: string, name: string) => void;
+    restorePromptTemplateVersion: (id: string, versionId: string) => void;
+    deletePromptTemplate: (id: string) => void;
+    setActivePromptTemplate: (stage: PromptStage, id: string) => void;
+    importPromptTemplates: (templates: PromptTemplate[]) => number;
+    getActivePromptTemplates: () => PromptTemplateSet;
     setHasHydrated: (state: boolean) => void;
-    canAddToHistory: () => boolean; // Check if we can add new history
     getHistoryCount: () => number;
 }
 
 const defaultLogicConfig: ModelConfig = {
+    provider: 'openai',
     baseUrl: 'https://api.deepseek.com',
     apiKey: '',
     modelName: 'deepseek-chat',
 };
 
 const defaultVisionConfig: ModelConfig = {
+    provider: 'google',
     baseUrl: 'https://generativelanguage.googleapis.com/v1beta',
     apiKey: '',
     modelName: 'gemini-3-pro-image-preview',
 };
 
-// Maximum number of history items with images (to prevent storage overflow)
-// Maximum number of history items with images (IndexedDB can handle more)
-const MAX_HISTORY_ITEMS = 20;
+function emptyProjectData(): ProjectData {
+    return {
+        paperContent: '',
+        uploadedFiles: [],
+        generatedSchema: '',
+        schemaRevisions: [],
+        generatedImage: null,
+        referenceImages: [],
+        history: [],
+        refinementMessages: [],
+    };
+}
+
+function pickProjectData(state: ProjectData): ProjectData {
+    return {
+        paperContent: state.paperContent,
+        uploadedFiles: state.uploadedFiles,
+        generatedSchema: state.generatedSchema,
+        schemaRevisions: state.schemaRevisions,
+        generatedImage: state.generatedImage,
+        referenceImages: state.referenceImages,
+        history: state.history,
+        refinementMessages: state.refinementMessages,
+    };
+}
+
+function saveStarredCandidates(candidates: RenderCandidate[], addToHistory: (item: Omit<HistoryItem, 'id' | 'timestamp'>) => void): void {
+    candidates
+        .filter((c) => c.starred && c.imageRef)
+        .forEach((c) => addToHistory({ schema: c.schema, imageRef: c.imageRef }));
+}
+
+function newProject(name: string): Project {
+    const now = Date.now();
+    return { id: crypto.randomUUID(), name, createdAt: now, updatedAt: now, data: emptyProjectData() };
+}
+
+const initialProject = newProject('Untitled Project');
+
+function collectProjectImageRefs(data: ProjectData): ImageRef[] {
+    return [
+        ...data.uploadedFiles.flatMap((f) => [
+            ...f.images,
+            ...(f.preview ? [f.preview] : []),
+            ...(f.figures || []).map((figure) => figure.imageRef),
+        ]),
+        ...(data.generatedImage ? [data.generatedImage] : []),
+        ...data.referenceImages,
+        ...data.history.flatMap((h) => (h.imageRef ? [h.imageRef] : [])),
+        // Missing in projects saved before the refinement chat existed
+        ...(data.refinementMessages || []).flatMap((m) => (m.imageRef ? [m.imageRef] : [])),
+    ];
+}
+
+/**
+ * Before v2, images were persisted inline as data URLs. Move each one into
+ * the image blob store and keep only its reference.
+ */
+async function migrateInlineImages(data: Partial<ProjectData> & { history?: unknown[] }): Promise<Partial<ProjectData>> {
+    const toRef = (image?: string | null) => (image ? storeImage(image) : Promise.resolve(null));
+    type LegacyHistoryItem = Omit<HistoryItem, 'imageRef'> & { imageUrl?: string | null };
+    type LegacyUploadedFile = Omit<UploadedFile, 'images' | 'size'> & { images?: string[]; base64?: string; size?: number };
+
+    return {
+        ...data,
+        generatedImage: await toRef(data.generatedImage),
+        referenceImages: await Promise.all((data.referenceImages || []).map(storeImage)),
+        uploadedFiles: await Promise.all(((data.uploadedFiles || []) as LegacyUploadedFile[]).map(async (file) => ({
+            name: file.name,
+            type: file.type,
+            size: file.size ?? 0,
+            preview: (await toRef(file.preview)) ?? undefined,
+            images: await Promise.all((file.images || []).map(storeImage)),
+        }))),
+        history: await Promise.all(((data.history || []) as LegacyHistoryItem[]).map(async ({ imageUrl, ...item }) => ({
+            ...item,
+            imageRef: await toRef(imageUrl),
+        }))),
+    };
+}
+
+// Oldest versions are dropped beyond this, per template
+const MAX_PROMPT_VERSIONS = 50;
+
+// Oldest schema revisions are dropped beyond this, per project
+const MAX_SCHEMA_REVISIONS = 100;
 
 // Safe localStorage wrapper removed in favor of IndexedDB
 
+/**
+ * Configs persisted before `provider` existed were routed by sniffing the
+ * model name and URL. Reproduce that decision once when migrating them.
+ */
+function inferLegacyProvider(config: Omit<ModelConfig, 'provider'>, stage: ModelStage): ProviderId {
+    const modelName = config.modelName.toLowerCase();
+    const isGoogleEndpoint = config.baseUrl.includes('googleapis.com') || config.baseUrl.includes('goog') || !config.baseUrl;
+    const isGoogleModel = stage === 'logic' ? modelName.startsWith('gemini') : modelName.includes('gemini-3');
+    return isGoogleModel && isGoogleEndpoint ? 'google' : 'openai';
+}
+
 export const useWorkflowStore = create<WorkflowState>()(
     persist(
         (set, get) => ({
@@ -79,11 +328,18 @@ export const useWorkflowStore = create<WorkflowState>()(
             visionConfig: defaultVisionConfig,
             language: 'zh',
             currentStep: 1,
-            paperContent: '',
-            generatedSchema: '',
-            generatedImage: null,
-            referenceImages: [],
-            history: [],
+            ...emptyProjectData(),
+            renderVariantSettings: { count: 1, modelNames: '', temperatures: '' },
+            renderCandidates: [],
+            pendingModelCalls: 0,
+            pdfImportOptions: { mode: 'text', pageRange: '' },
+            requestBudget: { ...DEFAULT_REQUEST_BUDGET },
+            retryPolicy: { ...DEFAULT_RETRY_POLICY },
+            fallbackConfigs: { logic: [], vision: [] },
+            projects: [initialProject],
+            activeProjectId: initialProject.id,
+            promptTemplates: createBuiltInTemplates(),
+            activePromptTemplateIds: { ...BUILT_IN_TEMPLATE_IDS },
             _hasHydrated: false,
 
             // Actions
@@ -92,7 +348,55 @@ export const useWorkflowStore = create<WorkflowState>()(
             setLanguage: (lang) => set({ language: lang }),
             setCurrentStep: (step) => set({ currentStep: step }),
             setPaperContent: (content) => set({ paperContent: content }),
+
+            addUploadedFiles: (files) => set((state) => ({
+                uploadedFiles: [...state.uploadedFiles, ...files]
+            })),
+
+            removeUploadedFile: (index) => set((state) => ({
+                uploadedFiles: state.uploadedFiles.filter((_, i) => i !== index)
+            })),
+
+            clearUploadedFiles: () => set({ uploadedFiles: [] }),
+
             setGeneratedSchema: (schema) => set({ generatedSchema: schema }),
+
+            // Snapshot the current schema, unless it matches the latest revision
+            commitSchemaRevision: (author) => {
+                const { generatedSchema, schemaRevisions } = get();
+                const latest = schemaRevisions[schemaRevisions.length - 1];
+                if (!generatedSchema.trim() || latest?.schema === generatedSchema) return;
+
+                const revision: SchemaRevision = {
+                    id: crypto.randomUUID(),
+                    timestamp: Date.now(),
+                    schema: generatedSchema,
+                    author,
+                };
+                set({ schemaRevisions: [...schemaRevisions, revision].slice(-MAX_SCHEMA_REVISIONS) });
+            },
+
+            restoreSchemaRevision: (id) => {
+                const { schemaRevisions, commitSchemaRevision } = get();
+                const revision = schemaRevisions.find((r) => r.id === id);
+                if (!revision) return;
+
+                // Keep unsaved edits before replacing them
+                commitSchemaRevision('user');
+                set({ generatedSchema: revision.schema });
+                const latest = get().schemaRevisions[get().schemaRevisions.length - 1];
+                if (latest?.schema !== revision.schema) {
+                    set((state) => ({
+                        schemaRevisions: [...state.schemaRevisions, {
+                            id: crypto.randomUUID(),
+                            timestamp: Date.now(),
+                            schema: revision.schema,
+                            author: 'user' as const,
+                            restoredFrom: revision.id,
+                        }].slice(-MAX_SCHEMA_REVISIONS),
+                    }));
+                }
+            },
             setGeneratedImage: (image) => set({ generatedImage: image }),
 
             addReferenceImage: (image) => set((state) => ({
@@ -105,11 +409,6 @@ export const useWorkflowStore = create<WorkflowState>()(
 
             clearReferenceImages: () => set({ referenceImages: [] }),
 
-            // Check if we can add new history (limit: 2)
-            canAddToHistory: () => {
-                return get().history.length < MAX_HISTORY_ITEMS;
-            },
-
             getHistoryCount: () => {
                 return get().history.length;
             },
@@ -123,10 +422,7 @@ export const useWorkflowStore = create<WorkflowState>()(
                     timestamp: Date.now(),
                 };
 
-                // Add new item and keep only the latest MAX_HISTORY_ITEMS
-                const newHistory = [newItem, ...state.history].slice(0, MAX_HISTORY_ITEMS);
-
-                set({ history: newHistory });
+                set({ history: [newItem, ...state.history] });
             },
 
             loadFromHistory: (id) => {
@@ -134,42 +430,291 @@ export const useWorkflowStore = create<WorkflowState>()(
                 if (item) {
                     set({
                         generatedSchema: item.schema,
-                        generatedImage: item.imageUrl,
+                        generatedImage: item.imageRef,
                         currentStep: 3, // Go to step 3 to view the image
                     });
                 }
             },
 
-            deleteFromHistory: (id) => set((state) => ({
-                history: state.history.filter((h) => h.id !== id),
-            })),
+            // Region edits are deleted along with the item they were made from
+            deleteFromHistory: (id) => set((state) => {
+                const removed = new Set([id]);
+                let size = 0;
+                while (removed.size !== size) {
+                    size = removed.size;
+                    state.history.forEach((h) => {
+                        if (h.parentId && removed.has(h.parentId)) removed.add(h.id);
+                    });
+                }
+                return { history: state.history.filter((h) => !removed.has(h.id)) };
+            }),
 
             clearHistory: () => set({ history: [] }),
 
-            resetProject: () => set({
-                paperContent: '',
-                generatedSchema: '',
-                generatedImage: null,
-                referenceImages: [],
-                currentStep: 1,
+            addRefinementMessage: (message) => set((state) => ({
+                refinementMessages: [
+                    ...state.refinementMessages,
+                    { ...message, id: crypto.randomUUID(), timestamp: Date.now() },
+                ],
+            })),
+
+            clearRefinementMessages: () => set({ refinementMessages: [] }),
+
+            setRenderVariantSettings: (settings) => set((state) => ({
+                renderVariantSettings: { ...state.renderVariantSettings, ...settings },
+            })),
+
+            setPdfImportOptions: (options) => set((state) => ({
+                pdfImportOptions: { ...state.pdfImportOptions, ...options },
+            })),
+
+            setRequestBudget: (budget) => set((state) => ({
+                requestBudget: { ...state.requestBudget, ...budget },
+            })),
+
+            setRetryPolicy: (policy) => set((state) => ({
+                retryPolicy: { ...state.retryPolicy, ...policy },
+            })),
+
+            setFallbackConfigs: (stage, configs) => set((state) => ({
+                fallbackConfigs: { ...state.fallbackConfigs, [stage]: configs },
+            })),
+
+            getRetryOptions: (stage) => {
+                const { retryPolicy, fallbackConfigs } = get();
+                return { retryPolicy, fallbacks: fallbackConfigs[stage] };
+            },
+
+            setRenderCandidates: (candidates) => set({ renderCandidates: candidates }),
+
+            // Results for a batch that was cleared or replaced are dropped
+            updateRenderCandidate: (id, patch) => set((state) => ({
+                renderCandidates: state.renderCandidates.map((c) => (c.id === id ? { ...c, ...patch } : c)),
+            })),
+
+            toggleRenderCandidateStar: (id) => set((state) => ({
+                renderCandidates: state.renderCandidates.map((c) => (c.id === id ? { ...c, starred: !c.starred } : c)),
+            })),
+
+            discardRenderCandidate: (id) => set((state) => ({
+                renderCandidates: state.renderCandidates.filter((c) => c.id !== id),
+            })),
+
+            // The winner and starred candidates go to history; the rest are discarded
+            pickRenderCandidate: (id) => {
+                const { renderCandidates, addToHistory } = get();
+                const winner = renderCandidates.find((c) => c.id === id);
+                if (!winner?.imageRef) return;
+
+                // History is newest first, so add the winner last to put it on top
+                saveStarredCandidates(renderCandidates.filter((c) => c.id !== id), addToHistory);
+                addToHistory({ schema: winner.schema, imageRef: winner.imageRef });
+                set({ generatedImage: winner.imageRef, renderCandidates: [] });
+            },
+
+            // Candidates are not persisted, so starred ones go to history rather than being lost
+            clearRenderCandidates: () => {
+                const { renderCandidates, addToHistory } = get();
+                saveStarredCandidates(renderCandidates, addToHistory);
+                set({ renderCandidates: [] });
+            },
+
+            beginModelCall: () => set((state) => ({ pendingModelCalls: state.pendingModelCalls + 1 })),
+
+            endModelCall: () => set((state) => ({ pendingModelCalls: Math.max(0, state.pendingModelCalls - 1) })),
+
+            // Clears the active project's inputs and outputs but keeps its render history
+            resetProject: () => {
+                get().clearRenderCandidates();
+                set({
+                    paperContent: '',
+                    uploadedFiles: [],
+                    generatedSchema: '',
+                    schemaRevisions: [],
+                    generatedImage: null,
+                    referenceImages: [],
+                    refinementMessages: [],
+                    currentStep: 1,
+                });
+            },
+
+            createProject: (name) => {
+                if (get().pendingModelCalls > 0) return get().activeProjectId;
+                const project = newProject(name);
+                set((state) => ({ projects: [...state.projects, project] }));
+                get().switchProject(project.id);
+                return project.id;
+            },
+
+            switchProject: (id) => {
+                const { projects, activeProjectId, clearRenderCandidates } = get();
+                const target = projects.find((p) => p.id === id);
+                if (!target || id === activeProjectId || get().pendingModelCalls > 0) return;
+
+                // Starred candidates belong to the project being left
+                clearRenderCandidates();
+                const state = get();
+                const current = pickProjectData(state);
+
+                set({
+                    projects: state.projects.map((p) => {
+                        if (p.id === state.activeProjectId) return { ...p, data: current, updatedAt: Date.now() };
+                        if (p.id === id) return { ...p, data: emptyProjectData() };
+                        return p;
+                    }),
+                    activeProjectId: id,
+                    // Projects saved before a field existed fall back to its default
+                    ...emptyProjectData(),
+                    ...target.data,
+                    currentStep: target.data.generatedImage ? 3 : target.data.generatedSchema ? 2 : 1,
+                });
+            },
+
+            renameProject: (id, name) => set((state) => ({
+                projects: state.projects.map((p) => (p.id === id ? { ...p, name, updatedAt: Date.now() } : p)),
+            })),
+
+            deleteProject: (id) => {
+                const state = get();
+                // Always keep at least one project
+                if (state.projects.length <= 1 || state.pendingModelCalls > 0) return;
+                if (id === state.activeProjectId) {
+                    get().switchProject(state.projects.find((p) => p.id !== id)!.id);
+                }
+                set((s) => ({ projects: s.projects.filter((p) => p.id !== id) }));
+            },
+
+            addPromptTemplate: (stage, name, content) => {
+                const id = crypto.randomUUID();
+                const template: PromptTemplate = {
+                    id,
+                    name,
+                    stage,
+                    builtIn: false,
+                    versions: [{ id: crypto.randomUUID(), content, createdAt: Date.now() }],
+                };
+                set((state) => ({ promptTemplates: [...state.promptTemplates, template] }));
+                return id;
+            },
+
+            savePromptTemplateVersion: (id, content, note) => set((state) => ({
+                promptTemplates: state.promptTemplates.map((t) => {
+                    if (t.id !== id || getCurrentContent(t) === content) return t;
+                    const version = { id: crypto.randomUUID(), content, createdAt: Date.now(), note };
+                    return { ...t, versions: [...t.versions, version].slice(-MAX_PROMPT_VERSIONS) };
+                }),
+            })),
+
+            renamePromptTemplate: (id, name) => set((state) => ({
+                promptTemplates: state.promptTemplates.map((t) => (t.id === id ? { ...t, name } : t)),
+            })),
+
+            // Restoring appends the old content as a new version, so history is never rewritten
+            restorePromptTemplateVersion: (id, versionId) => {
+                const template = get().promptTemplates.find((t) => t.id === id);
+                const version = template?.versions.find((v) => v.id === versionId);
+                if (template && version) {
+                    const date = new Date(version.createdAt).toLocaleString();
+                    get().savePromptTemplateVersion(id, version.content, `Restored from ${date}`);
+                }
+            },
+
+            deletePromptTemplate: (id) => set((state) => {
+                const template = state.promptTemplates.find((t) => t.id === id);
+                if (!template || template.builtIn) return {};
+                const activePromptTemplateIds = { ...state.activePromptTemplateIds };
+                if (activePromptTemplateIds[template.stage] === id) {
+                    activePromptTemplateIds[template.stage] = BUILT_IN_TEMPLATE_IDS[template.stage];
+                }
+                return {
+                    promptTemplates: state.promptTemplates.filter((t) => t.id !== id),
+                    activePromptTemplateIds,
+                };
             }),
 
+            setActivePromptTemplate: (stage, id) => set((state) => ({
+                activePromptTemplateIds: { ...state.activePromptTemplateIds, [stage]: id },
+            })),
+
+            // Imported templates always get fresh ids so they never overwrite local ones
+            importPromptTemplates: (templates) => {
+                const imported = templates.map((t) => ({
+                    ...t,
+                    id: crypto.randomUUID(),
+                    builtIn: false,
+                    versions: t.versions.map((v) => ({ ...v, id: crypto.randomUUID() })),
+                }));
+                set((state) => ({ promptTemplates: [...state.promptTemplates, ...imported] }));
+                return imported.length;
+            },
+
+            getActivePromptTemplates: () => {
+                const { promptTemplates, activePromptTemplateIds } = get();
+                return Object.fromEntries(PROMPT_STAGES.map((stage) => {
+                    const template = promptTemplates.find((t) => t.id === activePromptTemplateIds[stage])
+                        || promptTemplates.find((t) => t.id === BUILT_IN_TEMPLATE_IDS[stage])!;
+                    return [stage, getCurrentContent(template)];
+                })) as PromptTemplateSet;
+            },
+
             setHasHydrated: (state) => set({ _hasHydrated: state }),
         }),
         {
             name: 'academic-illustrator-storage',
+            version: 2,
             storage: createJSONStorage(() => indexedDBStorage),
+            migrate: async (persistedState, version) => {
+                const state = persistedState as Partial<WorkflowState>;
+                if (version < 1) {
+                    if (state.logicConfig) {
+                        state.logicConfig = { ...state.logicConfig, provider: inferLegacyProvider(state.logicConfig, 'logic') };
+                    }
+                    if (state.visionConfig) {
+                        state.visionConfig = { ...state.visionConfig, provider: inferLegacyProvider(state.visionConfig, 'vision') };
+                    }
+                }
+                if (version < 2) {
+                    Object.assign(state, await migrateInlineImages(state));
+                    state.projects = state.projects && await Promise.all(state.projects.map(async (p) => ({
+                        ...p,
+                        data: { ...emptyProjectData(), ...(await migrateInlineImages(p.data)) },
+                    })));
+                }
+                return state as WorkflowState;
+            },
             partialize: (state) => ({
                 logicConfig: state.logicConfig,
                 visionConfig: state.visionConfig,
                 language: state.language,
                 paperContent: state.paperContent,
+                uploadedFiles: state.uploadedFiles,
                 generatedSchema: state.generatedSchema,
-                // Save full images in history (max 2 items)
+                schemaRevisions: state.schemaRevisions,
+                generatedImage: state.generatedImage,
+                referenceImages: state.referenceImages,
+                // Images are stored separately; history only holds references
                 history: state.history,
+                refinementMessages: state.refinementMessages,
+                renderVariantSettings: state.renderVariantSettings,
+                pdfImportOptions: state.pdfImportOptions,
+                requestBudget: state.requestBudget,
+                retryPolicy: state.retryPolicy,
+                fallbackConfigs: state.fallbackConfigs,
+                projects: state.projects,
+                activeProjectId: state.activeProjectId,
+                promptTemplates: state.promptTemplates,
+                activePromptTemplateIds: state.activePromptTemplateIds,
             }),
             onRehydrateStorage: () => (state) => {
                 state?.setHasHydrated(true);
+                // Drop image blobs no longer referenced by any project (deleted history, etc.)
+                if (state) {
+                    const refs = [
+                        ...collectProjectImageRefs(state),
+                        ...state.projects.flatMap((p) => collectProjectImageRefs(p.data)),
+                    ];
+                    pruneImages(refs).catch(console.error);
+                }
             },
         }
     )